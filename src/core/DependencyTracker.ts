@@ -0,0 +1,510 @@
+/**
+ * ============================================================================
+ * DEPENDENCY TRACKER
+ * ============================================================================
+ * Dependency graph for computed values, metadata and constraints.
+ * Records which paths each expression reads, so a change only
+ * recomputes the entries that depend on it.
+ */
+
+import { Property } from './property';
+import { evaluate } from './Evaluator';
+import { isExpr, isProperty } from './guards';
+import type { PropertyNode, Subscription } from './PropertyNode';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kind of computed entry.
+ */
+export type ComputedKind = 'value' | 'metadata' | 'constraint';
+
+/**
+ * A recomputed entry whose result changed.
+ */
+export interface ComputedChange {
+    /** Entry key, in change-path format ('form.total', 'form.metadata.visible') */
+    readonly key: string;
+    /** Path of the node owning the expression */
+    readonly path: string[];
+    readonly kind: ComputedKind;
+    /** Metadata or constraint key (undefined for values) */
+    readonly name?: string;
+    readonly value: unknown;
+    readonly previous: unknown;
+    /** Error thrown while recomputing, if any */
+    readonly error?: unknown;
+}
+
+/**
+ * Computed change callback type.
+ */
+export type ComputedChangeCallback = (changes: ComputedChange[]) => void;
+
+interface ComputedEntry {
+    readonly key: string;
+    readonly path: string[];
+    readonly kind: ComputedKind;
+    readonly name?: string;
+    deps: Set<string>;
+    value: unknown;
+    error?: unknown;
+    dirty: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build an entry key in the same format as PropertyNode change paths.
+ */
+const slotKey = (nodePath: string, slot: string): string => {
+    if (slot === 'value') return nodePath;
+    return nodePath ? `${nodePath}.${slot}` : slot;
+};
+
+/**
+ * Split a change path into node path and slot.
+ */
+const parseKey = (key: string): { nodePath: string; slot: string } => {
+    const parts = key === '' ? [] : key.split('.');
+    for (let i = 0; i < parts.length - 1; i++) {
+        if (parts[i] === 'metadata' || parts[i] === 'constraints') {
+            return {
+                nodePath: parts.slice(0, i).join('.'),
+                slot: `${parts[i]}.${parts.slice(i + 1).join('.')}`,
+            };
+        }
+    }
+    return { nodePath: key, slot: 'value' };
+};
+
+/**
+ * Get the node path whose children were added or removed, for a
+ * 'children' change path ('items.children' -> 'items').
+ */
+const childrenChangeOf = (key: string): string | undefined => {
+    if (key === 'children') return '';
+    if (!key.endsWith('.children') || parseKey(key).slot !== 'value') return undefined;
+    return key.slice(0, -'.children'.length);
+};
+
+/**
+ * Get the keys of every slot of a node that may hold an expression.
+ */
+const slotKeysOf = (node: PropertyNode, nodePath: string): string[] => [
+    slotKey(nodePath, 'value'),
+    ...node.metadataKeys().map(key => slotKey(nodePath, `metadata.${key}`)),
+    ...node.constraintKeys().map(key => slotKey(nodePath, `constraints.${key}`)),
+];
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+    if (Object.is(a, b)) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+    }
+    if (a && b && typeof a === 'object' && typeof b === 'object' && !isProperty(a) && !isProperty(b)) {
+        const aKeys = Object.keys(a);
+        const bKeys = Object.keys(b);
+        return aKeys.length === bKeys.length && aKeys.every(k =>
+            sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k])
+        );
+    }
+    return false;
+};
+
+// ============================================================================
+// DEPENDENCY TRACKER CLASS
+// ============================================================================
+
+/**
+ * DependencyTracker - Fine-grained recomputation of computed entries.
+ *
+ * @example
+ * const tracker = new DependencyTracker(root);
+ * await tracker.start();
+ * tracker.subscribe((changes) => render(changes));
+ * root.setValue(3, { path: 'order.quantity' }); // only dependents of 'order.quantity' recompute
+ */
+export class DependencyTracker {
+    private readonly entries = new Map<string, ComputedEntry>();
+    private readonly dependents = new Map<string, Set<string>>();
+    private pathIndex = new Map<Property, string>();
+    private listenerId = 0;
+    private readonly listeners = new Map<string, ComputedChangeCallback>();
+    private subscription: Subscription | null = null;
+    private pending: Promise<ComputedChange[]> | null = null;
+
+    constructor(private readonly root: PropertyNode) {}
+
+    // ========================================================================
+    // LIFECYCLE
+    // ========================================================================
+
+    /**
+     * Discover and evaluate every computed entry, then follow changes.
+     */
+    async start(): Promise<void> {
+        this.stop();
+        this.rebuildPathIndex();
+        this.root.traverse((node, path) => {
+            for (const key of slotKeysOf(node, path.join('.'))) {
+                this.refreshEntry(key);
+            }
+        });
+
+        for (const entry of this.entries.values()) {
+            await this.computeEntry(entry);
+        }
+        this.subscription = this.root.subscribe(paths => this.invalidate(paths));
+    }
+
+    /**
+     * Stop following changes and forget all entries.
+     */
+    stop(): void {
+        this.subscription?.unsubscribe();
+        this.subscription = null;
+        this.entries.clear();
+        this.dependents.clear();
+    }
+
+    /**
+     * Check if the tracker is following changes.
+     */
+    get isActive(): boolean {
+        return this.subscription?.isActive ?? false;
+    }
+
+    // ========================================================================
+    // QUERIES
+    // ========================================================================
+
+    /**
+     * Get the keys of all computed entries.
+     */
+    keys(): string[] {
+        return [...this.entries.keys()];
+    }
+
+    /**
+     * Get the last computed result of an entry.
+     */
+    get(key: string): unknown {
+        return this.entries.get(key)?.value;
+    }
+
+    /**
+     * Check if an entry is waiting to be recomputed.
+     */
+    isDirty(key: string): boolean {
+        return this.entries.get(key)?.dirty ?? false;
+    }
+
+    /**
+     * Get the paths an entry read during its last evaluation.
+     */
+    dependenciesOf(key: string): string[] {
+        return [...this.entries.get(key)?.deps ?? []];
+    }
+
+    /**
+     * Get the entries that read a path.
+     */
+    dependentsOf(path: string): string[] {
+        return [...this.dependents.get(path) ?? []];
+    }
+
+    // ========================================================================
+    // INVALIDATION
+    // ========================================================================
+
+    /**
+     * Mark the dependents of changed paths dirty and schedule recomputation.
+     * Returns the keys of the entries marked dirty.
+     *
+     * A 'children' change (see PropertyNode.addChild) rescans the node's
+     * subtree, and everything read below an added or removed child
+     * counts as changed.
+     */
+    invalidate(paths: string[]): string[] {
+        const dirty: string[] = [];
+        const mark = (key: string) => {
+            const entry = this.entries.get(key);
+            if (entry && !entry.dirty) {
+                entry.dirty = true;
+                dirty.push(key);
+            }
+        };
+
+        const structural = new Set<string>();
+        for (const path of paths) {
+            const nodePath = childrenChangeOf(path);
+            if (nodePath === undefined) continue;
+            structural.add(nodePath);
+            for (const key of this.rescan(nodePath)) {
+                mark(key);
+            }
+        }
+
+        for (const path of paths) {
+            // The expression itself may have been replaced or removed
+            this.refreshEntry(path);
+            mark(path);
+            for (const key of this.dependents.get(path) ?? []) {
+                mark(key);
+            }
+            if (structural.has(parseKey(path).nodePath.split('.').slice(0, -1).join('.'))) {
+                for (const [dep, keys] of this.dependents) {
+                    if (dep.startsWith(`${path}.`)) keys.forEach(mark);
+                }
+            }
+        }
+
+        if (dirty.length > 0) {
+            this.schedule();
+        }
+        return dirty;
+    }
+
+    /**
+     * Wait for scheduled recomputation to finish.
+     * Resolves with the changes it produced.
+     */
+    flush(): Promise<ComputedChange[]> {
+        return this.pending ?? Promise.resolve([]);
+    }
+
+    // ========================================================================
+    // SUBSCRIPTIONS
+    // ========================================================================
+
+    /**
+     * Subscribe to "computed changed" events.
+     */
+    subscribe(callback: ComputedChangeCallback): Subscription {
+        const id = `computed_${++this.listenerId}`;
+        const listeners = this.listeners;
+        listeners.set(id, callback);
+
+        return {
+            id,
+            get isActive(): boolean {
+                return listeners.has(id);
+            },
+            unsubscribe(): void {
+                listeners.delete(id);
+            },
+        };
+    }
+
+    // ========================================================================
+    // INTERNALS
+    // ========================================================================
+
+    /**
+     * Recompute dirty entries once the current change has settled.
+     */
+    private schedule(): void {
+        if (this.pending) return;
+
+        this.pending = (async () => {
+            await Promise.resolve();
+            const changes = new Map<string, ComputedChange>();
+            try {
+                let dirty = [...this.entries.values()].filter(e => e.dirty);
+                while (dirty.length > 0) {
+                    for (const entry of dirty) {
+                        const previous = entry.value;
+                        await this.computeEntry(entry);
+                        if (!sameValue(previous, entry.value) || entry.error !== undefined) {
+                            const earlier = changes.get(entry.key);
+                            changes.set(entry.key, {
+                                key: entry.key,
+                                path: entry.path,
+                                kind: entry.kind,
+                                name: entry.name,
+                                value: entry.value,
+                                previous: earlier ? earlier.previous : previous,
+                                error: entry.error,
+                            });
+                        }
+                    }
+                    dirty = [...this.entries.values()].filter(e => e.dirty);
+                }
+            } finally {
+                this.pending = null;
+            }
+
+            const result = [...changes.values()];
+            if (result.length > 0) {
+                for (const callback of this.listeners.values()) {
+                    callback(result);
+                }
+            }
+            return result;
+        })();
+    }
+
+    /**
+     * Add, keep or drop the entry for a key depending on whether it holds an expression.
+     */
+    private refreshEntry(key: string): void {
+        const expr = this.expressionFor(key);
+        const existing = this.entries.get(key);
+
+        if (!expr) {
+            if (existing) {
+                this.setDeps(existing, new Set());
+                this.entries.delete(key);
+            }
+            return;
+        }
+        if (existing) return;
+
+        const { nodePath, slot } = parseKey(key);
+        const [kind, name] = slot === 'value'
+            ? ['value' as const, undefined]
+            : slot.startsWith('metadata.')
+                ? ['metadata' as const, slot.slice('metadata.'.length)]
+                : ['constraint' as const, slot.slice('constraints.'.length)];
+
+        this.entries.set(key, {
+            key,
+            path: nodePath ? nodePath.split('.') : [],
+            kind,
+            name,
+            deps: new Set(),
+            value: undefined,
+            // Clean until marked, so invalidate() schedules its first computation
+            dirty: false,
+        });
+    }
+
+    /**
+     * Follow children added to or removed from a node: add entries for the
+     * expressions now below it, drop the entries of the ones gone, and
+     * re-map paths. Returns the keys of the added entries.
+     */
+    private rescan(nodePath: string): string[] {
+        this.rebuildPathIndex();
+        const node = this.root.get(nodePath);
+        const below = new Set<string>();
+        node?.traverse((descendant, path) => {
+            if (path.length === 0) return;
+            const descendantPath = [nodePath, ...path].filter(Boolean).join('.');
+            for (const key of slotKeysOf(descendant, descendantPath)) {
+                below.add(key);
+            }
+        });
+
+        const prefix = nodePath ? `${nodePath}.` : '';
+        for (const entry of [...this.entries.values()]) {
+            const entryPath = entry.path.join('.');
+            if (entryPath !== nodePath && entryPath.startsWith(prefix) && !below.has(entry.key)) {
+                this.setDeps(entry, new Set());
+                this.entries.delete(entry.key);
+            }
+        }
+
+        const added: string[] = [];
+        for (const key of below) {
+            if (this.entries.has(key)) continue;
+            this.refreshEntry(key);
+            if (this.entries.has(key)) added.push(key);
+        }
+        return added;
+    }
+
+    /**
+     * Get the expression currently stored under a key, if any.
+     */
+    private expressionFor(key: string): Property | undefined {
+        const { nodePath, slot } = parseKey(key);
+        const node = this.root.get(nodePath);
+        if (!node) return undefined;
+
+        let holder: Property | undefined;
+        if (slot === 'value') {
+            const prop = node.getProperty();
+            if (isExpr(prop)) return prop;
+            holder = prop;
+        } else if (slot.startsWith('metadata.')) {
+            const meta = node.getRawMetadata(slot.slice('metadata.'.length));
+            return meta && isExpr(meta) ? meta : undefined;
+        } else {
+            holder = node.getRawConstraint(slot.slice('constraints.'.length));
+        }
+
+        const value = holder?.value;
+        return isProperty(value) && isExpr(value) ? value : undefined;
+    }
+
+    /**
+     * Evaluate an entry, recording every path its references read.
+     */
+    private async computeEntry(entry: ComputedEntry): Promise<void> {
+        const expr = this.expressionFor(entry.key);
+        const node = this.root.get(entry.path);
+        entry.dirty = false;
+        if (!expr || !node) return;
+
+        const deps = new Set<string>();
+        const ctx = {
+            ...node.evaluationContext(),
+            onRead: (owner: Property, slot: string) => {
+                let nodePath = this.pathIndex.get(owner);
+                if (nodePath === undefined) {
+                    this.rebuildPathIndex();
+                    nodePath = this.pathIndex.get(owner);
+                }
+                if (nodePath !== undefined) {
+                    deps.add(slotKey(nodePath, slot));
+                }
+            },
+        };
+
+        try {
+            const result = await evaluate(expr, ctx);
+            entry.value = entry.kind === 'constraint' ? Boolean(result) : result;
+            entry.error = undefined;
+        } catch (error) {
+            entry.value = undefined;
+            entry.error = error;
+        }
+        this.setDeps(entry, deps);
+    }
+
+    /**
+     * Replace an entry's dependencies, keeping the reverse index in sync.
+     */
+    private setDeps(entry: ComputedEntry, deps: Set<string>): void {
+        for (const dep of entry.deps) {
+            const keys = this.dependents.get(dep);
+            keys?.delete(entry.key);
+            if (keys?.size === 0) this.dependents.delete(dep);
+        }
+        entry.deps = deps;
+        for (const dep of deps) {
+            let keys = this.dependents.get(dep);
+            if (!keys) {
+                keys = new Set();
+                this.dependents.set(dep, keys);
+            }
+            keys.add(entry.key);
+        }
+    }
+
+    /**
+     * Map every Property in the tree to its path.
+     */
+    private rebuildPathIndex(): void {
+        this.pathIndex = new Map();
+        this.root.traverse((node, path) => {
+            this.pathIndex.set(node.getProperty(), path.join('.'));
+        });
+    }
+}
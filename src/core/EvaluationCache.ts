@@ -0,0 +1,102 @@
+/**
+ * ============================================================================
+ * EVALUATION CACHE
+ * ============================================================================
+ * Memoized results of evaluated expressions.
+ * Keyed by expression and owner (the property the expression runs as `self`).
+ */
+
+import { Property } from './property';
+
+/**
+ * Cache hit/miss counters.
+ */
+export interface CacheStats {
+    readonly hits: number;
+    readonly misses: number;
+    /** Entries stored since the last invalidation */
+    readonly size: number;
+}
+
+/**
+ * Result of a cache lookup.
+ */
+export type CacheLookup =
+    | { readonly hit: true; readonly value: unknown }
+    | { readonly hit: false };
+
+const MISS: CacheLookup = { hit: false };
+
+/**
+ * EvaluationCache - Results of (expression, owner) pairs.
+ *
+ * Results depend on the whole tree, so any mutation clears the cache.
+ * Each clear starts a new generation; a result computed in an older
+ * generation is dropped instead of stored.
+ */
+export class EvaluationCache {
+    private entries = new WeakMap<Property, Map<Property, unknown>>();
+    private currentGeneration = 0;
+    private hits = 0;
+    private misses = 0;
+    private size = 0;
+
+    /**
+     * Current generation (incremented by clear()).
+     */
+    get generation(): number {
+        return this.currentGeneration;
+    }
+
+    /**
+     * Look up the result of an expression evaluated with an owner.
+     */
+    lookup(expr: Property, owner: Property): CacheLookup {
+        const owners = this.entries.get(expr);
+        if (owners?.has(owner)) {
+            this.hits++;
+            return { hit: true, value: owners.get(owner) };
+        }
+        this.misses++;
+        return MISS;
+    }
+
+    /**
+     * Store a result computed during `generation`.
+     */
+    store(expr: Property, owner: Property, value: unknown, generation: number): void {
+        if (generation !== this.currentGeneration) return;
+
+        let owners = this.entries.get(expr);
+        if (!owners) {
+            owners = new Map();
+            this.entries.set(expr, owners);
+        }
+        if (!owners.has(owner)) this.size++;
+        owners.set(owner, value);
+    }
+
+    /**
+     * Drop every stored result.
+     */
+    clear(): void {
+        this.entries = new WeakMap();
+        this.currentGeneration++;
+        this.size = 0;
+    }
+
+    /**
+     * Get hit/miss counters.
+     */
+    stats(): CacheStats {
+        return { hits: this.hits, misses: this.misses, size: this.size };
+    }
+
+    /**
+     * Reset hit/miss counters.
+     */
+    resetStats(): void {
+        this.hits = 0;
+        this.misses = 0;
+    }
+}
@@ -7,11 +7,35 @@
  */
 
 import { Property } from './property';
-import { Registry, EvaluationContext } from './Registry';
+import { Registry, EvaluationContext, EvaluationBudget, RefFrame } from './Registry';
 import { isLit, isRef, isOp, isProperty } from './guards';
+import type { EvaluationCache } from './EvaluationCache';
+import { parentIndexFor, propertyPath } from './ParentIndex';
+import {
+    PropertyError,
+    EvaluationLimitError,
+    UnknownOperatorError,
+    OperatorError,
+    CircularReferenceError,
+    RefResolutionError,
+} from './errors';
+import { expressionsOf } from './expressions';
+import { refPathOf, isOptional, compileRefWalk, RefPath, RefWalkRules } from './refs';
 
 const MAX_DEPTH = 1000;
 
+/**
+ * Thrown by evaluateSync when an expression needs async evaluation
+ * (an operator without a sync implementation, or one returning a Promise).
+ * Callers catch it and fall back to evaluate().
+ */
+export class SyncEvaluationError extends PropertyError {
+    constructor(readonly operator: string) {
+        super(`Operator "${operator}" cannot be evaluated synchronously`);
+        this.name = 'SyncEvaluationError';
+    }
+}
+
 // Cache for sorted argument keys
 const sortedArgsCache = new WeakMap<Property, string[]>();
 
@@ -32,261 +56,542 @@ const getSortedArgKeys = (expr: Property): string[] => {
 };
 
 /**
- * Find the parent of a property in the tree.
+ * Find the parent of a property, through the context's lookup if it has one.
  */
-const findParent = (
-    target: Property,
-    root: Property,
-    parent?: Property
-): Property | undefined => {
-    if (root === target) return parent;
+const findParent = (target: Property, ctx: EvaluationContext): Property | undefined =>
+    ctx.findParent
+        ? ctx.findParent(target)
+        : parentIndexFor(ctx.root).get(target);
 
-    if (root.children) {
-        for (const child of Object.values(root.children)) {
-            if (child === target) return root;
-            const found = findParent(target, child, root);
-            if (found) return found;
+/**
+ * Get the arguments of an operator expression in order.
+ */
+export const getArgs = (expr: Property): Property[] => {
+    const args: Property[] = [];
+    if (expr.children) {
+        for (const key of getSortedArgKeys(expr)) {
+            const arg = expr.children[key];
+            if (arg) args.push(arg);
         }
     }
+    return args;
+};
 
-    if (root.metadata) {
-        for (const meta of Object.values(root.metadata)) {
-            if (meta === target) return root;
-            const found = findParent(target, meta, root);
-            if (found) return found;
-        }
+/**
+ * Increment the evaluation depth, guarding against runaway recursion.
+ */
+export const nextDepth = (ctx: EvaluationContext): number => {
+    const depth = (ctx.depth ?? 0) + 1;
+    const max = ctx.limits?.maxDepth ?? MAX_DEPTH;
+    if (depth > max) {
+        throw new EvaluationLimitError(
+            'depth', max, 'Maximum evaluation depth exceeded - possible circular reference'
+        );
+    }
+    return depth;
+};
+
+/**
+ * Count one evaluation step against the context's limits, starting the
+ * budget on the outermost call. Returns the budget to pass down.
+ */
+export const spendStep = (ctx: EvaluationContext): EvaluationBudget => {
+    const limits = ctx.limits!;
+    const budget = ctx.budget ?? {
+        steps: 0,
+        deadline: limits.timeout === undefined ? undefined : Date.now() + limits.timeout,
+    };
+
+    budget.steps++;
+    if (limits.maxSteps !== undefined && budget.steps > limits.maxSteps) {
+        throw new EvaluationLimitError(
+            'steps', limits.maxSteps, `Maximum evaluation steps exceeded (${limits.maxSteps})`
+        );
     }
+    if (budget.deadline !== undefined && Date.now() > budget.deadline) {
+        throw new EvaluationLimitError(
+            'timeout', limits.timeout!, `Evaluation timed out after ${limits.timeout}ms`
+        );
+    }
+    return budget;
+};
 
-    if (root.constraints) {
-        for (const constraint of Object.values(root.constraints)) {
-            if (constraint === target) return root;
-            const found = findParent(target, constraint, root);
-            if (found) return found;
+/**
+ * Check the size of a collection against the context's limits.
+ * Operators call this before iterating; the evaluator checks operator results.
+ */
+export const checkCollectionSize = (value: unknown, ctx: EvaluationContext): void => {
+    const max = ctx.limits?.maxCollectionSize;
+    if (max !== undefined && Array.isArray(value) && value.length > max) {
+        throw new EvaluationLimitError(
+            'collectionSize', max, `Maximum collection size exceeded (${value.length} > ${max})`
+        );
+    }
+};
+
+/**
+ * Get the cache usable in a context.
+ * Results under bindings depend on the bound values, and dependency
+ * tracking must see every read, so neither uses the cache.
+ */
+export const cacheFor = (ctx: EvaluationContext): EvaluationCache | undefined =>
+    ctx.bindings || ctx.onRead ? undefined : ctx.cache;
+
+/**
+ * Check if a context observes evaluation (tracer or enter/exit hooks).
+ */
+export const isObserved = (ctx: EvaluationContext): boolean =>
+    ctx.tracer !== undefined || ctx.onEnter !== undefined || ctx.onExit !== undefined;
+
+/**
+ * Describe where an expression is held, e.g. 'total.value' or
+ * 'email.metadata.visible' (as in lint findings).
+ */
+const siteLabel = (frame: RefFrame, ctx: EvaluationContext): string => {
+    const path = propertyPath(frame.owner, ctx.root, (p) => findParent(p, ctx)) ?? [frame.owner.id];
+    const site = expressionsOf(frame.owner, path).find(s => s.expr === frame.expr);
+    return site ? site.path.join('.') : [...path, expressionLabel(frame.expr)].join('.');
+};
+
+/**
+ * Push a referenced expression onto a reference stack, throwing if it is
+ * already being evaluated for the same owner.
+ */
+export const enterRef = (
+    expr: Property,
+    owner: Property,
+    stack: RefFrame | undefined,
+    ctx: EvaluationContext
+): RefFrame => {
+    const entered: RefFrame = { expr, owner, parent: stack };
+    for (let frame = stack; frame; frame = frame.parent) {
+        if (frame.expr === expr && frame.owner === owner) {
+            const cycle: string[] = [];
+            for (let f: RefFrame | undefined = entered; f !== frame.parent; f = f!.parent) {
+                cycle.unshift(siteLabel(f!, ctx));
+            }
+            throw new CircularReferenceError(cycle);
         }
     }
+    return entered;
+};
+
+/**
+ * Label of an expression in PropertyError.expressions.
+ */
+const expressionLabel = (expr: Property): string =>
+    isRef(expr) ? `ref:${(expr.value as string[]).join('.')}` : expr.id;
+
+/**
+ * Annotate an error leaving the evaluation of `expr`: the innermost
+ * expression records where it happened, every expression adds itself to
+ * the chain. Anything else an operator throws is wrapped in an
+ * OperatorError; SyncEvaluationError and aborts pass through untouched.
+ */
+export const annotate = (error: unknown, expr: Property, ctx: EvaluationContext): unknown => {
+    if (error instanceof SyncEvaluationError || ctx.signal?.aborted) return error;
 
-    return undefined;
+    const failure = error instanceof PropertyError
+        ? error
+        : isOp(expr) ? new OperatorError(expr.id, error) : undefined;
+    if (!failure) return error;
+
+    if (failure.expressions.length === 0) {
+        failure.path = propertyPath(ctx.current, ctx.root, (p) => findParent(p, ctx)) ?? [];
+    }
+    failure.expressions.unshift(expressionLabel(expr));
+    return failure;
 };
 
 /**
  * Evaluate a Property expression and return its value.
  */
-export const evaluate = async (
+export const evaluate = (
     expr: Property,
     ctx: EvaluationContext
-): Promise<unknown> => {
-    const depth = (ctx.depth ?? 0) + 1;
+): Promise<unknown> =>
+    isObserved(ctx) ? evaluateObserved(expr, ctx) : run(expr, ctx);
 
-    if (depth > MAX_DEPTH) {
-        throw new Error('Maximum evaluation depth exceeded - possible circular reference');
-    }
+/**
+ * Evaluate an expression through its compiled node when the context
+ * carries a compiled expression (see compile), by interpreting it otherwise.
+ */
+const run = (
+    expr: Property,
+    ctx: EvaluationContext
+): Promise<unknown> =>
+    ctx.compiled ? ctx.compiled.node(expr).run(ctx) : evaluateNode(expr, ctx);
 
-    // Fast path for literals
-    if (isLit(expr)) {
-        return expr.value;
+/**
+ * Evaluate an expression, reporting it to the context's hooks and tracer.
+ */
+const evaluateObserved = async (
+    expr: Property,
+    ctx: EvaluationContext
+): Promise<unknown> => {
+    ctx.onEnter?.(expr, ctx);
+    const tracer = ctx.tracer?.enter(expr, ctx);
+    try {
+        const result = await run(expr, tracer ? { ...ctx, tracer } : ctx);
+        tracer?.exit(result);
+        ctx.onExit?.(expr, ctx, result);
+        return result;
+    } catch (error) {
+        tracer?.exit(undefined, error);
+        ctx.onExit?.(expr, ctx, undefined, error);
+        throw error;
     }
+};
 
-    // Create new context with incremented depth
-    const evalCtx: EvaluationContext = {
-        ...ctx,
-        depth,
-    };
+/**
+ * Context for the sub-expressions of `expr`. The outermost expression
+ * starts the reference stack, so a reference back to it is a cycle.
+ */
+const nextContext = (
+    expr: Property,
+    ctx: EvaluationContext,
+    depth: number,
+    budget: EvaluationBudget | undefined
+): EvaluationContext => {
+    const refStack = ctx.refStack ?? { expr, owner: ctx.current };
+    return budget ? { ...ctx, depth, budget, refStack } : { ...ctx, depth, refStack };
+};
 
-    // Reference: resolve the path
-    if (isRef(expr)) {
-        return resolveRef(expr.value as string[], evalCtx);
-    }
+/**
+ * Context for evaluating the expression a reference leads to.
+ */
+const refContext = (
+    target: { readonly expr: Property; readonly owner: Property },
+    ctx: EvaluationContext
+): EvaluationContext => ({
+    ...ctx,
+    current: target.owner,
+    refStack: enterRef(target.expr, target.owner, ctx.refStack, ctx),
+});
+
+/**
+ * Evaluate what a reference resolved to, through the context's cache.
+ */
+const evaluateTarget = async (
+    target: RefTarget,
+    ctx: EvaluationContext
+): Promise<unknown> => {
+    if (!target.expr) return target.value;
+
+    const cache = cacheFor(ctx);
+    if (!cache) return evaluate(target.expr, refContext(target, ctx));
+
+    const cached = cache.lookup(target.expr, target.owner);
+    if (cached.hit) return cached.value;
+    const generation = cache.generation;
+    const value = await evaluate(target.expr, refContext(target, ctx));
+    cache.store(target.expr, target.owner, value, generation);
+    return value;
+};
+
+/**
+ * Evaluate what a reference resolved to synchronously, through the context's cache.
+ */
+const evaluateTargetSync = (
+    target: RefTarget,
+    ctx: EvaluationContext
+): unknown => {
+    if (!target.expr) return target.value;
+
+    const cache = cacheFor(ctx);
+    if (!cache) return evaluateSync(target.expr, refContext(target, ctx));
+
+    const cached = cache.lookup(target.expr, target.owner);
+    if (cached.hit) return cached.value;
+    const value = evaluateSync(target.expr, refContext(target, ctx));
+    cache.store(target.expr, target.owner, value, cache.generation);
+    return value;
+};
+
+const evaluateNode = async (
+    expr: Property,
+    ctx: EvaluationContext
+): Promise<unknown> => {
+    try {
+        const depth = nextDepth(ctx);
+        ctx.signal?.throwIfAborted();
+        const budget = ctx.limits && spendStep(ctx);
+
+        // Fast path for literals
+        if (isLit(expr)) {
+            return expr.value;
+        }
 
-    // Operator: evaluate arguments and call operator
-    if (isOp(expr)) {
-        const opName = expr.id;
-        const opFn = ctx.registry.get(opName);
+        // Create new context with incremented depth
+        const evalCtx = nextContext(expr, ctx, depth, budget);
 
-        if (!opFn) {
-            throw new Error(`Unknown operator: ${opName}`);
+        // Reference: resolve the path
+        if (isRef(expr)) {
+            return await evaluateTarget(refWalkOf(expr)(evalCtx), evalCtx);
         }
 
-        // Get arguments in order
-        const args: Property[] = [];
-        if (expr.children) {
-            for (const key of getSortedArgKeys(expr)) {
-                const arg = expr.children[key];
-                if (arg) args.push(arg);
+        // Operator: evaluate arguments and call operator
+        if (isOp(expr)) {
+            const opName = expr.id;
+            const opFn = ctx.registry.get(opName);
+
+            if (!opFn) {
+                throw new UnknownOperatorError(opName);
             }
+
+            // Call operator
+            const pending = opFn(getArgs(expr), evalCtx);
+            const result = pending instanceof Promise ? await pending : pending;
+            if (budget) checkCollectionSize(result, evalCtx);
+            return result;
         }
 
-        // Call operator
-        const result = opFn(args, evalCtx);
-        return result instanceof Promise ? await result : result;
+        // Not an expression - return value or null
+        return expr.value ?? null;
+    } catch (error) {
+        throw annotate(error, expr, ctx);
     }
-
-    // Not an expression - return value or null
-    return expr.value ?? null;
 };
 
 /**
- * Resolve a reference path.
- *
- * Tracks 'owner' separately from 'current' during navigation:
- * - 'owner' is the property that OWNS the current location (for self references in expressions)
- * - 'current' is the actual property/value we're navigating through
- *
- * When we enter metadata/constraints, the owner becomes the property containing them.
- * When we enter children, the owner becomes the child property itself.
- * This ensures expressions in metadata have correct 'self' context.
+ * Evaluate a Property expression synchronously.
+ * Every operator reached must have a sync implementation (see Registry.register);
+ * otherwise a SyncEvaluationError is thrown and the caller should use evaluate().
  */
-const resolveRef = async (
-    path: string[],
+export const evaluateSync = (
+    expr: Property,
     ctx: EvaluationContext
-): Promise<unknown> => {
-    if (path.length === 0) return null;
-
-    let current: Property | undefined;
-    let owner: Property | undefined;  // The property that owns the current location
-    let i = 0;
-
-    // Handle starting point
-    const start = path[0]!;
-    switch (start) {
-        case 'self':
-            current = ctx.current;
-            owner = ctx.current;
-            i = 1;
-            break;
-
-        case 'root':
-            current = ctx.root;
-            owner = ctx.root;
-            i = 1;
-            break;
-
-        case 'parent':
-            current = ctx.findParent
-                ? ctx.findParent(ctx.current)
-                : findParent(ctx.current, ctx.root);
-            owner = current;
-            i = 1;
-            break;
-
-        default:
-            // Check bindings first
-            if (ctx.bindings && start in ctx.bindings) {
-                if (path.length === 1) {
-                    return ctx.bindings[start];
-                }
-                let val: unknown = ctx.bindings[start];
-                for (let j = 1; j < path.length; j++) {
-                    if (val && typeof val === 'object') {
-                        val = (val as Record<string, unknown>)[path[j]!];
-                    } else {
-                        return undefined;
-                    }
+): unknown =>
+    isObserved(ctx) ? evaluateSyncObserved(expr, ctx) : runSync(expr, ctx);
+
+const runSync = (
+    expr: Property,
+    ctx: EvaluationContext
+): unknown =>
+    ctx.compiled ? ctx.compiled.node(expr).runSync(ctx) : evaluateSyncNode(expr, ctx);
+
+const evaluateSyncObserved = (
+    expr: Property,
+    ctx: EvaluationContext
+): unknown => {
+    ctx.onEnter?.(expr, ctx);
+    const tracer = ctx.tracer?.enter(expr, ctx);
+    try {
+        const result = runSync(expr, tracer ? { ...ctx, tracer } : ctx);
+        tracer?.exit(result);
+        ctx.onExit?.(expr, ctx, result);
+        return result;
+    } catch (error) {
+        tracer?.exit(undefined, error);
+        ctx.onExit?.(expr, ctx, undefined, error);
+        throw error;
+    }
+};
+
+const evaluateSyncNode = (
+    expr: Property,
+    ctx: EvaluationContext
+): unknown => {
+    try {
+        const depth = nextDepth(ctx);
+        ctx.signal?.throwIfAborted();
+        const budget = ctx.limits && spendStep(ctx);
+
+        if (isLit(expr)) {
+            return expr.value;
+        }
+
+        const evalCtx = nextContext(expr, ctx, depth, budget);
+
+        if (isRef(expr)) {
+            return evaluateTargetSync(refWalkOf(expr)(evalCtx), evalCtx);
+        }
+
+        if (isOp(expr)) {
+            const opName = expr.id;
+            const opFn = ctx.registry.getSync(opName);
+
+            if (!opFn) {
+                if (!ctx.registry.has(opName)) {
+                    throw new UnknownOperatorError(opName);
                 }
-                return val;
+                throw new SyncEvaluationError(opName);
             }
-            current = ctx.current;
-            owner = ctx.current;
-            i = 0;
+
+            const result = opFn(getArgs(expr), evalCtx);
+            if (result instanceof Promise) {
+                throw new SyncEvaluationError(opName);
+            }
+            if (budget) checkCollectionSize(result, evalCtx);
+            return result;
+        }
+
+        return expr.value ?? null;
+    } catch (error) {
+        throw annotate(error, expr, ctx);
     }
+};
 
-    // Navigate the path
-    while (current && i < path.length) {
-        const segment = path[i]!;
-
-        switch (segment) {
-            case 'value':
-                if (current.value !== undefined) {
-                    // If current property is an expression, evaluate it with owner context
-                    if (isLit(current) || isRef(current) || isOp(current)) {
-                        return evaluate(current, { ...ctx, current: owner! });
-                    }
-                    if (isProperty(current.value)) {
-                        return evaluate(current.value as Property, { ...ctx, current: owner! });
-                    }
-                    return current.value;
-                }
-                return null;
-
-            case 'type':
-                current = current.type;
-                owner = current;
-                break;
-
-            case 'id':
-                return current.id;
-
-            case 'children':
-                i++;
-                if (i < path.length && current.children) {
-                    current = current.children[path[i]!];
-                    owner = current;  // Child becomes the new owner
-                } else {
-                    return undefined;
-                }
-                break;
-
-            case 'metadata':
-                i++;
-                if (i < path.length && current.metadata) {
-                    // Owner stays as current (the property containing metadata)
-                    owner = current;
-                    current = current.metadata[path[i]!];
-                } else {
-                    return undefined;
-                }
-                break;
-
-            case 'constraints':
-                i++;
-                if (i < path.length && current.constraints) {
-                    // Owner stays as current (the property containing constraints)
-                    owner = current;
-                    current = current.constraints[path[i]!];
-                } else {
-                    return undefined;
-                }
-                break;
-
-            case 'parent':
-                current = ctx.findParent
-                    ? ctx.findParent(current)
-                    : findParent(current, ctx.root);
-                owner = current;
-                break;
-
-            default:
-                // Try children first, then metadata
-                if (current.children?.[segment]) {
-                    current = current.children[segment];
-                    owner = current;  // Child becomes the new owner
-                } else if (current.metadata?.[segment]) {
-                    // Owner stays as current (the property containing metadata)
-                    owner = current;
-                    current = current.metadata[segment];
-                } else {
-                    return undefined;
-                }
+/**
+ * Check whether an expression tree only uses sync-capable operators.
+ * References are assumed sync-safe: if one resolves to an async expression,
+ * evaluateSync throws SyncEvaluationError at that point instead.
+ */
+export const isSyncSafe = (expr: Property, registry: Registry): boolean => {
+    if (!isOp(expr)) return true;
+    if (!registry.isSync(expr.id)) return false;
+    if (expr.children) {
+        for (const arg of Object.values(expr.children)) {
+            if (!isSyncSafe(arg, registry)) return false;
         }
-        i++;
     }
+    return true;
+};
 
-    if (current) {
-        // If the resolved property IS an expression, evaluate it with owner context
-        // This enables cross-referencing computed metadata with correct 'self' binding
-        if (isLit(current) || isRef(current) || isOp(current)) {
-            return evaluate(current, { ...ctx, current: owner! });
+/**
+ * Check whether an expression can be evaluated synchronously in a context,
+ * following its references to the expressions they lead to. Decided
+ * before anything is evaluated, so hooks and tracers never observe a sync
+ * attempt that is then discarded for evaluate().
+ *
+ * References that cannot be resolved up front (e.g. to loop bindings)
+ * count as async when the context is observed; otherwise they are tried,
+ * and evaluateSync may still throw SyncEvaluationError when one of them
+ * leads to an async expression.
+ */
+export const canEvaluateSync = (expr: Property, ctx: EvaluationContext): boolean => {
+    const probe: EvaluationContext = { ...ctx, onRead: undefined, strictRefs: false };
+    const unresolved = !isObserved(ctx);
+    const visited = new Set<Property>();
+
+    const check = (node: Property, current: Property): boolean => {
+        if (isOp(node)) {
+            if (!ctx.registry.isSync(node.id)) return false;
+            return getArgs(node).every(arg => check(arg, current));
         }
+        if (!isRef(node)) return true;
+
+        const target = refWalkOf(node)({ ...probe, current });
+        if (!target.expr) return target.value !== undefined || unresolved;
+        // A cycle fails the same way in both modes
+        if (visited.has(target.expr)) return true;
+        visited.add(target.expr);
+        return check(target.expr, target.owner);
+    };
 
-        if (current.value !== undefined) {
-            if (isProperty(current.value)) {
-                return evaluate(current.value as Property, { ...ctx, current: owner! });
-            }
-            return current.value;
+    return check(expr, ctx.current);
+};
+
+/**
+ * Result of walking a reference path: either a final value, or an
+ * expression that must still be evaluated with `owner` as self.
+ */
+export type RefTarget =
+    | { readonly expr?: undefined; readonly value: unknown }
+    | { readonly expr: Property; readonly owner: Property };
+
+/**
+ * A reference path compiled to a walk in an evaluation context.
+ * Never evaluates anything itself.
+ */
+export type RefWalk = (ctx: EvaluationContext) => RefTarget;
+
+const found = (value: unknown): RefTarget => ({ value });
+
+const isExpression = (property: Property): boolean =>
+    isLit(property) || isRef(property) || isOp(property);
+
+/**
+ * Resolve the location a walk ends at: an expression to evaluate with its
+ * owner as self, or a value.
+ */
+const targetOf = (current: Property, owner: Property, slot: string, ctx: EvaluationContext): RefTarget => {
+    ctx.onRead?.(owner, slot);
+
+    // If the resolved property IS an expression, evaluate it with owner context
+    // This enables cross-referencing computed metadata with correct 'self' binding
+    if (isExpression(current)) {
+        return { expr: current, owner };
+    }
+    if (current.value !== undefined) {
+        if (isProperty(current.value)) {
+            return { expr: current.value as Property, owner };
         }
-        return current;
+        return found(current.value);
     }
+    return found(current);
+};
+
+/**
+ * A segment that cannot be resolved yields undefined, or throws a
+ * RefResolutionError in strict mode unless the segment ends in '?'.
+ */
+const missingRef = (ref: RefPath, index: number, ctx: EvaluationContext): RefTarget => {
+    const strict = ctx.strictRefs ?? ctx.registry.strictRefs;
+    if (!strict || isOptional(ref, index)) return found(undefined);
+    throw new RefResolutionError(ref.segments, ref.names[index]!, ref.names.slice(0, index));
+};
+
+/**
+ * How references walk when evaluated.
+ */
+const EVALUATION_RULES: RefWalkRules<EvaluationContext, RefTarget> = {
+    self: ctx => ctx.current,
+    root: ctx => ctx.root,
+    parentOf: findParent,
+    isBound: (name, ctx) => ctx.bindings !== undefined && name in ctx.bindings,
+    bound: (ref, ctx, rest) => {
+        const { names } = ref;
+        const bound = ctx.bindings![names[0]!];
+        if (names.length === 1) {
+            return found(bound);
+        }
+        // Bound Properties (e.g. children being iterated) navigate like tree nodes
+        if (isProperty(bound)) {
+            return rest(bound, bound, 'value', ctx);
+        }
+        const strict = ctx.strictRefs ?? ctx.registry.strictRefs;
+        let val: unknown = bound;
+        for (let j = 1; j < names.length; j++) {
+            const key = names[j]!;
+            if (val && typeof val === 'object' && (!strict || key in val)) {
+                val = (val as Record<string, unknown>)[key];
+            } else {
+                return missingRef(ref, j, ctx);
+            }
+        }
+        return found(val);
+    },
+    value: (current, owner, slot, ctx) => {
+        if (current.value === undefined) {
+            ctx.onRead?.(owner, slot);
+            return found(null);
+        }
+        return targetOf(current, owner, slot, ctx);
+    },
+    end: targetOf,
+    id: current => found(current.id),
+    children: (current, ctx) => {
+        ctx.onRead?.(current, 'children');
+        return found(current.children ? Object.values(current.children) : []);
+    },
+    missing: missingRef,
+};
 
-    return undefined;
+// Cache for compiled reference walks
+const refWalkCache = new WeakMap<Property, RefWalk>();
+
+/**
+ * Get the walk of a reference expression, compiling it on first use.
+ */
+export const refWalkOf = (expr: Property): RefWalk => {
+    let walk = refWalkCache.get(expr);
+    if (!walk) {
+        const ref = refPathOf(expr);
+        walk = ref.names.length === 0 ? () => found(null) : compileRefWalk(ref, EVALUATION_RULES);
+        refWalkCache.set(expr, walk);
+    }
+    return walk;
 };
 
 /**
@@ -313,6 +618,30 @@ export const evalArgs = async (
     return results;
 };
 
+/**
+ * Evaluate a single argument synchronously.
+ */
+export const evalArgSync = (
+    arg: Property,
+    ctx: EvaluationContext
+): unknown => {
+    return evaluateSync(arg, ctx);
+};
+
+/**
+ * Evaluate multiple arguments synchronously.
+ */
+export const evalArgsSync = (
+    args: Property[],
+    ctx: EvaluationContext
+): unknown[] => {
+    const results: unknown[] = new Array(args.length);
+    for (let i = 0; i < args.length; i++) {
+        results[i] = evaluateSync(args[i]!, ctx);
+    }
+    return results;
+};
+
 /**
  * Evaluate multiple arguments in parallel.
  */
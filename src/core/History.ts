@@ -0,0 +1,313 @@
+/**
+ * ============================================================================
+ * HISTORY
+ * ============================================================================
+ * Undo/redo for PropertyNode trees.
+ * The tree reports every change made through its setters with the state
+ * before and after it; undo and redo write one side back through the same
+ * setters, so caches, validation and subscribers follow along.
+ */
+
+import { Property } from './property';
+import { PropertyError } from './errors';
+import type { PropertyNode, Subscription } from './PropertyNode';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A change to a node's value or default value.
+ */
+export interface ValueChange {
+    readonly kind: 'value' | 'defaultValue';
+    /** Path of the changed node from the root */
+    readonly path: string[];
+    readonly before: unknown;
+    readonly after: unknown;
+}
+
+/**
+ * A metadata entry, constraint or child set or removed
+ * (`before` undefined when it was added, `after` when it was removed).
+ */
+export interface EntryChange {
+    readonly kind: 'metadata' | 'constraints' | 'children';
+    /** Path of the changed node from the root */
+    readonly path: string[];
+    readonly key: string;
+    readonly before: Property | undefined;
+    readonly after: Property | undefined;
+}
+
+/**
+ * A change made through a PropertyNode setter.
+ */
+export type NodeChange = ValueChange | EntryChange;
+
+/**
+ * History options.
+ */
+export interface HistoryOptions {
+    /** Maximum number of undo entries kept; the oldest are dropped (default 100) */
+    readonly limit?: number;
+}
+
+/**
+ * Undo/redo availability, passed to history subscribers.
+ */
+export interface HistoryState {
+    readonly canUndo: boolean;
+    readonly canRedo: boolean;
+    /** Number of entries that can be undone */
+    readonly undoSize: number;
+    /** Number of entries that can be redone */
+    readonly redoSize: number;
+}
+
+/**
+ * History state callback type.
+ */
+export type HistoryCallback = (state: HistoryState) => void;
+
+const DEFAULT_LIMIT = 100;
+
+// ============================================================================
+// HISTORY CLASS
+// ============================================================================
+
+/**
+ * History - Undo/redo stack of a tree, created by root.enableHistory().
+ *
+ * Each entry holds the changes of one setter call, or of everything done
+ * inside one batch() or transaction(). A transaction that rolls back leaves
+ * no entry. Making a change clears the redo stack.
+ *
+ * Undoing a removeChild re-adds the removed Property: PropertyNode handles
+ * to the removed child stay destroyed, get the new one with child().
+ *
+ * @example
+ * const history = form.enableHistory({ limit: 50 });
+ * history.subscribe(({ canUndo, canRedo }) => toolbar.update(canUndo, canRedo));
+ * form.setValue('Ada', { path: 'name' });
+ * history.undo();
+ */
+export class History {
+    private readonly limit: number;
+    private readonly undoStack: NodeChange[][] = [];
+    private readonly redoStack: NodeChange[][] = [];
+    private group: NodeChange[] | null = null;
+    private readonly groupMarks: number[] = [];
+    private applying = false;
+    private listenerId = 0;
+    private readonly listeners = new Map<string, HistoryCallback>();
+
+    constructor(private readonly root: PropertyNode, options: HistoryOptions = {}) {
+        this.limit = Math.max(0, options.limit ?? DEFAULT_LIMIT);
+    }
+
+    // ========================================================================
+    // STATE
+    // ========================================================================
+
+    /**
+     * Check if there is an entry to undo.
+     */
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /**
+     * Check if there is an entry to redo.
+     */
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Get the current undo/redo state.
+     */
+    get state(): HistoryState {
+        return {
+            canUndo: this.canUndo,
+            canRedo: this.canRedo,
+            undoSize: this.undoStack.length,
+            redoSize: this.redoStack.length,
+        };
+    }
+
+    /**
+     * Subscribe to state changes (after every recorded entry, undo, redo and clear).
+     */
+    subscribe(callback: HistoryCallback): Subscription {
+        const id = `history_${++this.listenerId}`;
+        const listeners = this.listeners;
+        listeners.set(id, callback);
+
+        return {
+            id,
+            get isActive(): boolean {
+                return listeners.has(id);
+            },
+            unsubscribe(): void {
+                listeners.delete(id);
+            },
+        };
+    }
+
+    // ========================================================================
+    // UNDO / REDO
+    // ========================================================================
+
+    /**
+     * Revert the latest entry. Returns false if there was nothing to undo.
+     */
+    undo(): boolean {
+        const entry = this.undoStack.pop();
+        if (!entry) return false;
+
+        this.apply([...entry].reverse(), 'before');
+        this.redoStack.push(entry);
+        this.notify();
+        return true;
+    }
+
+    /**
+     * Reapply the latest undone entry. Returns false if there was nothing to redo.
+     */
+    redo(): boolean {
+        const entry = this.redoStack.pop();
+        if (!entry) return false;
+
+        this.apply(entry, 'after');
+        this.undoStack.push(entry);
+        this.notify();
+        return true;
+    }
+
+    /**
+     * Forget every entry.
+     */
+    clear(): void {
+        this.undoStack.length = 0;
+        this.redoStack.length = 0;
+        this.notify();
+    }
+
+    // ========================================================================
+    // RECORDING
+    // ========================================================================
+
+    /**
+     * Record a change (called by the tree's setters).
+     */
+    record(change: NodeChange): void {
+        if (this.applying) return;
+        if (this.group) {
+            this.group.push(change);
+        } else {
+            this.push([change]);
+        }
+    }
+
+    /**
+     * Start grouping changes into one entry (called by batch and transaction).
+     * Groups nest; the outermost one becomes the entry.
+     */
+    begin(): void {
+        this.group ??= [];
+        this.groupMarks.push(this.group.length);
+    }
+
+    /**
+     * End the innermost group. With `discard`, the changes recorded since
+     * its begin() are dropped (a transaction rolled back).
+     */
+    end(discard = false): void {
+        const mark = this.groupMarks.pop();
+        if (mark === undefined || !this.group) return;
+        if (discard) {
+            this.group.length = mark;
+        }
+        if (this.groupMarks.length === 0) {
+            const group = this.group;
+            this.group = null;
+            if (group.length > 0) this.push(group);
+        }
+    }
+
+    // ========================================================================
+    // INTERNALS
+    // ========================================================================
+
+    private push(entry: NodeChange[]): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.splice(0, this.undoStack.length - this.limit);
+        }
+        this.redoStack.length = 0;
+        this.notify();
+    }
+
+    private apply(changes: NodeChange[], side: 'before' | 'after'): void {
+        this.applying = true;
+        try {
+            this.root.batch(() => {
+                for (const change of changes) {
+                    applyChange(this.root, change, side);
+                }
+            });
+        } finally {
+            this.applying = false;
+        }
+    }
+
+    private notify(): void {
+        const state = this.state;
+        for (const callback of this.listeners.values()) {
+            callback(state);
+        }
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Write one side of a change back through the node's setters
+ * ('before' reverts it, 'after' reapplies it).
+ */
+export const applyChange = (root: PropertyNode, change: NodeChange, side: 'before' | 'after'): void => {
+    const node = root.get(change.path);
+    if (!node) {
+        throw new PropertyError(`Cannot apply change: no node at '${change.path.join('.')}'`, change.path);
+    }
+
+    switch (change.kind) {
+        case 'value':
+            node.setValue(change[side]);
+            return;
+        case 'defaultValue':
+            node.setDefaultValue(change[side]);
+            return;
+        case 'metadata': {
+            const property = change[side];
+            if (property) node.setMetadata(change.key, property);
+            else node.removeMetadata(change.key);
+            return;
+        }
+        case 'constraints': {
+            const property = change[side];
+            if (property) node.setConstraint(change.key, property);
+            else node.removeConstraint(change.key);
+            return;
+        }
+        case 'children': {
+            const property = change[side];
+            if (property) node.addChild(change.key, property);
+            else node.removeChild(change.key);
+            return;
+        }
+    }
+};
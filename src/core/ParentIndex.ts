@@ -0,0 +1,167 @@
+/**
+ * ============================================================================
+ * PARENT INDEX
+ * ============================================================================
+ * Property-to-parent index for resolving `parent` reference segments
+ * without scanning the tree.
+ */
+
+import { Property } from './property';
+
+/**
+ * Collections a Property can be held in.
+ */
+export type ParentSlot = 'children' | 'metadata' | 'constraints';
+
+interface ParentEntry {
+    readonly parent: Property;
+    readonly slot: ParentSlot;
+    readonly key: string;
+}
+
+const SLOTS: readonly ParentSlot[] = ['children', 'metadata', 'constraints'];
+
+/**
+ * ParentIndex - Maps every Property under a root to the Property holding it.
+ *
+ * Built lazily on the first lookup. PropertyNode keeps it current on
+ * addChild/removeChild/setMetadata/setConstraint; each hit is checked
+ * against the parent's collection, so Properties moved by direct
+ * mutation are re-indexed instead of returning a stale parent. A miss
+ * (e.g. an operator argument, or a Property outside the tree) is not:
+ * after adding Properties by direct mutation, call invalidate().
+ */
+export class ParentIndex {
+    private entries = new WeakMap<Property, ParentEntry>();
+    private stale = true;
+
+    constructor(private readonly root: Property) {}
+
+    /**
+     * Get the parent of a Property (undefined for the root or unknown Properties).
+     */
+    get(target: Property): Property | undefined {
+        if (target === this.root) return undefined;
+        if (this.stale) this.rebuild();
+
+        const entry = this.entries.get(target);
+        if (!entry) return undefined;
+        if (this.isCurrent(target, entry)) return entry.parent;
+
+        // Moved - the tree was mutated directly
+        this.rebuild();
+        return this.entries.get(target)?.parent;
+    }
+
+    /**
+     * Mark the index stale after mutating the tree directly;
+     * the next lookup re-indexes the whole tree.
+     */
+    invalidate(): void {
+        this.stale = true;
+    }
+
+    /**
+     * Record a Property (and its subtree) added to a parent's collection.
+     */
+    attach(parent: Property, slot: ParentSlot, key: string, child: Property): void {
+        if (this.stale) return;
+        this.entries.set(child, { parent, slot, key });
+        this.index(child);
+    }
+
+    /**
+     * Forget a Property (and its subtree) removed from the tree.
+     */
+    detach(child: Property): void {
+        if (this.stale) return;
+        this.entries.delete(child);
+        for (const slot of SLOTS) {
+            const collection = child[slot];
+            if (!collection) continue;
+            for (const item of Object.values(collection)) {
+                this.detach(item);
+            }
+        }
+    }
+
+    /**
+     * Re-index the whole tree.
+     */
+    rebuild(): void {
+        this.entries = new WeakMap();
+        this.stale = false;
+        this.index(this.root);
+    }
+
+    /**
+     * Index the subtree under a Property.
+     * The first holder found wins, matching a depth-first scan.
+     */
+    private index(parent: Property): void {
+        for (const slot of SLOTS) {
+            const collection = parent[slot];
+            if (!collection) continue;
+            for (const [key, child] of Object.entries(collection)) {
+                if (this.entries.has(child) || child === this.root) continue;
+                this.entries.set(child, { parent, slot, key });
+                this.index(child);
+            }
+        }
+    }
+
+    /**
+     * Check that an entry still describes where the Property is held.
+     */
+    private isCurrent(target: Property, entry: ParentEntry): boolean {
+        return entry.parent[entry.slot]?.[entry.key] === target;
+    }
+}
+
+// ============================================================================
+// SHARED INDEXES
+// ============================================================================
+
+const indexes = new WeakMap<Property, ParentIndex>();
+
+/**
+ * Get the shared parent index of a tree root.
+ */
+export const parentIndexFor = (root: Property): ParentIndex => {
+    let index = indexes.get(root);
+    if (!index) {
+        index = new ParentIndex(root);
+        indexes.set(root, index);
+    }
+    return index;
+};
+
+/**
+ * Find the path of a Property from the tree root, with `metadata` and
+ * `constraints` segments for entries (undefined if it is not in the tree).
+ */
+export const propertyPath = (
+    target: Property,
+    root: Property,
+    parentOf: (target: Property) => Property | undefined = (p) => parentIndexFor(root).get(p)
+): string[] | undefined => {
+    const path: string[] = [];
+    let current = target;
+
+    while (current !== root) {
+        const parent = parentOf(current);
+        if (!parent) return undefined;
+
+        const child = Object.entries(parent.children ?? {}).find(([, p]) => p === current);
+        if (child) {
+            path.unshift(child[0]);
+        } else {
+            const meta = Object.entries(parent.metadata ?? {}).find(([, p]) => p === current);
+            const constraint = Object.entries(parent.constraints ?? {}).find(([, p]) => p === current);
+            if (meta) path.unshift('metadata', meta[0]);
+            else if (constraint) path.unshift('constraints', constraint[0]);
+        }
+        current = parent;
+    }
+    return path;
+};
@@ -0,0 +1,261 @@
+/**
+ * ============================================================================
+ * PROFILER
+ * ============================================================================
+ * Where does evaluation time go? Aggregates calls, total and self time per
+ * operator name and per reference path.
+ *
+ *   const profiler = new Profiler();
+ *   root.setEvaluationHooks({ tracer: profiler.tracer() });
+ *   await root.snapshot();
+ *
+ *   profiler.toJSON().operators['filter']   // { calls, totalTime, selfTime }
+ *   writeFileSync('eval.folded', profiler.toFoldedStacks());
+ */
+
+import { Property } from './property';
+import { EvaluationContext, EvaluationTracer } from './Registry';
+import { SyncEvaluationError } from './Evaluator';
+import { isRef, isOp } from './guards';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Aggregated timings of one operator or reference path.
+ * Times are in milliseconds; recursive calls each count their full total time.
+ */
+export interface ProfileEntry {
+    readonly calls: number;
+    /** Time spent in the expression, including its sub-expressions */
+    readonly totalTime: number;
+    /** Time spent in the expression itself */
+    readonly selfTime: number;
+}
+
+/**
+ * Aggregated timings of one reference path.
+ */
+export interface RefProfileEntry extends ProfileEntry {
+    /**
+     * Times a computed target was evaluated again for the same owner
+     * (work an evaluation cache would have saved)
+     */
+    readonly reevaluations: number;
+}
+
+/**
+ * JSON-safe profile, keyed by operator name and reference path.
+ */
+export interface ProfileJSON {
+    readonly operators: Record<string, ProfileEntry>;
+    readonly refs: Record<string, RefProfileEntry>;
+    /** Re-evaluations across all references */
+    readonly reevaluations: number;
+}
+
+export interface ProfilerOptions {
+    /** Clock in milliseconds (default: performance.now) */
+    readonly now?: () => number;
+}
+
+interface Entry {
+    calls: number;
+    totalTime: number;
+    selfTime: number;
+    reevaluations: number;
+}
+
+/**
+ * Evaluation of one operator or reference.
+ */
+interface Frame {
+    readonly kind: 'op' | 'ref';
+    readonly entry: Entry;
+    readonly stack: string;
+    readonly parent?: Frame;
+    /** Set when the frame is the target of its parent reference */
+    readonly target?: { readonly expr: Property; readonly owner: Property };
+    readonly start: number;
+    childTime: number;
+    elapsed: number;
+    /** Finished frames of this evaluation, recorded once the top-level one finishes */
+    readonly done: Frame[];
+}
+
+/**
+ * Tracer for expressions that are not profiled (literals and plain values).
+ * Their time counts as self time of the enclosing frame.
+ */
+const UNPROFILED: EvaluationTracer = {
+    enter: () => UNPROFILED,
+    exit: () => undefined,
+};
+
+/**
+ * Make a label safe for the folded stack format (';' separates frames,
+ * whitespace separates the count).
+ */
+const frameName = (label: string): string => label.replace(/[;\s]/g, '_');
+
+// ============================================================================
+// PROFILER
+// ============================================================================
+
+/**
+ * Profiler - Aggregates evaluation timings reported through its tracer.
+ *
+ * A synchronous attempt abandoned for async evaluation (see
+ * SyncEvaluationError) is discarded, so the retry is not counted twice.
+ */
+export class Profiler {
+    private readonly now: () => number;
+    private operators = new Map<string, Entry>();
+    private refs = new Map<string, Entry>();
+    private stacks = new Map<string, number>();
+    private evaluated = new WeakMap<Property, WeakSet<Property>>();
+    private reevaluations = 0;
+
+    constructor(options: ProfilerOptions = {}) {
+        this.now = options.now ?? (() => performance.now());
+    }
+
+    /**
+     * Tracer to install on an evaluation context or tree
+     * (see PropertyNode.setEvaluationHooks).
+     */
+    tracer(): EvaluationTracer {
+        return this.tracerFor(undefined);
+    }
+
+    /**
+     * Drop everything recorded so far.
+     */
+    reset(): void {
+        this.operators = new Map();
+        this.refs = new Map();
+        this.stacks = new Map();
+        this.evaluated = new WeakMap();
+        this.reevaluations = 0;
+    }
+
+    /**
+     * Export the aggregated timings.
+     */
+    toJSON(): ProfileJSON {
+        const operators: Record<string, ProfileEntry> = {};
+        for (const [name, { calls, totalTime, selfTime }] of this.operators) {
+            if (calls > 0) operators[name] = { calls, totalTime, selfTime };
+        }
+        const refs: Record<string, RefProfileEntry> = {};
+        for (const [path, entry] of this.refs) {
+            if (entry.calls > 0) refs[path] = { ...entry };
+        }
+        return { operators, refs, reevaluations: this.reevaluations };
+    }
+
+    /**
+     * Export self times as folded stacks for flamegraph tools
+     * (one `op:and;ref:parent.age.value;op:add 1250` line per stack, in microseconds).
+     */
+    toFoldedStacks(): string {
+        const lines: string[] = [];
+        for (const [stack, time] of this.stacks) {
+            const micros = Math.round(time * 1000);
+            if (micros > 0) lines.push(`${stack} ${micros}`);
+        }
+        return lines.join('\n');
+    }
+
+    // ========================================================================
+    // TRACING
+    // ========================================================================
+
+    private tracerFor(frame: Frame | undefined): EvaluationTracer {
+        return {
+            enter: (expr, ctx) => {
+                const child = this.open(expr, ctx, frame);
+                return child ? this.tracerFor(child) : UNPROFILED;
+            },
+            exit: (_result, error) => {
+                if (frame) this.close(frame, error);
+            },
+        };
+    }
+
+    private open(expr: Property, ctx: EvaluationContext, parent: Frame | undefined): Frame | undefined {
+        let kind: Frame['kind'];
+        let key: string;
+        if (isOp(expr)) {
+            kind = 'op';
+            key = expr.id;
+        } else if (isRef(expr)) {
+            kind = 'ref';
+            key = (expr.value as string[]).join('.');
+        } else {
+            return undefined;
+        }
+
+        const name = frameName(`${kind}:${key}`);
+        return {
+            kind,
+            entry: this.entryFor(kind === 'op' ? this.operators : this.refs, key),
+            stack: parent ? `${parent.stack};${name}` : name,
+            parent,
+            // The only expression a reference evaluates is its computed target
+            target: parent?.kind === 'ref' ? { expr, owner: ctx.current } : undefined,
+            start: this.now(),
+            childTime: 0,
+            elapsed: 0,
+            done: [],
+        };
+    }
+
+    private close(frame: Frame, error: unknown): void {
+        // Abandoned synchronous attempt: the async retry reports again
+        if (error instanceof SyncEvaluationError) return;
+
+        frame.elapsed = this.now() - frame.start;
+        const { parent } = frame;
+        if (parent) {
+            parent.childTime += frame.elapsed;
+            for (const done of frame.done) parent.done.push(done);
+            parent.done.push(frame);
+        } else {
+            for (const done of frame.done) this.record(done);
+            this.record(frame);
+        }
+    }
+
+    private record(frame: Frame): void {
+        const self = Math.max(0, frame.elapsed - frame.childTime);
+        frame.entry.calls++;
+        frame.entry.totalTime += frame.elapsed;
+        frame.entry.selfTime += self;
+        this.stacks.set(frame.stack, (this.stacks.get(frame.stack) ?? 0) + self);
+
+        if (frame.target) {
+            const { expr, owner } = frame.target;
+            let owners = this.evaluated.get(expr);
+            if (!owners) {
+                owners = new WeakSet();
+                this.evaluated.set(expr, owners);
+            }
+            if (owners.has(owner)) {
+                frame.parent!.entry.reevaluations++;
+                this.reevaluations++;
+            }
+            owners.add(owner);
+        }
+    }
+
+    private entryFor(entries: Map<string, Entry>, key: string): Entry {
+        let entry = entries.get(key);
+        if (!entry) {
+            entry = { calls: 0, totalTime: 0, selfTime: 0, reevaluations: 0 };
+            entries.set(key, entry);
+        }
+        return entry;
+    }
+}
@@ -7,9 +7,28 @@
  */
 
 import { Property } from './property';
-import { Registry, EvaluationContext } from './Registry';
-import { evaluate } from './Evaluator';
-import { isExpr, isProperty } from './guards';
+import { Registry, EvaluationContext, EvaluationHooks, EvaluationLimits } from './Registry';
+import { evaluate, evaluateSync, canEvaluateSync, SyncEvaluationError } from './Evaluator';
+import { isExpr, isLit, isProperty } from './guards';
+import { EvaluationCache, CacheStats } from './EvaluationCache';
+import { parentIndexFor, ParentSlot } from './ParentIndex';
+import { effectiveEntries, inheritedEntry, isTypeCheck, matchesType } from './schema';
+import { explain, ExplainNode } from './explain';
+import { PropertyError, RegistryMissingError, DestroyedNodeError } from './errors';
+import { History, HistoryOptions, NodeChange, ValueChange, EntryChange, applyChange } from './History';
+import { contentHash, propertyEquals, findSharedSubtrees, SharedSubtrees } from './intern';
+import {
+    ValidationIssue,
+    ValidationResult,
+    DeepValidationResult,
+    ValidationState,
+    ValidationStateCallback,
+    ValidateOptions,
+    toSeverity,
+    interpolate,
+    hasErrors,
+    toTargetPaths,
+} from './validation';
 
 // ============================================================================
 // TYPES
@@ -56,8 +75,86 @@ export interface SerializedProperty {
     metadata?: Record<string, SerializedProperty>;
     constraints?: Record<string, SerializedProperty>;
     children?: Record<string, SerializedProperty>;
+    /** Stands for the shared definition with this content hash (toJSON({ shared: true })) */
+    $ref?: string;
+    /** Shared definitions by content hash (on the root only) */
+    $defs?: Record<string, SerializedProperty>;
 }
 
+/**
+ * Options for toJSON().
+ */
+export interface SerializeOptions {
+    /**
+     * Emit subtrees that occur more than once (e.g. the same constraint on
+     * many fields) once, in `$defs`, and refer to them with `$ref`.
+     * Tree nodes (children) are always written in place.
+     */
+    readonly shared?: boolean;
+}
+
+/**
+ * Shared subtrees being written by toJSON({ shared: true }).
+ */
+interface SharedWriter {
+    readonly subtrees: SharedSubtrees;
+    readonly defs: Record<string, SerializedProperty>;
+}
+
+/**
+ * Shared definitions being read by fromJSON(), each deserialized once.
+ */
+interface SharedReader {
+    readonly defs: Record<string, SerializedProperty>;
+    readonly resolved: Map<string, Property>;
+}
+
+/**
+ * The transaction open on a tree; nested transactions share it.
+ */
+interface OpenTransaction {
+    /** Changes made since the outermost transaction began */
+    readonly log: NodeChange[];
+    /** Number of transactions open */
+    depth: number;
+    /** Notifications held back until the outermost transaction commits */
+    readonly notifications: Map<PropertyNode, string[]>;
+}
+
+/**
+ * Where a (nested) transaction began: the log length and the number of
+ * held notifications per node, restored when it rolls back.
+ */
+interface Savepoint {
+    readonly log: number;
+    readonly notifications: Map<PropertyNode, number>;
+}
+
+/**
+ * A validate() run (the node keeps its latest run).
+ */
+interface ValidationRun {
+    readonly controller: AbortController;
+    readonly options: ValidateOptions;
+    readonly promise: Promise<ValidationResult>;
+}
+
+/**
+ * Wait for a delay, rejecting with the signal's reason if it aborts first.
+ */
+const delay = (ms: number, signal: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+
 // ============================================================================
 // PROPERTY NODE CLASS
 // ============================================================================
@@ -76,8 +173,17 @@ export class PropertyNode {
         callback: ChangeCallback;
         filter?: PathFilter;
     }>();
-    private destroyed = false;
+    /** Path the node had when destroyed (null while alive) */
+    private destroyedPath: string[] | null = null;
     private batchedChanges: string[] | null = null;
+    private evaluationCache: EvaluationCache | null = null;
+    private evaluationHooks: EvaluationHooks | null = null;
+    private evaluationLimits: EvaluationLimits | null = null;
+    private history: History | null = null;
+    private openTransaction: OpenTransaction | null = null;
+    private validationStatus: ValidationState = 'idle';
+    private validationRun: ValidationRun | null = null;
+    private readonly validationListeners = new Map<string, ValidationStateCallback>();
 
     constructor(property: Property) {
         this.property = property;
@@ -109,7 +215,8 @@ export class PropertyNode {
      * Create a PropertyNode from serialized JSON.
      */
     static fromJSON(json: SerializedProperty, typeResolver?: (typeId: string) => Property): PropertyNode {
-        const property = PropertyNode.deserializeProperty(json, typeResolver);
+        const shared = json.$defs ? { defs: json.$defs, resolved: new Map<string, Property>() } : undefined;
+        const property = PropertyNode.deserializeProperty(json, typeResolver, shared);
         return new PropertyNode(property);
     }
 
@@ -120,6 +227,14 @@ export class PropertyNode {
         return PropertyNode.deepCloneProperty(property);
     }
 
+    /**
+     * Serialize a value that may hold Properties (static utility), as
+     * toJSON() writes a value, default value, entry or record of entries.
+     */
+    static toJSONValue(value: unknown): unknown {
+        return PropertyNode.serializeValue(value);
+    }
+
     // ========================================================================
     // REGISTRY
     // ========================================================================
@@ -129,6 +244,7 @@ export class PropertyNode {
      */
     setRegistry(registry: Registry): this {
         this.registry = registry;
+        this.invalidateCache();
         return this;
     }
 
@@ -383,18 +499,23 @@ export class PropertyNode {
 
         const path = options?.path;
         const silent = options?.silent ?? false;
+        this.invalidateCache();
 
         if (path) {
             const node = this.get(path);
             if (node) {
+                node.record({ kind: 'value', before: node.property.value, after: value });
                 (node.property as { value: unknown }).value = value;
+                node.restartValidation();
                 if (!silent) {
                     const targetPath = typeof path === 'string' ? path : path.join('.');
                     this.emitChange(targetPath);
                 }
             }
         } else {
+            this.record({ kind: 'value', before: this.property.value, after: value });
             (this.property as { value: unknown }).value = value;
+            this.restartValidation();
             if (!silent) {
                 // Emit empty path - we're changing this node's value
                 // Parent propagation will build the full path
@@ -412,22 +533,29 @@ export class PropertyNode {
         const node = path ? this.get(path) : this;
         if (!node) return undefined;
 
+        return this.evaluateValue(node);
+    }
+
+    /**
+     * Evaluate the value of a node, passing a run's signal to its operators.
+     */
+    private async evaluateValue(node: PropertyNode, signal?: AbortSignal): Promise<unknown> {
         const registry = this.getRegistry();
         if (!registry) {
-            throw new Error('No registry set. Call setRegistry() first.');
+            throw new RegistryMissingError(this.path());
         }
 
         const prop = node.property;
-        const ctx = this.createContext(node);
+        const ctx = this.createContext(node, signal);
 
         // If the property itself is an expression, evaluate it
         if (isExpr(prop)) {
-            return evaluate(prop, ctx);
+            return this.evaluateExpr(prop, ctx);
         }
 
         // If the value is a Property expression, evaluate it
         if (prop.value !== undefined && isProperty(prop.value) && isExpr(prop.value)) {
-            return evaluate(prop.value, ctx);
+            return this.evaluateExpr(prop.value, ctx);
         }
 
         return prop.value;
@@ -440,6 +568,21 @@ export class PropertyNode {
         return this.property.defaultValue;
     }
 
+    /**
+     * Set the default value and optionally notify subscribers.
+     */
+    setDefaultValue(value: unknown, options?: { silent?: boolean }): void {
+        this.checkDestroyed();
+
+        this.record({ kind: 'defaultValue', before: this.property.defaultValue, after: value });
+        (this.property as { defaultValue: unknown }).defaultValue = value;
+        this.invalidateCache();
+
+        if (!options?.silent) {
+            this.emitChange('');
+        }
+    }
+
     /**
      * Check if has default value.
      */
@@ -523,21 +666,22 @@ export class PropertyNode {
 
     /**
      * Get evaluated metadata value.
+     * Falls back to metadata inherited from the property's type chain.
      */
     async getMetadata(key: string): Promise<unknown> {
         this.checkDestroyed();
 
-        const meta = this.property.metadata?.[key];
+        const meta = inheritedEntry(this.property, 'metadata', key);
         if (!meta) return undefined;
 
         const registry = this.getRegistry();
         if (!registry) {
-            throw new Error('No registry set. Call setRegistry() first.');
+            throw new RegistryMissingError(this.path());
         }
 
         if (isExpr(meta)) {
             const ctx = this.createContext(this);
-            return evaluate(meta, ctx);
+            return this.evaluateExpr(meta, ctx);
         }
 
         return meta.value;
@@ -552,7 +696,11 @@ export class PropertyNode {
         if (!this.property.metadata) {
             (this.property as { metadata: Record<string, Property> }).metadata = {};
         }
+        const previous = this.property.metadata![key];
+        this.record({ kind: 'metadata', key, before: previous, after: value });
         this.property.metadata![key] = value;
+        this.reindex('metadata', key, previous, value);
+        this.invalidateCache();
 
         if (!options?.silent) {
             this.emitChange(`metadata.${key}`);
@@ -565,7 +713,10 @@ export class PropertyNode {
     removeMetadata(key: string, options?: { silent?: boolean }): boolean {
         this.checkDestroyed();
         if (this.property.metadata?.[key]) {
+            this.record({ kind: 'metadata', key, before: this.property.metadata[key], after: undefined });
+            this.reindex('metadata', key, this.property.metadata[key]);
             delete this.property.metadata[key];
+            this.invalidateCache();
             if (!options?.silent) {
                 this.emitChange(`metadata.${key}`);
             }
@@ -604,7 +755,7 @@ export class PropertyNode {
     }
 
     /**
-     * Evaluate a constraint.
+     * Evaluate a constraint (own or inherited from the type chain).
      * Returns true if constraint passes, false if it fails.
      *
      * Handles:
@@ -614,8 +765,14 @@ export class PropertyNode {
      */
     async getConstraint(key: string): Promise<boolean> {
         this.checkDestroyed();
+        return this.evaluateConstraint(key);
+    }
 
-        const constraint = this.property.constraints?.[key];
+    /**
+     * Evaluate a constraint, passing the run's signal to its operators.
+     */
+    private async evaluateConstraint(key: string, signal?: AbortSignal): Promise<boolean> {
+        const constraint = inheritedEntry(this.property, 'constraints', key);
         if (!constraint) return true;
 
         // No value defined - constraint passes
@@ -628,14 +785,23 @@ export class PropertyNode {
             return constraint.value;
         }
 
+        // Built-in type check - needs no operator, so it runs with any registry (or none)
+        if (isTypeCheck(constraint)) {
+            const value = this.property.value;
+            const actual = isProperty(value) && isExpr(value)
+                ? await this.evaluateExpr(value, this.createContext(this, signal))
+                : value;
+            return matchesType(actual, this.property.type);
+        }
+
         // Expression in value field - evaluate it (requires registry)
         if (isExpr(constraint.value as Property)) {
             const registry = this.getRegistry();
             if (!registry) {
-                throw new Error('No registry set. Call setRegistry() first.');
+                throw new RegistryMissingError(this.path());
             }
-            const ctx = this.createContext(this);
-            const result = await evaluate(constraint.value as Property, ctx);
+            const ctx = this.createContext(this, signal);
+            const result = await this.evaluateExpr(constraint.value as Property, ctx);
             return Boolean(result);
         }
 
@@ -643,6 +809,24 @@ export class PropertyNode {
         return Boolean(constraint.value);
     }
 
+    /**
+     * Trace the evaluation of a constraint, to see which sub-expression made it fail.
+     * Returns undefined if the constraint is missing or its value is not an expression.
+     *
+     * @example
+     * const trace = await node.explainConstraint('adult');
+     * console.log(formatExplanation(trace!));
+     */
+    async explainConstraint(key: string): Promise<ExplainNode | undefined> {
+        this.checkDestroyed();
+
+        const constraint = inheritedEntry(this.property, 'constraints', key);
+        const expr = constraint?.value;
+        if (!isProperty(expr) || !isExpr(expr)) return undefined;
+
+        return explain(expr, this.createContext(this));
+    }
+
     /**
      * Set constraint.
      */
@@ -652,7 +836,11 @@ export class PropertyNode {
         if (!this.property.constraints) {
             (this.property as { constraints: Record<string, Property> }).constraints = {};
         }
+        const previous = this.property.constraints![key];
+        this.record({ kind: 'constraints', key, before: previous, after: value });
         this.property.constraints![key] = value;
+        this.reindex('constraints', key, previous, value);
+        this.invalidateCache();
 
         if (!options?.silent) {
             this.emitChange(`constraints.${key}`);
@@ -665,7 +853,10 @@ export class PropertyNode {
     removeConstraint(key: string, options?: { silent?: boolean }): boolean {
         this.checkDestroyed();
         if (this.property.constraints?.[key]) {
+            this.record({ kind: 'constraints', key, before: this.property.constraints[key], after: undefined });
+            this.reindex('constraints', key, this.property.constraints[key]);
             delete this.property.constraints[key];
+            this.invalidateCache();
             if (!options?.silent) {
                 this.emitChange(`constraints.${key}`);
             }
@@ -676,65 +867,311 @@ export class PropertyNode {
 
     /**
      * Validate all constraints.
+     * Warnings and infos are reported as issues but keep the node valid.
+     *
+     * Runs are latest-wins: starting a run (or setting this node's value while
+     * one is pending) aborts the previous run through the context's signal, and
+     * every superseded call resolves with the newest run's result.
      */
-    async validate(): Promise<{ valid: boolean; errors: Record<string, string> }> {
+    async validate(options: ValidateOptions = {}): Promise<ValidationResult> {
         this.checkDestroyed();
+        return this.settleValidation(this.startValidation(options));
+    }
 
-        const errors: Record<string, string> = {};
+    /**
+     * Get the validation state of the latest run.
+     */
+    get validationState(): ValidationState {
+        return this.validationStatus;
+    }
 
-        if (this.property.constraints) {
-            for (const [key, constraint] of Object.entries(this.property.constraints)) {
-                const isValid = await this.getConstraint(key);
-                if (!isValid) {
-                    const message = constraint.metadata?.message;
-                    errors[key] = message?.value as string ?? `Constraint ${key} failed`;
+    /**
+     * Subscribe to validation state changes of this node.
+     */
+    subscribeValidation(callback: ValidationStateCallback): Subscription {
+        this.checkDestroyed();
+
+        const id = `validation_${++this.subscriptionId}`;
+        const listeners = this.validationListeners;
+        listeners.set(id, callback);
+
+        return {
+            id,
+            get isActive(): boolean {
+                return listeners.has(id);
+            },
+            unsubscribe(): void {
+                listeners.delete(id);
+            },
+        };
+    }
+
+    /**
+     * Start a run, aborting the one in flight.
+     */
+    private startValidation(options: ValidateOptions): ValidationRun {
+        this.validationRun?.controller.abort();
+
+        const controller = new AbortController();
+        const external = options.signal;
+        const onAbort = () => controller.abort(external!.reason);
+        if (external?.aborted) {
+            controller.abort(external.reason);
+        } else {
+            external?.addEventListener('abort', onAbort, { once: true });
+        }
+
+        const promise = this.runValidation(controller.signal, options.debounce ?? 0).then(
+            result => {
+                external?.removeEventListener('abort', onAbort);
+                if (this.validationRun === run) {
+                    this.setValidationState(result.valid ? 'valid' : 'invalid', result);
+                }
+                return result;
+            },
+            error => {
+                external?.removeEventListener('abort', onAbort);
+                if (this.validationRun === run) {
+                    this.setValidationState('idle');
                 }
+                throw error;
+            }
+        );
+
+        // Superseded runs reject with their abort reason; callers settle on the newest run
+        promise.catch(() => undefined);
+
+        const run: ValidationRun = { controller, options, promise };
+        this.validationRun = run;
+        this.setValidationState('pending');
+        return run;
+    }
+
+    /**
+     * Wait for a run; if it was superseded, wait for the newest run instead.
+     */
+    private async settleValidation(run: ValidationRun): Promise<ValidationResult> {
+        try {
+            const result = await run.promise;
+            if (this.validationRun === run) return result;
+        } catch (error) {
+            if (this.validationRun === run) throw error;
+        }
+        return this.settleValidation(this.validationRun!);
+    }
+
+    /**
+     * Restart a pending run after the value changed.
+     */
+    private restartValidation(): void {
+        if (this.validationStatus === 'pending' && this.validationRun) {
+            this.startValidation(this.validationRun.options);
+        }
+    }
+
+    /**
+     * Evaluate all constraints for a run.
+     */
+    private async runValidation(signal: AbortSignal, debounce: number): Promise<ValidationResult> {
+        if (debounce > 0) {
+            await delay(debounce, signal);
+        }
+        signal.throwIfAborted();
+
+        const issues: ValidationIssue[] = [];
+
+        // Own constraints plus those inherited from the type chain
+        const constraints = effectiveEntries(this.property, 'constraints');
+        for (const [key, constraint] of Object.entries(constraints)) {
+            const isValid = await this.evaluateConstraint(key, signal);
+            signal.throwIfAborted();
+            if (!isValid) {
+                issues.push(...await this.createIssues(key, constraint, signal));
+            }
+        }
+
+        const errors: Record<string, string> = {};
+        for (const issue of issues) {
+            if (issue.severity === 'error') {
+                errors[issue.constraint] = issue.message;
             }
         }
 
         return {
-            valid: Object.keys(errors).length === 0,
+            valid: !hasErrors(issues),
             errors,
+            issues,
         };
     }
 
+    /**
+     * Update the validation state and notify listeners.
+     */
+    private setValidationState(state: ValidationState, result?: ValidationResult): void {
+        this.validationStatus = state;
+        for (const callback of this.validationListeners.values()) {
+            callback(state, result);
+        }
+    }
+
     /**
      * Validate this node and all descendants.
      */
-    async validateDeep(): Promise<{
-        valid: boolean;
-        errors: Record<string, Record<string, string>>
-    }> {
+    async validateDeep(options: { signal?: AbortSignal } = {}): Promise<DeepValidationResult> {
         this.checkDestroyed();
 
-        const allErrors: Record<string, Record<string, string>> = {};
-        const nodesToValidate: Array<{ node: PropertyNode; path: string[] }> = [];
+        const issues: ValidationIssue[] = [];
+        const nodesToValidate: PropertyNode[] = [];
 
         // Collect all nodes first (sync)
-        this.traverse((node, nodePath) => {
-            nodesToValidate.push({ node, path: [...nodePath] });
+        this.traverse((node) => {
+            nodesToValidate.push(node);
         });
 
         // Validate all nodes (async)
-        for (const { node, path } of nodesToValidate) {
-            const result = await node.validate();
-            if (!result.valid) {
-                allErrors[path.join('.') || 'root'] = result.errors;
+        for (const node of nodesToValidate) {
+            const result = await node.validate({ signal: options.signal });
+            issues.push(...result.issues);
+        }
+
+        // Group by the path each issue targets, relative to this node
+        const basePath = this.path();
+        const allErrors: Record<string, Record<string, string>> = {};
+        const issuesByPath: Record<string, ValidationIssue[]> = {};
+        for (const issue of issues) {
+            const key = issue.path.slice(basePath.length).join('.') || 'root';
+            (issuesByPath[key] ??= []).push(issue);
+            if (issue.severity === 'error') {
+                (allErrors[key] ??= {})[issue.constraint] = issue.message;
             }
         }
 
         return {
-            valid: Object.keys(allErrors).length === 0,
+            valid: !hasErrors(issues),
             errors: allErrors,
+            issues,
+            issuesByPath,
         };
     }
 
+    /**
+     * Get the message of a constraint, evaluated with this node as self.
+     * Messages may be plain strings or expressions such as op('t', lit('errors.required')),
+     * and may contain {param} placeholders.
+     */
+    async getConstraintMessage(key: string): Promise<string | undefined> {
+        this.checkDestroyed();
+
+        const constraint = inheritedEntry(this.property, 'constraints', key);
+        if (!constraint) return undefined;
+
+        return this.formatMessage(key, constraint, await this.readConstraintParams(constraint));
+    }
+
+    /**
+     * Build the issues for a failed constraint from its metadata,
+     * evaluated under the run's signal like the constraint itself.
+     */
+    private async createIssues(
+        key: string,
+        constraint: Property,
+        signal: AbortSignal
+    ): Promise<ValidationIssue[]> {
+        const params = await this.readConstraintParams(constraint, signal);
+        const code = await this.readConstraintMeta(constraint, 'code', signal);
+        const severity = await this.readConstraintMeta(constraint, 'severity', signal);
+        const targets = toTargetPaths(await this.readConstraintMeta(constraint, 'targets', signal));
+        const source = this.path();
+
+        const issue = {
+            constraint: key,
+            code: typeof code === 'string' ? code : key,
+            severity: toSeverity(severity),
+            source,
+            params,
+            message: await this.formatMessage(key, constraint, params, signal),
+        };
+
+        // One issue per target field, or one on this node
+        if (targets.length === 0) {
+            return [{ ...issue, path: source }];
+        }
+        return targets.map(target => ({ ...issue, path: [...source, ...target] }));
+    }
+
+    /**
+     * Evaluate a constraint's message and interpolate its params.
+     */
+    private async formatMessage(
+        key: string,
+        constraint: Property,
+        params: Record<string, unknown>,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const message = await this.readConstraintMeta(constraint, 'message', signal);
+        if (message === undefined || message === null) {
+            return `Constraint ${key} failed`;
+        }
+        return interpolate(String(message), params);
+    }
+
+    /**
+     * Evaluate a constraint's params, adding this node's value as 'actual'
+     * (and its type's id as 'expected' for the built-in type check).
+     */
+    private async readConstraintParams(
+        constraint: Property,
+        signal?: AbortSignal
+    ): Promise<Record<string, unknown>> {
+        const params: Record<string, unknown> = {};
+        const paramsProp = constraint.metadata?.params;
+        if (paramsProp?.children) {
+            for (const [name, param] of Object.entries(paramsProp.children)) {
+                params[name] = await this.readConstraintValue(param, signal);
+            }
+        }
+        if (isTypeCheck(constraint)) {
+            params.expected = this.property.type.id;
+        }
+        params.actual = this.getRegistry() ? await this.evaluateValue(this, signal) : this.property.value;
+        return params;
+    }
+
+    /**
+     * Read a metadata entry of a constraint owned by this node.
+     */
+    private async readConstraintMeta(
+        constraint: Property,
+        key: string,
+        signal?: AbortSignal
+    ): Promise<unknown> {
+        const meta = constraint.metadata?.[key];
+        return meta ? this.readConstraintValue(meta, signal) : undefined;
+    }
+
+    /**
+     * Read a constraint-related Property, evaluating expressions with this node as self.
+     * The Property may be an expression or hold one in its value (like constraints do).
+     * Literals are read directly so constraints work without a registry.
+     */
+    private async readConstraintValue(prop: Property, signal?: AbortSignal): Promise<unknown> {
+        const expr = isExpr(prop)
+            ? prop
+            : isProperty(prop.value) && isExpr(prop.value) ? prop.value : undefined;
+
+        if (expr && !isLit(expr)) {
+            return this.evaluateExpr(expr, this.createContext(this, signal));
+        }
+        return expr ? expr.value : prop.value;
+    }
+
     // ========================================================================
     // CHILDREN MANIPULATION
     // ========================================================================
 
     /**
      * Add a child property.
+     * Emits one change for the child and 'children' (read by aggregates).
      */
     addChild(key: string, property: Property): PropertyNode {
         this.checkDestroyed();
@@ -742,16 +1179,22 @@ export class PropertyNode {
         if (!this.property.children) {
             (this.property as { children: Record<string, Property> }).children = {};
         }
+        const previous = this.property.children![key];
+        this.record({ kind: 'children', key, before: previous, after: property });
         this.property.children![key] = property;
+        this.reindex('children', key, previous, property);
+        this.invalidateCache();
 
         // Clear cached node if exists
         this.childNodes.delete(key);
 
+        this.emitChanges([key, 'children']);
         return this.child(key)!;
     }
 
     /**
      * Remove a child.
+     * Emits one change for the child and 'children'.
      */
     removeChild(key: string): boolean {
         this.checkDestroyed();
@@ -763,7 +1206,11 @@ export class PropertyNode {
                 cachedNode.destroy();
             }
             this.childNodes.delete(key);
+            this.record({ kind: 'children', key, before: this.property.children[key], after: undefined });
+            this.reindex('children', key, this.property.children[key]);
             delete this.property.children[key];
+            this.invalidateCache();
+            this.emitChanges([key, 'children']);
             return true;
         }
         return false;
@@ -972,18 +1419,22 @@ export class PropertyNode {
      * Emit a change notification.
      */
     emitChange(path: string | string[]): void {
-        const pathStr = typeof path === 'string' ? path : path.join('.');
+        this.emitChanges([typeof path === 'string' ? path : path.join('.')]);
+    }
 
+    /**
+     * Emit one change notification for several paths.
+     */
+    private emitChanges(paths: string[]): void {
         if (this.batchedChanges !== null) {
-            this.batchedChanges.push(pathStr);
+            this.batchedChanges.push(...paths);
         } else {
-            this.notify([pathStr]);
+            this.notify(paths);
             // Propagate to parent with this node's key prepended
             if (this.parentNode) {
                 const myKey = this.getKeyInParent();
                 if (myKey !== null) {
-                    const parentPath = pathStr ? `${myKey}.${pathStr}` : myKey;
-                    this.parentNode.emitChange(parentPath);
+                    this.parentNode.emitChanges(paths.map(p => p ? `${myKey}.${p}` : myKey));
                 }
             }
         }
@@ -1008,42 +1459,154 @@ export class PropertyNode {
      * Batch multiple changes and emit once.
      */
     batch(fn: () => void): void {
-        if (this.batchedChanges !== null) {
-            // Already in a batch, just execute
-            fn();
-            return;
-        }
-
-        this.batchedChanges = [];
+        const history = this.root.history;
+        history?.begin();
         try {
-            fn();
-            if (this.batchedChanges.length > 0) {
-                const uniquePaths = [...new Set(this.batchedChanges)];
-                this.notify(uniquePaths);
+            if (this.batchedChanges !== null) {
+                // Already in a batch, just execute
+                fn();
+                return;
+            }
+
+            this.batchedChanges = [];
+            try {
+                fn();
+                if (this.batchedChanges.length > 0) {
+                    const uniquePaths = [...new Set(this.batchedChanges)];
+                    this.notify(uniquePaths);
+                }
+            } finally {
+                this.batchedChanges = null;
             }
         } finally {
-            this.batchedChanges = null;
+            history?.end();
         }
     }
 
     /**
      * Execute a transaction that can be rolled back.
+     *
+     * If fn throws, every change made to the tree through its setters since
+     * the transaction began (values, default values, metadata, constraints,
+     * added and removed children) is reverted and the error rethrown.
+     * Change notifications are held back until the outermost transaction
+     * commits, and dropped if it rolls back.
+     *
+     * A transaction inside another is a savepoint: if it throws, only its
+     * own changes are reverted and their notifications dropped, and the
+     * outer transaction can catch the error and continue.
      */
     transaction<T>(fn: () => T): T {
-        const snapshot = this.toJSON();
+        const root = this.root;
+        const savepoint = root.beginTransaction();
+        try {
+            const result = fn();
+            root.commitTransaction();
+            return result;
+        } catch (error) {
+            root.rollbackTransaction(savepoint);
+            throw error;
+        }
+    }
+
+    /**
+     * Execute an async transaction, e.g. one that awaits validate().
+     * Same as transaction(), committing when fn resolves and rolling back
+     * when it rejects. Changes made elsewhere to the tree while it is
+     * pending belong to it, so don't run transactions on a tree concurrently.
+     */
+    async transactionAsync<T>(fn: () => Promise<T>): Promise<T> {
+        const root = this.root;
+        const savepoint = root.beginTransaction();
         try {
-            return fn();
+            const result = await fn();
+            root.commitTransaction();
+            return result;
         } catch (error) {
-            // Rollback
-            this.restoreFromSnapshot(snapshot);
+            root.rollbackTransaction(savepoint);
             throw error;
         }
     }
 
+    /**
+     * Check if a transaction is open on the tree.
+     */
+    get inTransaction(): boolean {
+        return this.root.openTransaction !== null;
+    }
+
+    /**
+     * Open a transaction (on the root) and return its savepoint.
+     */
+    private beginTransaction(): Savepoint {
+        this.openTransaction ??= { log: [], depth: 0, notifications: new Map() };
+        this.openTransaction.depth++;
+        this.history?.begin();
+
+        const notifications = new Map<PropertyNode, number>();
+        for (const [node, paths] of this.openTransaction.notifications) {
+            notifications.set(node, paths.length);
+        }
+        return { log: this.openTransaction.log.length, notifications };
+    }
+
+    /**
+     * Close a transaction (on the root), sending the held back
+     * notifications when it is the outermost one.
+     */
+    private commitTransaction(): void {
+        const transaction = this.openTransaction!;
+        this.history?.end();
+        if (--transaction.depth > 0) return;
+
+        this.openTransaction = null;
+        for (const [node, paths] of transaction.notifications) {
+            if (!node.isDestroyed) {
+                node.notify([...new Set(paths)]);
+            }
+        }
+    }
+
+    /**
+     * Revert the changes made since a savepoint (on the root) and close
+     * its transaction.
+     */
+    private rollbackTransaction(savepoint: Savepoint): void {
+        const transaction = this.openTransaction!;
+        try {
+            const changes = transaction.log.slice(savepoint.log);
+            for (let i = changes.length - 1; i >= 0; i--) {
+                applyChange(this, changes[i]!, 'before');
+            }
+        } finally {
+            // Drop the reverted changes and the ones made reverting them,
+            // along with their held notifications
+            transaction.log.length = savepoint.log;
+            for (const [node, paths] of transaction.notifications) {
+                const held = savepoint.notifications.get(node);
+                if (held === undefined) transaction.notifications.delete(node);
+                else paths.length = held;
+            }
+            this.history?.end(true);
+            if (--transaction.depth === 0) {
+                this.openTransaction = null;
+            }
+        }
+    }
+
     /**
      * Notify subscribers of changes.
+     * Held back while a transaction is open on the tree.
      */
     protected notify(paths: string[]): void {
+        const held = this.root.openTransaction?.notifications;
+        if (held) {
+            const pending = held.get(this);
+            if (pending) pending.push(...paths);
+            else held.set(this, [...paths]);
+            return;
+        }
+
         for (const { callback, filter } of this.subscriptions.values()) {
             const filtered = filter ? this.filterPaths(paths, filter) : paths;
             if (filtered.length > 0) {
@@ -1087,9 +1650,18 @@ export class PropertyNode {
 
     /**
      * Serialize to JSON-safe object.
+     * With `shared`, repeated subtrees are written once (see SerializeOptions).
      */
-    toJSON(): SerializedProperty {
-        return PropertyNode.serializeProperty(this.property);
+    toJSON(options: SerializeOptions = {}): SerializedProperty {
+        if (!options.shared) {
+            return PropertyNode.serializeProperty(this.property);
+        }
+        const writer: SharedWriter = { subtrees: findSharedSubtrees(this.property), defs: {} };
+        const result = PropertyNode.serializeProperty(this.property, writer, true);
+        if (Object.keys(writer.defs).length > 0) {
+            result.$defs = writer.defs;
+        }
+        return result;
     }
 
     /**
@@ -1151,60 +1723,59 @@ export class PropertyNode {
     }
 
     /**
-     * Restore state from a snapshot.
-     */
-    private restoreFromSnapshot(snapshot: SerializedProperty): void {
-        // Restore value
-        if (snapshot.value !== undefined) {
-            (this.property as { value: unknown }).value = snapshot.value;
-        }
-
-        // Restore children values recursively
-        if (snapshot.children && this.property.children) {
-            for (const [key, childSnapshot] of Object.entries(snapshot.children)) {
-                const child = this.child(key);
-                if (child) {
-                    child.restoreFromSnapshot(childSnapshot);
-                }
+     * Serialize a Property to JSON-safe format.
+     * With a shared writer, a repeated subtree is written to the writer's
+     * definitions on first use and referenced by `$ref` (tree nodes never are).
+     */
+    private static serializeProperty(
+        property: Property,
+        shared?: SharedWriter,
+        isTreeNode = false
+    ): SerializedProperty {
+        const hash = shared && !isTreeNode ? shared.subtrees.hashes.get(property) : undefined;
+        if (hash !== undefined && shared!.subtrees.shared.has(hash)) {
+            if (!(hash in shared!.defs)) {
+                shared!.defs[hash] = PropertyNode.serializeContent(property, shared);
             }
+            return { id: property.id, type: { id: property.type.id }, $ref: hash };
         }
+        return PropertyNode.serializeContent(property, shared);
     }
 
-    /**
-     * Serialize a Property to JSON-safe format.
-     */
-    private static serializeProperty(property: Property): SerializedProperty {
+    private static serializeContent(property: Property, shared?: SharedWriter): SerializedProperty {
         const result: SerializedProperty = {
             id: property.id,
             type: { id: property.type.id },
         };
 
         if (property.value !== undefined) {
-            result.value = PropertyNode.serializeValue(property.value);
+            result.value = PropertyNode.serializeValue(property.value, shared);
         }
 
         if (property.defaultValue !== undefined) {
-            result.defaultValue = PropertyNode.serializeValue(property.defaultValue);
+            result.defaultValue = PropertyNode.serializeValue(property.defaultValue, shared);
         }
 
         if (property.metadata) {
             result.metadata = {};
             for (const [key, meta] of Object.entries(property.metadata)) {
-                result.metadata[key] = PropertyNode.serializeProperty(meta);
+                result.metadata[key] = PropertyNode.serializeProperty(meta, shared);
             }
         }
 
         if (property.constraints) {
             result.constraints = {};
             for (const [key, constraint] of Object.entries(property.constraints)) {
-                result.constraints[key] = PropertyNode.serializeProperty(constraint);
+                result.constraints[key] = PropertyNode.serializeProperty(constraint, shared);
             }
         }
 
         if (property.children) {
+            // Children of an expression are its arguments, not tree nodes
+            const childrenAreNodes = !isExpr(property);
             result.children = {};
             for (const [key, child] of Object.entries(property.children)) {
-                result.children[key] = PropertyNode.serializeProperty(child);
+                result.children[key] = PropertyNode.serializeProperty(child, shared, childrenAreNodes);
             }
         }
 
@@ -1214,17 +1785,17 @@ export class PropertyNode {
     /**
      * Serialize a value (handles nested Properties).
      */
-    private static serializeValue(value: unknown): unknown {
+    private static serializeValue(value: unknown, shared?: SharedWriter): unknown {
         if (isProperty(value)) {
-            return PropertyNode.serializeProperty(value);
+            return PropertyNode.serializeProperty(value, shared);
         }
         if (Array.isArray(value)) {
-            return value.map(v => PropertyNode.serializeValue(v));
+            return value.map(v => PropertyNode.serializeValue(v, shared));
         }
         if (value && typeof value === 'object') {
             const result: Record<string, unknown> = {};
             for (const [k, v] of Object.entries(value)) {
-                result[k] = PropertyNode.serializeValue(v);
+                result[k] = PropertyNode.serializeValue(v, shared);
             }
             return result;
         }
@@ -1236,8 +1807,13 @@ export class PropertyNode {
      */
     private static deserializeProperty(
         json: SerializedProperty,
-        typeResolver?: (typeId: string) => Property
+        typeResolver?: (typeId: string) => Property,
+        shared?: SharedReader
     ): Property {
+        if (shared && json.$ref !== undefined) {
+            return PropertyNode.resolveShared(json.$ref, typeResolver, shared);
+        }
+
         const type = typeResolver
             ? typeResolver(json.type.id)
             : { id: json.type.id, type: null as unknown as Property };
@@ -1248,37 +1824,87 @@ export class PropertyNode {
         };
 
         if (json.value !== undefined) {
-            (property as { value: unknown }).value = json.value;
+            (property as { value: unknown }).value = shared
+                ? PropertyNode.resolveSharedValue(json.value, typeResolver, shared)
+                : json.value;
         }
 
         if (json.defaultValue !== undefined) {
-            (property as { defaultValue: unknown }).defaultValue = json.defaultValue;
+            (property as { defaultValue: unknown }).defaultValue = shared
+                ? PropertyNode.resolveSharedValue(json.defaultValue, typeResolver, shared)
+                : json.defaultValue;
         }
 
         if (json.metadata) {
             (property as { metadata: Record<string, Property> }).metadata = {};
             for (const [key, meta] of Object.entries(json.metadata)) {
-                property.metadata![key] = PropertyNode.deserializeProperty(meta, typeResolver);
+                property.metadata![key] = PropertyNode.deserializeProperty(meta, typeResolver, shared);
             }
         }
 
         if (json.constraints) {
             (property as { constraints: Record<string, Property> }).constraints = {};
             for (const [key, constraint] of Object.entries(json.constraints)) {
-                property.constraints![key] = PropertyNode.deserializeProperty(constraint, typeResolver);
+                property.constraints![key] = PropertyNode.deserializeProperty(constraint, typeResolver, shared);
             }
         }
 
         if (json.children) {
             (property as { children: Record<string, Property> }).children = {};
             for (const [key, child] of Object.entries(json.children)) {
-                property.children![key] = PropertyNode.deserializeProperty(child, typeResolver);
+                property.children![key] = PropertyNode.deserializeProperty(child, typeResolver, shared);
             }
         }
 
         return property;
     }
 
+    /**
+     * Get the Property of a shared definition, deserializing it on first use
+     * so every reference to it gets the same object.
+     */
+    private static resolveShared(
+        hash: string,
+        typeResolver: ((typeId: string) => Property) | undefined,
+        shared: SharedReader
+    ): Property {
+        let property = shared.resolved.get(hash);
+        if (!property) {
+            const definition = shared.defs[hash];
+            if (!definition) {
+                throw new PropertyError(`Unknown shared definition: ${hash}`);
+            }
+            property = PropertyNode.deserializeProperty(definition, typeResolver, shared);
+            shared.resolved.set(hash, property);
+        }
+        return property;
+    }
+
+    /**
+     * Replace the `$ref`s in a serialized value with their definitions.
+     */
+    private static resolveSharedValue(
+        value: unknown,
+        typeResolver: ((typeId: string) => Property) | undefined,
+        shared: SharedReader
+    ): unknown {
+        if (Array.isArray(value)) {
+            return value.map(v => PropertyNode.resolveSharedValue(v, typeResolver, shared));
+        }
+        if (value && typeof value === 'object') {
+            const ref = (value as SerializedProperty).$ref;
+            if (typeof ref === 'string') {
+                return PropertyNode.resolveShared(ref, typeResolver, shared);
+            }
+            const result: Record<string, unknown> = {};
+            for (const [k, v] of Object.entries(value)) {
+                result[k] = PropertyNode.resolveSharedValue(v, typeResolver, shared);
+            }
+            return result;
+        }
+        return value;
+    }
+
     /**
      * Deep clone a Property.
      */
@@ -1352,111 +1978,179 @@ export class PropertyNode {
      * Check if this node equals another (by value).
      */
     equals(other: PropertyNode): boolean {
-        return PropertyNode.propertyEquals(this.property, other.property);
+        return propertyEquals(this.property, other.property);
     }
 
     /**
-     * Check if two properties are equal.
+     * Stable hash of this node's content (see contentHash).
+     * Nodes that are equal have the same hash.
      */
-    private static propertyEquals(a: Property, b: Property): boolean {
-        if (a.id !== b.id) return false;
-        if (a.type.id !== b.type.id) return false;
-        if (!PropertyNode.valueEquals(a.value, b.value)) return false;
-        if (!PropertyNode.valueEquals(a.defaultValue, b.defaultValue)) return false;
+    contentHash(): string {
+        return contentHash(this.property);
+    }
 
-        // Compare children
-        const aChildKeys = a.children ? Object.keys(a.children) : [];
-        const bChildKeys = b.children ? Object.keys(b.children) : [];
-        if (aChildKeys.length !== bChildKeys.length) return false;
-        for (const key of aChildKeys) {
-            if (!b.children?.[key]) return false;
-            if (!PropertyNode.propertyEquals(a.children![key]!, b.children[key]!)) return false;
-        }
+    // ========================================================================
+    // LIFECYCLE
+    // ========================================================================
+
+    /**
+     * Check if destroyed.
+     */
+    get isDestroyed(): boolean {
+        return this.destroyedPath !== null;
+    }
 
-        // Compare metadata
-        const aMetaKeys = a.metadata ? Object.keys(a.metadata) : [];
-        const bMetaKeys = b.metadata ? Object.keys(b.metadata) : [];
-        if (aMetaKeys.length !== bMetaKeys.length) return false;
-        for (const key of aMetaKeys) {
-            if (!b.metadata?.[key]) return false;
-            if (!PropertyNode.propertyEquals(a.metadata![key]!, b.metadata[key]!)) return false;
+    /**
+     * Destroy the node and all children.
+     */
+    destroy(): void {
+        this.destroyAt(this.path());
+    }
+
+    /**
+     * Destroy the node and its children, remembering their paths for errors.
+     */
+    private destroyAt(path: string[]): void {
+        // Destroy children first
+        for (const [key, child] of this.childNodes) {
+            child.destroyAt([...path, key]);
         }
 
-        // Compare constraints
-        const aConstKeys = a.constraints ? Object.keys(a.constraints) : [];
-        const bConstKeys = b.constraints ? Object.keys(b.constraints) : [];
-        if (aConstKeys.length !== bConstKeys.length) return false;
-        for (const key of aConstKeys) {
-            if (!b.constraints?.[key]) return false;
-            if (!PropertyNode.propertyEquals(a.constraints![key]!, b.constraints[key]!)) return false;
+        this.validationRun?.controller.abort();
+        this.destroyedPath = path;
+        this.subscriptions.clear();
+        this.validationListeners.clear();
+        this.childNodes.clear();
+        this.parentNode = null;
+    }
+
+    /**
+     * Check if destroyed and throw.
+     */
+    private checkDestroyed(): void {
+        if (this.destroyedPath) {
+            throw new DestroyedNodeError(this.destroyedPath);
         }
+    }
 
-        return true;
+    // ========================================================================
+    // EVALUATION CACHE
+    // ========================================================================
+
+    /**
+     * Enable memoization of evaluated results for the whole tree.
+     * Any mutation through a PropertyNode of the tree clears the cache.
+     */
+    enableCache(): this {
+        const root = this.root;
+        root.evaluationCache ??= new EvaluationCache();
+        return this;
     }
 
     /**
-     * Check if two values are equal.
+     * Disable memoization for the whole tree.
      */
-    private static valueEquals(a: unknown, b: unknown): boolean {
-        if (a === b) return true;
-        if (a === null || b === null) return false;
-        if (a === undefined || b === undefined) return false;
+    disableCache(): this {
+        this.root.evaluationCache = null;
+        return this;
+    }
 
-        if (Array.isArray(a) && Array.isArray(b)) {
-            if (a.length !== b.length) return false;
-            return a.every((v, i) => PropertyNode.valueEquals(v, b[i]));
-        }
+    /**
+     * Check if memoization is enabled for the tree.
+     */
+    get isCacheEnabled(): boolean {
+        return this.root.evaluationCache !== null;
+    }
 
-        if (typeof a === 'object' && typeof b === 'object') {
-            if (isProperty(a) && isProperty(b)) {
-                return PropertyNode.propertyEquals(a, b);
-            }
-            const aKeys = Object.keys(a);
-            const bKeys = Object.keys(b);
-            if (aKeys.length !== bKeys.length) return false;
-            return aKeys.every(key =>
-                PropertyNode.valueEquals(
-                    (a as Record<string, unknown>)[key],
-                    (b as Record<string, unknown>)[key]
-                )
-            );
-        }
+    /**
+     * Drop all memoized results (e.g. after mutating Properties directly).
+     */
+    clearCache(): void {
+        this.invalidateCache();
+    }
 
-        return false;
+    /**
+     * Get cache hit/miss counters (null when the cache is disabled).
+     */
+    cacheStats(): CacheStats | null {
+        return this.root.evaluationCache?.stats() ?? null;
+    }
+
+    /**
+     * Clear the tree's cache after a mutation.
+     */
+    private invalidateCache(): void {
+        this.root.evaluationCache?.clear();
     }
 
     // ========================================================================
-    // LIFECYCLE
+    // EVALUATION HOOKS
     // ========================================================================
 
     /**
-     * Check if destroyed.
+     * Observe every evaluation in the whole tree, e.g. with a Profiler:
+     *
+     *   root.setEvaluationHooks({ tracer: profiler.tracer() });
+     *
+     * Pass null to remove them.
      */
-    get isDestroyed(): boolean {
-        return this.destroyed;
+    setEvaluationHooks(hooks: EvaluationHooks | null): this {
+        this.root.evaluationHooks = hooks;
+        return this;
     }
 
+    // ========================================================================
+    // EVALUATION LIMITS
+    // ========================================================================
+
     /**
-     * Destroy the node and all children.
+     * Bound every evaluation in the whole tree, e.g. for schemas submitted
+     * by tenants. Each expression evaluated by the tree gets its own budget.
+     * Pass null to remove them.
      */
-    destroy(): void {
-        // Destroy children first
-        for (const child of this.childNodes.values()) {
-            child.destroy();
-        }
+    setEvaluationLimits(limits: EvaluationLimits | null): this {
+        this.root.evaluationLimits = limits;
+        return this;
+    }
 
-        this.destroyed = true;
-        this.subscriptions.clear();
-        this.childNodes.clear();
-        this.parentNode = null;
+    // ========================================================================
+    // HISTORY
+    // ========================================================================
+
+    /**
+     * Record undo/redo history for the whole tree (see History).
+     * Returns the tree's history, creating it on first call.
+     */
+    enableHistory(options?: HistoryOptions): History {
+        const root = this.root;
+        root.history ??= new History(root, options);
+        return root.history;
     }
 
     /**
-     * Check if destroyed and throw.
+     * Stop recording history and drop it.
      */
-    private checkDestroyed(): void {
-        if (this.destroyed) {
-            throw new Error('PropertyNode has been destroyed');
+    disableHistory(): this {
+        this.root.history = null;
+        return this;
+    }
+
+    /**
+     * Get the tree's history (null when disabled).
+     */
+    getHistory(): History | null {
+        return this.root.history;
+    }
+
+    /**
+     * Report a change to the tree's history and open transaction, if any.
+     */
+    private record(change: Omit<ValueChange, 'path'> | Omit<EntryChange, 'path'>): void {
+        const { history, openTransaction } = this.root;
+        if ((history || openTransaction) && change.before !== change.after) {
+            const recorded = { ...change, path: this.path() };
+            history?.record(recorded);
+            openTransaction?.log.push(recorded);
         }
     }
 
@@ -1464,13 +2158,22 @@ export class PropertyNode {
     // CONTEXT
     // ========================================================================
 
+    /**
+     * Create an evaluation context with this node as `self`.
+     * Used to evaluate expressions owned by this node outside of getValue().
+     */
+    evaluationContext(): EvaluationContext {
+        this.checkDestroyed();
+        return this.createContext(this);
+    }
+
     /**
      * Create evaluation context.
      */
-    private createContext(node: PropertyNode): EvaluationContext {
+    private createContext(node: PropertyNode, signal?: AbortSignal): EvaluationContext {
         const registry = this.getRegistry();
         if (!registry) {
-            throw new Error('No registry set');
+            throw new RegistryMissingError(node.path());
         }
 
         return {
@@ -1478,24 +2181,58 @@ export class PropertyNode {
             root: this.root.property,
             registry,
             findParent: (target: Property) => this.findParentProperty(target),
+            cache: this.root.evaluationCache ?? undefined,
+            signal,
+            limits: this.root.evaluationLimits ?? undefined,
+            ...this.root.evaluationHooks,
         };
     }
 
+    /**
+     * Evaluate an expression, taking the synchronous path when every operator
+     * in it is sync-capable and falling back to async evaluation otherwise.
+     */
+    private async evaluateExpr(expr: Property, ctx: EvaluationContext): Promise<unknown> {
+        const cache = ctx.cache;
+        if (cache) {
+            const cached = cache.lookup(expr, ctx.current);
+            if (cached.hit) return cached.value;
+        }
+
+        const generation = cache?.generation ?? 0;
+        let value: unknown;
+        let done = false;
+        if (canEvaluateSync(expr, ctx)) {
+            try {
+                value = evaluateSync(expr, ctx);
+                done = true;
+            } catch (error) {
+                // An unobserved ref led to an async expression - retry asynchronously
+                if (!(error instanceof SyncEvaluationError)) throw error;
+            }
+        }
+        if (!done) {
+            value = await evaluate(expr, ctx);
+        }
+
+        cache?.store(expr, ctx.current, value, generation);
+        return value;
+    }
+
     /**
      * Find parent of a property.
      */
     private findParentProperty(target: Property): Property | undefined {
-        const search = (node: PropertyNode): Property | undefined => {
-            if (node.property === target) {
-                return node.parentNode?.property;
-            }
-            for (const child of node.children()) {
-                const found = search(child);
-                if (found) return found;
-            }
-            return undefined;
-        };
-        return search(this.root);
+        return parentIndexFor(this.root.property).get(target);
+    }
+
+    /**
+     * Update the tree's parent index after a collection entry changed.
+     */
+    private reindex(slot: ParentSlot, key: string, previous?: Property, next?: Property): void {
+        const index = parentIndexFor(this.root.property);
+        if (previous && previous !== next) index.detach(previous);
+        if (next) index.attach(this.property, slot, key, next);
     }
 
     // ========================================================================
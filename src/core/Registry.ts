@@ -7,6 +7,8 @@
  */
 
 import { Property } from './property';
+import type { EvaluationCache } from './EvaluationCache';
+import type { CompiledScope } from './compile';
 
 /**
  * Evaluation context passed to operators.
@@ -24,11 +26,95 @@ export interface EvaluationContext {
     /** Variable bindings (for map/filter/reduce) */
     readonly bindings?: Record<string, unknown>;
 
-    /** Evaluation depth (for circular reference detection) */
+    /** Evaluation depth (guards against runaway recursion) */
     readonly depth?: number;
 
     /** Parent lookup function */
     readonly findParent?: (target: Property) => Property | undefined;
+
+    /**
+     * Called when a reference reads a slot of a tree property (for dependency tracking).
+     * Slots are 'value', 'metadata.<key>', 'constraints.<key>' or 'children'.
+     */
+    readonly onRead?: (owner: Property, slot: string) => void;
+
+    /** Memoized results of referenced expressions (see PropertyNode.enableCache) */
+    readonly cache?: EvaluationCache;
+
+    /** Aborted when the evaluation is no longer needed (e.g. a superseded validation run) */
+    readonly signal?: AbortSignal;
+
+    /** Observes each evaluated expression (see explain and Profiler) */
+    readonly tracer?: EvaluationTracer;
+
+    /** Called before each expression is evaluated */
+    readonly onEnter?: (expr: Property, ctx: EvaluationContext) => void;
+
+    /** Called after each expression is evaluated, with its result or error */
+    readonly onExit?: (expr: Property, ctx: EvaluationContext, result: unknown, error?: unknown) => void;
+
+    /** Bounds on the evaluation, for untrusted expressions */
+    readonly limits?: EvaluationLimits;
+
+    /** Steps taken and deadline of the evaluation (started by the outermost evaluate() under limits) */
+    readonly budget?: EvaluationBudget;
+
+    /** Referenced expressions being evaluated, innermost first (for cycle detection) */
+    readonly refStack?: RefFrame;
+
+    /** Throw on unresolvable references (defaults to the registry's strictRefs) */
+    readonly strictRefs?: boolean;
+
+    /** Compiled nodes that evaluate the expressions they cover (see compile) */
+    readonly compiled?: CompiledScope;
+}
+
+/**
+ * An expression being evaluated for an owner, linked to the one that referenced it.
+ */
+export interface RefFrame {
+    readonly expr: Property;
+    readonly owner: Property;
+    readonly parent?: RefFrame;
+}
+
+/**
+ * Bounds on one evaluation. Exceeding one throws an EvaluationLimitError.
+ */
+export interface EvaluationLimits {
+    /** Maximum nesting of expressions (default 1000) */
+    readonly maxDepth?: number;
+    /** Maximum number of expressions evaluated */
+    readonly maxSteps?: number;
+    /** Wall-clock time in milliseconds, checked before each step */
+    readonly timeout?: number;
+    /** Maximum length of an array produced by an operator or iterated by one */
+    readonly maxCollectionSize?: number;
+}
+
+/**
+ * Running totals of an evaluation under limits, shared by its sub-evaluations.
+ */
+export interface EvaluationBudget {
+    steps: number;
+    readonly deadline?: number;
+}
+
+/**
+ * Observers installed on every evaluation of a tree (see PropertyNode.setEvaluationHooks).
+ */
+export type EvaluationHooks = Pick<EvaluationContext, 'tracer' | 'onEnter' | 'onExit'>;
+
+/**
+ * Observes the evaluation of an expression and its sub-expressions.
+ * Each enter() returns the tracer of that sub-expression, so traces nest
+ * correctly even when arguments are evaluated in parallel.
+ */
+export interface EvaluationTracer {
+    /** Called when a sub-expression starts evaluating */
+    enter(expr: Property, ctx: EvaluationContext): EvaluationTracer;
+    /** Called when the traced expression finishes, with its result or error */
+    exit(result: unknown, error?: unknown): void;
 }
 
 /**
@@ -41,12 +127,74 @@ export type OperatorFn = (
     ctx: EvaluationContext
 ) => unknown | Promise<unknown>;
 
+/**
+ * Synchronous operator function signature.
+ * Evaluates its arguments with evalArgSync/evalArgsSync and never returns a Promise.
+ */
+export type SyncOperatorFn = (
+    args: Property[],
+    ctx: EvaluationContext
+) => unknown;
+
+/**
+ * Argument and return types of an operator, used by typecheck().
+ * Types are schema types (STRING, NUMBER, listOf(...), ANY, ...).
+ */
+export interface OperatorSignature {
+    /** Types of the positional arguments */
+    readonly args?: readonly Property[];
+    /** Type of further arguments; without it, extra arguments are an error */
+    readonly rest?: Property;
+    /** Number of required arguments (defaults to args.length) */
+    readonly required?: number;
+    /** Type of the result (unknown if omitted) */
+    readonly returns?: Property;
+    /** Names the operator binds for its arguments (e.g. 'item' for map) */
+    readonly binds?: readonly string[];
+}
+
+/**
+ * Options for registering an operator.
+ */
+export interface OperatorOptions {
+    /**
+     * Mark the operator as usable by evaluateSync.
+     * - `true`: `fn` itself is synchronous
+     * - a function: a separate synchronous implementation of the same operator
+     */
+    readonly sync?: boolean | SyncOperatorFn;
+
+    /** Argument and return types, checked statically by typecheck() */
+    readonly signature?: OperatorSignature;
+}
+
+/**
+ * Options for a Registry.
+ */
+export interface RegistryOptions {
+    /**
+     * Throw a RefResolutionError when a reference segment cannot be resolved,
+     * instead of yielding undefined. Segments ending in `?` may still be missing.
+     * Overridden per evaluation by EvaluationContext.strictRefs.
+     */
+    readonly strictRefs?: boolean;
+}
+
 /**
  * Operator Registry.
  * Stores and retrieves operator functions by name.
  */
 export class Registry {
     private readonly operators = new Map<string, OperatorFn>();
+    private readonly syncOperators = new Map<string, SyncOperatorFn>();
+    private readonly signatures = new Map<string, OperatorSignature>();
+
+    /** Whether references that cannot be resolved throw (see RegistryOptions.strictRefs) */
+    readonly strictRefs: boolean;
+
+    constructor(options: RegistryOptions = {}) {
+        this.strictRefs = options.strictRefs ?? false;
+    }
 
     /**
      * Register an operator.
@@ -56,9 +204,31 @@ export class Registry {
      *     const [a, b] = await evalArgs(args, ctx);
      *     return (a as number) + (b as number);
      * });
+     *
+     * // Synchronous operator, eligible for the sync fast path
+     * registry.register('add', (args, ctx) => {
+     *     const [a, b] = evalArgsSync(args, ctx);
+     *     return (a as number) + (b as number);
+     * }, { sync: true });
+     *
+     * // With a signature for typecheck()
+     * registry.register('add', add, { signature: { rest: NUMBER, returns: NUMBER } });
      */
-    register(name: string, fn: OperatorFn): this {
+    register(name: string, fn: OperatorFn, options?: OperatorOptions): this {
         this.operators.set(name, fn);
+
+        const sync = options?.sync;
+        if (sync) {
+            this.syncOperators.set(name, sync === true ? fn as SyncOperatorFn : sync);
+        } else {
+            this.syncOperators.delete(name);
+        }
+
+        if (options?.signature) {
+            this.signatures.set(name, options.signature);
+        } else {
+            this.signatures.delete(name);
+        }
         return this;
     }
 
@@ -73,6 +243,8 @@ export class Registry {
      * will throw "Unknown operator" when evaluated.
      */
     unregister(name: string): boolean {
+        this.syncOperators.delete(name);
+        this.signatures.delete(name);
         return this.operators.delete(name);
     }
 
@@ -83,6 +255,27 @@ export class Registry {
         return this.operators.get(name);
     }
 
+    /**
+     * Get the synchronous implementation of an operator, if it has one.
+     */
+    getSync(name: string): SyncOperatorFn | undefined {
+        return this.syncOperators.get(name);
+    }
+
+    /**
+     * Check if an operator can be evaluated synchronously.
+     */
+    isSync(name: string): boolean {
+        return this.syncOperators.has(name);
+    }
+
+    /**
+     * Get the signature of an operator, if it declared one.
+     */
+    getSignature(name: string): OperatorSignature | undefined {
+        return this.signatures.get(name);
+    }
+
     /**
      * Check if an operator exists.
      */
@@ -109,6 +302,8 @@ export class Registry {
      */
     clear(): this {
         this.operators.clear();
+        this.syncOperators.clear();
+        this.signatures.clear();
         return this;
     }
 }
@@ -116,4 +311,4 @@ export class Registry {
 /**
  * Create a new empty registry.
  */
-export const createRegistry = (): Registry => new Registry();
+export const createRegistry = (options?: RegistryOptions): Registry => new Registry(options);
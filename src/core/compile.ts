@@ -0,0 +1,338 @@
+/**
+ * ============================================================================
+ * COMPILER
+ * ============================================================================
+ * Turns an expression tree into reusable closures for hot paths.
+ *
+ * evaluate() interprets a tree on every call: it dispatches on the kind of
+ * each node, looks its operator up, collects its arguments in order and
+ * follows its reference path segment by segment. compile() does that once
+ * per node and binds the results into closures: operators to their
+ * function and argument nodes, references to an accessor for their path
+ * and to the node of the expression they lead to.
+ *
+ *   const total = compile(sheet.children.total.value, registry);
+ *   await total({ current: sheet, root: sheet, registry });
+ *   total.sync(ctx);
+ *
+ * Compiled expressions behave exactly like evaluate() and evaluateSync():
+ * same results, errors, hooks, limits and caching. Operators still receive
+ * their arguments as expressions; evaluating them runs their compiled nodes.
+ * Expressions reached through references are compiled on first use.
+ *
+ * Operators are bound at compile time: compile again after registering or
+ * replacing one, or after editing an expression in place.
+ */
+
+import { Property } from './property';
+import { Registry, EvaluationContext, EvaluationBudget, RefFrame } from './Registry';
+import {
+    evaluate,
+    evaluateSync,
+    getArgs,
+    refWalkOf,
+    nextDepth,
+    spendStep,
+    enterRef,
+    cacheFor,
+    isObserved,
+    annotate,
+    checkCollectionSize,
+    SyncEvaluationError,
+} from './Evaluator';
+import { UnknownOperatorError } from './errors';
+import { isLit, isRef, isOp } from './guards';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * An expression compiled to closures.
+ */
+export interface CompiledExpression {
+    /** Evaluate the expression, like evaluate() */
+    (ctx: EvaluationContext): Promise<unknown>;
+    /** Evaluate the expression synchronously, like evaluateSync() */
+    readonly sync: (ctx: EvaluationContext) => unknown;
+    /** The compiled expression */
+    readonly expr: Property;
+}
+
+/**
+ * One compiled node: what evaluate() and evaluateSync() run for it.
+ */
+export interface CompiledNode {
+    readonly run: (ctx: EvaluationContext) => Promise<unknown>;
+    readonly runSync: (ctx: EvaluationContext) => unknown;
+}
+
+/**
+ * Where evaluate() finds the compiled node of an expression
+ * (EvaluationContext.compiled).
+ */
+export interface CompiledScope {
+    node(expr: Property): CompiledNode;
+}
+
+/**
+ * Work of a node once entered: depth checked and step counted.
+ */
+type Body = (
+    ctx: EvaluationContext,
+    depth: number,
+    budget: EvaluationBudget | undefined
+) => unknown;
+
+// ============================================================================
+// NODES
+// ============================================================================
+
+/**
+ * Wrap node bodies with the bookkeeping every evaluated expression goes through.
+ * `body` may return a promise or a plain value; run() settles either.
+ */
+const compiledNode = (expr: Property, body: Body, syncBody: Body): CompiledNode => ({
+    run: (ctx) => {
+        try {
+            const depth = nextDepth(ctx);
+            ctx.signal?.throwIfAborted();
+            const result = body(ctx, depth, ctx.limits && spendStep(ctx));
+            if (result instanceof Promise) {
+                return result.catch((error: unknown) => {
+                    throw annotate(error, expr, ctx);
+                });
+            }
+            return Promise.resolve(result);
+        } catch (error) {
+            return Promise.reject(annotate(error, expr, ctx));
+        }
+    },
+    runSync: (ctx) => {
+        try {
+            const depth = nextDepth(ctx);
+            ctx.signal?.throwIfAborted();
+            return syncBody(ctx, depth, ctx.limits && spendStep(ctx));
+        } catch (error) {
+            throw annotate(error, expr, ctx);
+        }
+    },
+});
+
+const compileLit = (expr: Property): CompiledNode => {
+    const body: Body = () => expr.value;
+    return compiledNode(expr, body, body);
+};
+
+/**
+ * A Property that is not an expression evaluates to its value, or null.
+ */
+const compileValue = (expr: Property): CompiledNode => {
+    const body: Body = () => expr.value ?? null;
+    return compiledNode(expr, body, body);
+};
+
+/**
+ * A reference walks its path with the accessor compiled for it and runs
+ * the node of the expression it leads to in one context: the one
+ * evaluate() would build for the reference and then for its target.
+ * The node of the last target is kept, as a reference mostly leads to
+ * the same expression.
+ */
+const compileRef = (expr: Property, nodes: CompiledNodes): CompiledNode => {
+    const walk = refWalkOf(expr);
+    let lastTarget: Property | undefined;
+    let lastNode: CompiledNode | undefined;
+
+    const nodeOf = (target: Property): CompiledNode => {
+        if (target !== lastTarget) {
+            lastNode = nodes.node(target);
+            lastTarget = target;
+        }
+        return lastNode!;
+    };
+
+    const targetContext = (
+        target: Property,
+        owner: Property,
+        ctx: EvaluationContext,
+        depth: number,
+        budget: EvaluationBudget | undefined
+    ): EvaluationContext => {
+        const stack: RefFrame = ctx.refStack ?? { expr, owner: ctx.current };
+        const refStack = enterRef(target, owner, stack, ctx);
+        return budget
+            ? { ...ctx, depth, budget, current: owner, refStack, compiled: nodes }
+            : { ...ctx, depth, current: owner, refStack, compiled: nodes };
+    };
+
+    return compiledNode(
+        expr,
+        (ctx, depth, budget) => {
+            const target = walk(ctx);
+            if (!target.expr) return target.value;
+
+            const refCtx = targetContext(target.expr, target.owner, ctx, depth, budget);
+            const cache = cacheFor(ctx);
+            if (!cache) {
+                return isObserved(ctx) ? evaluate(target.expr, refCtx) : nodeOf(target.expr).run(refCtx);
+            }
+
+            const cached = cache.lookup(target.expr, target.owner);
+            if (cached.hit) return cached.value;
+            const generation = cache.generation;
+            const pending = isObserved(ctx) ? evaluate(target.expr, refCtx) : nodeOf(target.expr).run(refCtx);
+            return pending.then(value => {
+                cache.store(target.expr, target.owner, value, generation);
+                return value;
+            });
+        },
+        (ctx, depth, budget) => {
+            const target = walk(ctx);
+            if (!target.expr) return target.value;
+
+            const refCtx = targetContext(target.expr, target.owner, ctx, depth, budget);
+            const cache = cacheFor(ctx);
+            if (!cache) {
+                return isObserved(ctx) ? evaluateSync(target.expr, refCtx) : nodeOf(target.expr).runSync(refCtx);
+            }
+
+            const cached = cache.lookup(target.expr, target.owner);
+            if (cached.hit) return cached.value;
+            const value = isObserved(ctx) ? evaluateSync(target.expr, refCtx) : nodeOf(target.expr).runSync(refCtx);
+            cache.store(target.expr, target.owner, value, cache.generation);
+            return value;
+        }
+    );
+};
+
+/**
+ * An operator runs with its function bound, in a context whose compiled
+ * scope holds its argument nodes.
+ */
+const compileOp = (expr: Property, registry: Registry, nodes: CompiledNodes): CompiledNode => {
+    const name = expr.id;
+    const fn = registry.get(name);
+    const syncFn = registry.getSync(name);
+    const args = getArgs(expr);
+    const scope = new ArgumentNodes(args, nodes);
+
+    const argumentContext = (
+        ctx: EvaluationContext,
+        depth: number,
+        budget: EvaluationBudget | undefined
+    ): EvaluationContext => {
+        const refStack = ctx.refStack ?? { expr, owner: ctx.current };
+        return budget
+            ? { ...ctx, depth, budget, refStack, compiled: scope }
+            : { ...ctx, depth, refStack, compiled: scope };
+    };
+
+    return compiledNode(
+        expr,
+        (ctx, depth, budget) => {
+            if (!fn) throw new UnknownOperatorError(name);
+            const evalCtx = argumentContext(ctx, depth, budget);
+            const pending = fn(args, evalCtx);
+            if (!budget) return pending;
+            if (pending instanceof Promise) {
+                return pending.then(result => {
+                    checkCollectionSize(result, evalCtx);
+                    return result;
+                });
+            }
+            checkCollectionSize(pending, evalCtx);
+            return pending;
+        },
+        (ctx, depth, budget) => {
+            if (!syncFn) {
+                throw fn ? new SyncEvaluationError(name) : new UnknownOperatorError(name);
+            }
+            const evalCtx = argumentContext(ctx, depth, budget);
+            const result = syncFn(args, evalCtx);
+            if (result instanceof Promise) {
+                throw new SyncEvaluationError(name);
+            }
+            if (budget) checkCollectionSize(result, evalCtx);
+            return result;
+        }
+    );
+};
+
+// ============================================================================
+// COMPILER
+// ============================================================================
+
+/**
+ * The compiled nodes of one compile() call, keyed by expression.
+ */
+export class CompiledNodes implements CompiledScope {
+    private readonly nodes = new WeakMap<Property, CompiledNode>();
+
+    constructor(private readonly registry: Registry) {}
+
+    /**
+     * Get the compiled node of an expression, compiling it on first use.
+     */
+    node(expr: Property): CompiledNode {
+        let node = this.nodes.get(expr);
+        if (!node) {
+            node = this.compileNode(expr);
+            this.nodes.set(expr, node);
+        }
+        return node;
+    }
+
+    private compileNode(expr: Property): CompiledNode {
+        if (isLit(expr)) return compileLit(expr);
+        if (isRef(expr)) return compileRef(expr, this);
+        if (isOp(expr)) return compileOp(expr, this.registry, this);
+        return compileValue(expr);
+    }
+}
+
+/**
+ * The argument nodes of one operator, compiled ahead. Operators mostly
+ * evaluate their arguments in order, so the one after the last found is
+ * tried first; anything else the operator evaluates comes from `nodes`.
+ */
+class ArgumentNodes implements CompiledScope {
+    private readonly argNodes: CompiledNode[];
+    private next = 0;
+
+    constructor(private readonly args: Property[], private readonly nodes: CompiledNodes) {
+        this.argNodes = args.map(arg => nodes.node(arg));
+    }
+
+    node(expr: Property): CompiledNode {
+        let index = this.next;
+        if (this.args[index] !== expr) {
+            index = this.args.indexOf(expr);
+            if (index < 0) return this.nodes.node(expr);
+        }
+        this.next = index + 1 === this.args.length ? 0 : index + 1;
+        return this.argNodes[index]!;
+    }
+}
+
+/**
+ * Compile an expression into a reusable function.
+ * Operators are looked up in `registry` once, here.
+ */
+export const compile = (expr: Property, registry: Registry): CompiledExpression => {
+    const nodes = new CompiledNodes(registry);
+    const root = nodes.node(expr);
+
+    // Hooks and tracers see every node through evaluate()
+    const contextFor = (ctx: EvaluationContext): EvaluationContext =>
+        ctx.compiled === nodes ? ctx : { ...ctx, compiled: nodes };
+
+    return Object.assign(
+        (ctx: EvaluationContext) => isObserved(ctx) ? evaluate(expr, contextFor(ctx)) : root.run(ctx),
+        {
+            sync: (ctx: EvaluationContext) =>
+                isObserved(ctx) ? evaluateSync(expr, contextFor(ctx)) : root.runSync(ctx),
+            expr,
+        }
+    );
+};
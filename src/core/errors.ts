@@ -0,0 +1,152 @@
+/**
+ * ============================================================================
+ * ERRORS
+ * ============================================================================
+ * Typed errors thrown by evaluation and PropertyNode, so callers can tell
+ * failures apart with instanceof instead of matching messages.
+ *
+ *   PropertyError
+ *   ├── UnknownOperatorError
+ *   ├── OperatorError            (an operator threw; wraps the cause)
+ *   ├── CircularReferenceError
+ *   ├── RefResolutionError
+ *   ├── EvaluationLimitError
+ *   ├── RegistryMissingError
+ *   ├── DestroyedNodeError
+ *   ├── PatchError
+ *   ├── SyncEvaluationError      (Evaluator.ts; control flow for evaluateSync)
+ *   └── ExpressionSyntaxError    (parser.ts)
+ */
+
+import type { PatchOperation } from './patch';
+
+/**
+ * Base class of every error thrown by the library
+ * (aborted runs reject with their signal's reason instead).
+ *
+ * Errors raised during evaluation are annotated as they propagate:
+ * `path` locates the Property evaluated as self where the error occurred,
+ * and `expressions` lists the expressions being evaluated, outermost first
+ * (operator names, `ref:<path>` for references, `lit` for literals).
+ */
+export class PropertyError extends Error {
+    /** Path from the root to the Property the error concerns */
+    path: string[];
+    /** Expressions being evaluated when the error occurred, outermost first */
+    readonly expressions: string[] = [];
+
+    constructor(message: string, path: string[] = [], options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'PropertyError';
+        this.path = path;
+    }
+}
+
+/**
+ * Thrown when an expression uses an operator the registry doesn't have.
+ */
+export class UnknownOperatorError extends PropertyError {
+    constructor(readonly operator: string) {
+        super(`Unknown operator: ${operator}`);
+        this.name = 'UnknownOperatorError';
+    }
+}
+
+/**
+ * Thrown when an operator fails; the original error is the `cause`.
+ */
+export class OperatorError extends PropertyError {
+    constructor(readonly operator: string, cause: unknown) {
+        super(
+            `Operator ${operator} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+            [],
+            { cause }
+        );
+        this.name = 'OperatorError';
+    }
+}
+
+/**
+ * Thrown when references form a cycle.
+ */
+export class CircularReferenceError extends PropertyError {
+    /** The references in the cycle, e.g. ['a.value', 'b.metadata.visible', 'a.value'] */
+    constructor(readonly cycle: string[]) {
+        super(`Circular reference: ${cycle.join(' -> ')}`);
+        this.name = 'CircularReferenceError';
+    }
+}
+
+/**
+ * Thrown when a reference cannot be resolved.
+ */
+export class RefResolutionError extends PropertyError {
+    constructor(
+        /** The full reference path */
+        readonly ref: string[],
+        /** The segment that could not be resolved */
+        readonly segment: string,
+        /** The segments resolved before it */
+        readonly resolved: string[]
+    ) {
+        super(`Cannot resolve '${segment}' in reference ${ref.join('.')}`
+            + (resolved.length > 0 ? ` (resolved: ${resolved.join('.')})` : ''));
+        this.name = 'RefResolutionError';
+    }
+}
+
+/**
+ * Which evaluation limit was exceeded (see EvaluationLimits).
+ */
+export type EvaluationLimit = 'depth' | 'steps' | 'timeout' | 'collectionSize';
+
+/**
+ * Thrown when an evaluation exceeds one of its limits, e.g. an untrusted
+ * schema recursing forever or mapping over a huge collection.
+ */
+export class EvaluationLimitError extends PropertyError {
+    constructor(
+        readonly limit: EvaluationLimit,
+        readonly max: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'EvaluationLimitError';
+    }
+}
+
+/**
+ * Thrown when a PropertyNode needs to evaluate but its tree has no registry.
+ */
+export class RegistryMissingError extends PropertyError {
+    constructor(path: string[] = []) {
+        super('No registry set. Call setRegistry() first.', path);
+        this.name = 'RegistryMissingError';
+    }
+}
+
+/**
+ * Thrown when a destroyed PropertyNode is used.
+ */
+export class DestroyedNodeError extends PropertyError {
+    constructor(path: string[] = []) {
+        super('PropertyNode has been destroyed', path);
+        this.name = 'DestroyedNodeError';
+    }
+}
+
+/**
+ * Thrown when a JSON Patch operation cannot be applied (see applyPatch).
+ */
+export class PatchError extends PropertyError {
+    constructor(
+        /** The operation that failed */
+        readonly operation: PatchOperation,
+        /** Its position in the patch */
+        readonly index: number,
+        reason: string
+    ) {
+        super(`Patch operation ${index} (${operation.op} ${operation.path}) failed: ${reason}`);
+        this.name = 'PatchError';
+    }
+}
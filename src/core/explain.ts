@@ -0,0 +1,225 @@
+/**
+ * ============================================================================
+ * EXPLAIN
+ * ============================================================================
+ * Annotated evaluation traces: why did an expression produce its value?
+ *
+ *   const trace = await explain(constraint.value, ctx);
+ *   console.log(formatExplanation(trace));
+ *
+ *   parent.age.value > 18 && parent.country.value == 'FR' = false
+ *     parent.age.value > 18 = true
+ *       parent.age.value = 21
+ *       18 = 18
+ *     parent.country.value == 'FR' = false
+ *       parent.country.value = 'DE'
+ *       'FR' = 'FR'
+ */
+
+import { Property } from './property';
+import { EvaluationContext, EvaluationTracer } from './Registry';
+import { evaluate, getArgs } from './Evaluator';
+import { isLit, isRef, isOp, isProperty } from './guards';
+import { propertyPath } from './ParentIndex';
+import { print } from './parser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kind of a traced expression ('value' for non-expression Properties).
+ */
+export type ExplainKind = 'lit' | 'ref' | 'op' | 'value';
+
+/**
+ * One evaluated expression in a trace.
+ */
+export interface ExplainNode {
+    readonly kind: ExplainKind;
+    /** The expression in formula syntax */
+    readonly source: string;
+    /** Reference path, for refs */
+    readonly ref?: string;
+    /** Operator name, for ops */
+    readonly operator?: string;
+    /**
+     * Path of the Property used as self, when it differs from the enclosing
+     * expression's (e.g. a computed value reached through a reference)
+     */
+    readonly self?: string[];
+    /** Values of the arguments the operator evaluated, in evaluation order */
+    readonly args?: unknown[];
+    readonly result?: unknown;
+    /** Message of the error the expression threw */
+    readonly error?: string;
+    /** Sub-expressions in evaluation order (arguments, reference targets, loop bodies) */
+    readonly children: ExplainNode[];
+}
+
+/**
+ * JSON-safe form of an ExplainNode.
+ */
+export interface ExplainJSON {
+    readonly kind: ExplainKind;
+    readonly source: string;
+    readonly ref?: string;
+    readonly operator?: string;
+    readonly self?: string[];
+    readonly args?: unknown[];
+    readonly result?: unknown;
+    readonly error?: string;
+    readonly children: ExplainJSON[];
+}
+
+/**
+ * Evaluation of one expression, filled in by its tracer.
+ */
+interface Frame {
+    readonly expr: Property;
+    readonly current: Property;
+    readonly children: Frame[];
+    result?: unknown;
+    error?: unknown;
+}
+
+// ============================================================================
+// TRACING
+// ============================================================================
+
+const tracerFor = (frame: Frame): EvaluationTracer => ({
+    enter: (expr, ctx) => {
+        const child: Frame = { expr, current: ctx.current, children: [] };
+        frame.children.push(child);
+        return tracerFor(child);
+    },
+    exit: (result, error) => {
+        frame.result = result;
+        frame.error = error;
+    },
+});
+
+/**
+ * Render an expression in formula syntax, falling back for unprintable ones.
+ */
+const render = (expr: Property): string => {
+    try {
+        return print(expr);
+    } catch {
+        return isOp(expr) ? `${expr.id}(…)` : `<${expr.id}>`;
+    }
+};
+
+const toNode = (frame: Frame, parentCurrent: Property, root: Property): ExplainNode => {
+    const { expr } = frame;
+    const kind: ExplainKind = isLit(expr) ? 'lit' : isRef(expr) ? 'ref' : isOp(expr) ? 'op' : 'value';
+    const self = frame.current !== parentCurrent ? propertyPath(frame.current, root) : undefined;
+
+    const argSet = new Set(kind === 'op' ? getArgs(expr) : []);
+    const children = frame.children.map(child => toNode(child, frame.current, root));
+
+    return {
+        kind,
+        source: render(expr),
+        ...(kind === 'ref' ? { ref: (expr.value as string[]).join('.') } : {}),
+        ...(kind === 'op' ? { operator: expr.id } : {}),
+        ...(self ? { self } : {}),
+        ...(kind === 'op'
+            ? { args: frame.children.filter(child => argSet.has(child.expr)).map(child => child.result) }
+            : {}),
+        ...(frame.error === undefined
+            ? { result: frame.result }
+            : { error: frame.error instanceof Error ? frame.error.message : String(frame.error) }),
+        children,
+    };
+};
+
+/**
+ * Evaluate an expression and return an annotated trace of every
+ * sub-expression: its formula, reference path, argument values and result.
+ * Errors are recorded in the trace instead of being thrown.
+ *
+ * @example
+ * const trace = await explain(op('gt', ref('self.value'), lit(18)), ctx);
+ * trace.result           // false
+ * trace.children[0]      // { kind: 'ref', ref: 'self.value', result: 16, ... }
+ */
+export const explain = async (expr: Property, ctx: EvaluationContext): Promise<ExplainNode> => {
+    const top: Frame = { expr, current: ctx.current, children: [] };
+    try {
+        // Cached results would hide the sub-expressions behind them
+        await evaluate(expr, { ...ctx, cache: undefined, tracer: tracerFor(top) });
+    } catch {
+        // Recorded on the frame of the expression that threw
+    }
+    return toNode(top.children[0]!, ctx.current, ctx.root);
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const MAX_VALUE_LENGTH = 60;
+
+/**
+ * Render a value compactly for a text trace.
+ */
+const formatValue = (value: unknown): string => {
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'string') return `'${value}'`;
+    let text: string;
+    try {
+        text = JSON.stringify(toJSONValue(value)) ?? String(value);
+    } catch {
+        text = String(value);
+    }
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+};
+
+/**
+ * Render a trace as indented text, one expression per line.
+ */
+export const formatExplanation = (node: ExplainNode, indent = '  '): string => {
+    const lines: string[] = [];
+    const visit = (current: ExplainNode, depth: number): void => {
+        const self = current.self ? ` [self: ${current.self.join('.') || 'root'}]` : '';
+        const outcome = current.error !== undefined
+            ? ` ! ${current.error}`
+            : ` = ${formatValue(current.result)}`;
+        lines.push(`${indent.repeat(depth)}${current.source}${self}${outcome}`);
+        for (const child of current.children) {
+            visit(child, depth + 1);
+        }
+    };
+    visit(node, 0);
+    return lines.join('\n');
+};
+
+/**
+ * Convert a value to JSON-safe data (Properties become their id).
+ */
+const toJSONValue = (value: unknown, depth = 0): unknown => {
+    if (value === undefined) return null;
+    if (value === null || typeof value !== 'object') {
+        return typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint'
+            ? String(value)
+            : value;
+    }
+    if (isProperty(value)) return { property: value.id };
+    if (value instanceof Date) return value.toISOString();
+    if (depth >= 5) return '…';
+    if (Array.isArray(value)) return value.map(item => toJSONValue(item, depth + 1));
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, toJSONValue(item, depth + 1)])
+    );
+};
+
+/**
+ * Convert a trace to JSON-safe data, e.g. for a devtools panel.
+ */
+export const explanationToJSON = (node: ExplainNode): ExplainJSON => ({
+    ...node,
+    ...(node.args ? { args: node.args.map(arg => toJSONValue(arg)) } : {}),
+    ...('result' in node ? { result: toJSONValue(node.result) } : {}),
+    children: node.children.map(explanationToJSON),
+});
@@ -4,10 +4,13 @@
  * ============================================================================
  * The three building blocks for dynamic behavior.
  * All expressions are Properties - no special structures.
+ * Also lists where a Property holds expressions (expressionsOf), for the
+ * evaluator, the type checker and lint alike.
  */
 
 import { Property } from './property';
 import { LIT, REF, OP } from './types';
+import { isExpr, isProperty } from './guards';
 
 /**
  * Create a literal expression.
@@ -33,18 +36,22 @@ export const lit = (value: unknown): Property => ({
  * - 'self'        - Current property
  * - 'parent'      - Parent property
  * - 'root'        - Root of the tree
- * - 'children'    - Children collection
+ * - 'children'    - Children collection (as the last segment: the child list)
  * - 'metadata'    - Metadata collection
  * - 'constraints' - Constraints collection
  * - 'value'       - The value field
  * - 'type'        - The type field
  *
+ * A segment ending in '?' is optional: if it is missing the reference yields
+ * undefined, even when strict references are enabled (see RegistryOptions).
+ *
  * @example
  * ref('self.value')                         // Dot notation
  * ref('parent.name.value')                  // Dot notation
  * ref(['self', 'value'])                    // Array notation
  * ref(['parent', 'name', 'value'])          // Array notation
  * ref(['root', 'metadata', 'config'])       // Array notation
+ * ref('root.discount?.value')               // Optional segment
  */
 export const ref = (path: string | string[]): Property => ({
     id: 'ref',
@@ -69,3 +76,60 @@ export const op = (name: string, ...args: Property[]): Property => ({
         {} as Record<string, Property>
     ),
 });
+
+// ============================================================================
+// EXPRESSION SITES
+// ============================================================================
+
+/**
+ * An expression held by a Property, with the Property it is evaluated for.
+ */
+export interface ExpressionSite {
+    readonly expr: Property;
+    /** The Property `self` refers to while evaluating the expression */
+    readonly self: Property;
+    /** Location of the expression from the tree root */
+    readonly path: string[];
+}
+
+/**
+ * List the expressions held by a Property: its value, metadata and constraints
+ * (including constraint messages and params), but not its children.
+ * Expressions in metadata and constraints are evaluated with the Property as self.
+ */
+export const expressionsOf = (property: Property, path: string[]): ExpressionSite[] => {
+    const sites: ExpressionSite[] = [];
+    if (isProperty(property.value) && isExpr(property.value as Property)) {
+        sites.push({ expr: property.value as Property, self: property, path: [...path, 'value'] });
+    }
+    collectAttached(property, property, path, sites);
+    return sites;
+};
+
+const collectAttached = (self: Property, holder: Property, path: string[], sites: ExpressionSite[]): void => {
+    for (const slot of ['metadata', 'constraints'] as const) {
+        const entries = holder[slot];
+        if (!entries) continue;
+        for (const [key, entry] of Object.entries(entries)) {
+            collectEntry(self, entry, [...path, slot, key], sites);
+        }
+    }
+};
+
+const collectEntry = (self: Property, entry: Property, path: string[], sites: ExpressionSite[]): void => {
+    if (isExpr(entry)) {
+        sites.push({ expr: entry, self, path });
+        return;
+    }
+    if (isProperty(entry.value) && isExpr(entry.value as Property)) {
+        sites.push({ expr: entry.value as Property, self, path: [...path, 'value'] });
+    }
+
+    // Nested entries, e.g. a constraint's message and params
+    collectAttached(self, entry, path, sites);
+    if (entry.children) {
+        for (const [key, child] of Object.entries(entry.children)) {
+            collectEntry(self, child, [...path, key], sites);
+        }
+    }
+};
@@ -20,23 +20,138 @@ export {
     OP,
 } from './types';
 
+// Schema types
+export {
+    STRING,
+    NUMBER,
+    INTEGER,
+    BOOLEAN,
+    DATE,
+    ENUM,
+    LIST,
+    RECORD,
+    UNION,
+    ANY,
+    enumOf,
+    listOf,
+    recordOf,
+    unionOf,
+    defineType,
+    typeChain,
+    effectiveEntries,
+    inheritedEntry,
+    matchesType,
+    isAssignable,
+    isValueType,
+} from './schema';
+
 // Expression factories
-export { lit, ref, op } from './expressions';
+export { lit, ref, op, expressionsOf } from './expressions';
+export type { ExpressionSite } from './expressions';
+
+// Expression language
+export { parse, print, ExpressionSyntaxError } from './parser';
+export type { ParseOptions } from './parser';
 
 // Registry
 export { Registry, createRegistry } from './Registry';
-export type { EvaluationContext, OperatorFn } from './Registry';
+export type {
+    EvaluationContext,
+    OperatorFn,
+    SyncOperatorFn,
+    OperatorOptions,
+    RegistryOptions,
+    OperatorSignature,
+    EvaluationTracer,
+    EvaluationHooks,
+    EvaluationLimits,
+    EvaluationBudget,
+    RefFrame,
+} from './Registry';
+
+// Errors
+export {
+    PropertyError,
+    UnknownOperatorError,
+    OperatorError,
+    CircularReferenceError,
+    RefResolutionError,
+    EvaluationLimitError,
+    RegistryMissingError,
+    DestroyedNodeError,
+    PatchError,
+} from './errors';
+export type { EvaluationLimit } from './errors';
 
 // Evaluator
 export {
     evaluate,
+    evaluateSync,
+    isSyncSafe,
+    SyncEvaluationError,
     evalArg,
     evalArgs,
+    evalArgSync,
+    evalArgsSync,
     evalArgsParallel,
     withBindings,
     createLoopContext,
+    checkCollectionSize,
 } from './Evaluator';
 
+// Compiler
+export { compile, CompiledNodes } from './compile';
+export type { CompiledExpression, CompiledNode, CompiledScope } from './compile';
+
+// Interning
+export {
+    contentHash,
+    propertyEquals,
+    valueEquals,
+    InternTable,
+    findSharedSubtrees,
+} from './intern';
+export type { SharedSubtrees } from './intern';
+
+// Standard operators
+export {
+    registerStandardOperators,
+    createStandardRegistry,
+    standardOperatorNames,
+} from './operators';
+
+// Typecheck
+export { typecheck, checkExpression, referencesOf } from './typecheck';
+export type {
+    TypeIssueCode,
+    TypeIssue,
+    TypecheckResult,
+    TypecheckOptions,
+    ExpressionReference,
+} from './typecheck';
+
+// Explain
+export { explain, formatExplanation, explanationToJSON } from './explain';
+export type { ExplainKind, ExplainNode, ExplainJSON } from './explain';
+
+// Profiler
+export { Profiler } from './Profiler';
+export type {
+    ProfileEntry,
+    RefProfileEntry,
+    ProfileJSON,
+    ProfilerOptions,
+} from './Profiler';
+
+// Lint
+export { lint, expressionComplexity } from './lint';
+export type {
+    LintRule,
+    LintFinding,
+    LintResult,
+    LintOptions,
+} from './lint';
+
 // Guards
 export {
     isLit,
@@ -59,4 +174,48 @@ export type {
     TraversalVisitor,
     NodePredicate,
     SerializedProperty,
+    SerializeOptions,
 } from './PropertyNode';
+
+// History
+export { History } from './History';
+export type {
+    HistoryOptions,
+    HistoryState,
+    HistoryCallback,
+    NodeChange,
+    ValueChange,
+    EntryChange,
+} from './History';
+
+// JSON Patch
+export { diff, applyPatch } from './patch';
+export type { PatchOperation, ApplyPatchOptions } from './patch';
+
+// Dependency tracking
+export { DependencyTracker } from './DependencyTracker';
+export type {
+    ComputedKind,
+    ComputedChange,
+    ComputedChangeCallback,
+} from './DependencyTracker';
+
+// Evaluation cache
+export { EvaluationCache } from './EvaluationCache';
+export type { CacheStats, CacheLookup } from './EvaluationCache';
+
+// Parent index
+export { ParentIndex, parentIndexFor } from './ParentIndex';
+export type { ParentSlot } from './ParentIndex';
+
+// Validation
+export { interpolate } from './validation';
+export type {
+    ValidationSeverity,
+    ValidationIssue,
+    ValidationResult,
+    DeepValidationResult,
+    ValidationState,
+    ValidationStateCallback,
+    ValidateOptions,
+} from './validation';
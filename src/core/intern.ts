@@ -0,0 +1,360 @@
+/**
+ * ============================================================================
+ * INTERNING
+ * ============================================================================
+ * Content hashes and structural sharing for Property trees.
+ *
+ * lit(), ref() and op() allocate a new object on every call, so identical
+ * sub-expressions (the same required check on 80 fields) are unrelated
+ * objects. contentHash() gives a Property a stable hash of its content, and
+ * an InternTable maps equal Properties to one shared instance (hash-consing).
+ *
+ *   const table = new InternTable();
+ *   const a = table.intern(op('isNotBlank', ref('self.value')));
+ *   const b = table.intern(op('isNotBlank', ref('self.value')));
+ *   a === b                       // true
+ *   contentHash(a)                // 16 hex digits, stable across runs
+ *
+ * Everything keyed by identity then shares entries for equal subtrees:
+ * compiled nodes (see compile) and propertyEquals' fast path. toJSON can
+ * emit shared subtrees once (see PropertyNode.toJSON).
+ */
+
+import { Property } from './property';
+import { isExpr, isProperty } from './guards';
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * 64-bit string hash (two 32-bit lanes), as 16 hex digits.
+ */
+const hashString = (text: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Encode a value for hashing. Nested Properties contribute their hash,
+ * object keys are sorted so key order does not matter.
+ */
+const encodeValue = (value: unknown, hashOf: (p: Property) => string): string => {
+    if (value === undefined) return 'u';
+    if (value === null) return 'n';
+    if (isProperty(value)) return `p${hashOf(value)}`;
+    if (Array.isArray(value)) return `[${value.map(item => encodeValue(item, hashOf)).join(',')}]`;
+    if (value instanceof Date) return `t${value.getTime()}`;
+    if (typeof value === 'object') {
+        const entries = Object.keys(value).sort().map(key =>
+            `${JSON.stringify(key)}:${encodeValue((value as Record<string, unknown>)[key], hashOf)}`
+        );
+        return `{${entries.join(',')}}`;
+    }
+    if (typeof value === 'string') return `s${JSON.stringify(value)}`;
+    return `${typeof value}:${String(value)}`;
+};
+
+/**
+ * Encode metadata, constraints or children; absent and empty encode the
+ * same, as propertyEquals does not tell them apart.
+ */
+const encodeEntries = (entries: Record<string, Property> | undefined, hashOf: (p: Property) => string): string =>
+    Object.keys(entries ?? {}).sort().map(key => `${JSON.stringify(key)}=${hashOf(entries![key]!)}`).join(',');
+
+/**
+ * Hash a Property whose nested Properties are hashed by `hashOf`.
+ */
+const hashNode = (property: Property, hashOf: (p: Property) => string): string =>
+    hashString([
+        JSON.stringify(property.id),
+        JSON.stringify(property.type?.id),
+        encodeValue(property.value, hashOf),
+        encodeValue(property.defaultValue, hashOf),
+        encodeEntries(property.metadata, hashOf),
+        encodeEntries(property.constraints, hashOf),
+        encodeEntries(property.children, hashOf),
+    ].join('|'));
+
+/**
+ * Hash function memoized in `hashes`, so shared subtrees are hashed once.
+ */
+const memoizedHash = (hashes: Map<Property, string>): ((p: Property) => string) => {
+    const hashOf = (property: Property): string => {
+        let hash = hashes.get(property);
+        if (hash === undefined) {
+            hash = hashNode(property, hashOf);
+            hashes.set(property, hash);
+        }
+        return hash;
+    };
+    return hashOf;
+};
+
+/**
+ * Stable content hash of a Property: its id, type id, value, default value,
+ * metadata, constraints and children, nested Properties included.
+ * Properties that are propertyEquals have the same hash.
+ */
+export const contentHash = (property: Property): string =>
+    memoizedHash(new Map())(property);
+
+// ============================================================================
+// EQUALITY
+// ============================================================================
+
+const entriesEqual = (
+    a: Record<string, Property> | undefined,
+    b: Record<string, Property> | undefined
+): boolean => {
+    const aKeys = a ? Object.keys(a) : [];
+    const bKeys = b ? Object.keys(b) : [];
+    if (aKeys.length !== bKeys.length) return false;
+    return aKeys.every(key => b?.[key] !== undefined && propertyEquals(a![key]!, b[key]!));
+};
+
+/**
+ * Check if two values are equal (deeply; nested Properties by content).
+ */
+export const valueEquals = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (a === null || b === null) return false;
+    if (a === undefined || b === undefined) return false;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        if (a.length !== b.length) return false;
+        return a.every((v, i) => valueEquals(v, b[i]));
+    }
+
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+
+    if (typeof a === 'object' && typeof b === 'object') {
+        if (isProperty(a) && isProperty(b)) {
+            return propertyEquals(a, b);
+        }
+        const aKeys = Object.keys(a);
+        const bKeys = Object.keys(b);
+        if (aKeys.length !== bKeys.length) return false;
+        return aKeys.every(key =>
+            valueEquals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+        );
+    }
+
+    return false;
+};
+
+/**
+ * Check if two Properties have the same content.
+ * Shared (interned) subtrees compare by identity.
+ */
+export const propertyEquals = (a: Property, b: Property): boolean => {
+    if (a === b) return true;
+    if (a.id !== b.id) return false;
+    if (a.type.id !== b.type.id) return false;
+    if (!valueEquals(a.value, b.value)) return false;
+    if (!valueEquals(a.defaultValue, b.defaultValue)) return false;
+    return entriesEqual(a.children, b.children)
+        && entriesEqual(a.metadata, b.metadata)
+        && entriesEqual(a.constraints, b.constraints);
+};
+
+// ============================================================================
+// INTERN TABLE
+// ============================================================================
+
+type Entries = Record<string, Property>;
+
+/**
+ * InternTable - Maps equal Properties to one shared instance.
+ *
+ * intern() interns nested Properties first, so equal subtrees end up as the
+ * same object. Interned Properties are shared: treat them as immutable.
+ * Intern expressions and definitions (constraints, metadata), not tree
+ * nodes - a child held by two parents has no single parent.
+ */
+export class InternTable {
+    private readonly buckets = new Map<string, Property[]>();
+    private readonly hashes = new Map<Property, string>();
+    private count = 0;
+
+    /**
+     * Number of distinct Properties interned.
+     */
+    get size(): number {
+        return this.count;
+    }
+
+    /**
+     * Get the shared instance of a Property, adding it if it is new.
+     * Returns the Property itself, or a copy with interned nested Properties.
+     */
+    intern<T extends Property>(property: T): T {
+        if (this.isInterned(property)) return property;
+
+        const candidate = this.withInternedParts(property);
+        const hash = hashNode(candidate, (p) => this.hash(p));
+        const bucket = this.buckets.get(hash);
+        const existing = bucket?.find(p => propertyEquals(p, candidate));
+        if (existing) return existing as T;
+
+        if (bucket) bucket.push(candidate);
+        else this.buckets.set(hash, [candidate]);
+        this.hashes.set(candidate, hash);
+        this.count++;
+        return candidate;
+    }
+
+    /**
+     * Check if a Property is a shared instance of this table.
+     */
+    isInterned(property: Property): boolean {
+        return this.buckets.get(this.hashes.get(property) ?? '')?.includes(property) ?? false;
+    }
+
+    /**
+     * Content hash of a Property (cached for interned ones).
+     */
+    hash(property: Property): string {
+        return this.hashes.get(property) ?? contentHash(property);
+    }
+
+    /**
+     * Drop every interned Property.
+     */
+    clear(): void {
+        this.buckets.clear();
+        this.hashes.clear();
+        this.count = 0;
+    }
+
+    private withInternedParts<T extends Property>(property: T): T {
+        const value = isProperty(property.value) ? this.intern(property.value) : property.value;
+        const defaultValue = isProperty(property.defaultValue)
+            ? this.intern(property.defaultValue)
+            : property.defaultValue;
+        const metadata = this.internEntries(property.metadata);
+        const constraints = this.internEntries(property.constraints);
+        const children = this.internEntries(property.children);
+
+        const unchanged = value === property.value
+            && defaultValue === property.defaultValue
+            && metadata === property.metadata
+            && constraints === property.constraints
+            && children === property.children;
+        if (unchanged) return property;
+
+        const copy: Property = { ...property };
+        if (value !== undefined) copy.value = value;
+        if (defaultValue !== undefined) copy.defaultValue = defaultValue;
+        if (metadata) copy.metadata = metadata;
+        if (constraints) copy.constraints = constraints;
+        if (children) copy.children = children;
+        return copy as T;
+    }
+
+    /**
+     * Intern the Properties of a collection (the same object if none changed).
+     */
+    private internEntries(entries: Entries | undefined): Entries | undefined {
+        if (!entries) return entries;
+        let result: Entries | undefined;
+        for (const [key, entry] of Object.entries(entries)) {
+            const interned = this.intern(entry);
+            if (interned !== entry) {
+                result ??= { ...entries };
+                result[key] = interned;
+            }
+        }
+        return result ?? entries;
+    }
+}
+
+// ============================================================================
+// SHARED SUBTREES
+// ============================================================================
+
+/**
+ * Subtrees of a tree that occur more than once.
+ */
+export interface SharedSubtrees {
+    /** Content hash of every Property visited (but those whose hash collides with an unequal one) */
+    readonly hashes: Map<Property, string>;
+    /** Hashes of the subtrees that occur more than once */
+    readonly shared: Set<string>;
+}
+
+/**
+ * Check if a Property can be shared between holders: not a leaf
+ * (nothing to gain) and not a tree node (it needs a single parent).
+ */
+const isShareable = (property: Property, isTreeNode: boolean): boolean =>
+    !isTreeNode && (
+        hasEntries(property.children)
+        || hasEntries(property.metadata)
+        || hasEntries(property.constraints)
+        || isProperty(property.value)
+    );
+
+const hasEntries = (entries: Record<string, Property> | undefined): boolean =>
+    entries !== undefined && Object.keys(entries).length > 0;
+
+/**
+ * Find the subtrees under a root that occur more than once.
+ *
+ * Occurrences inside a repeated subtree are not counted again, so only the
+ * outermost repeated subtrees are shared. Tree nodes (children of
+ * Properties that are not expressions) and leaves are never shared.
+ * A subtree only counts as a repeat when it is propertyEquals to the
+ * first one with its hash; one that merely has the same hash is kept
+ * out of `hashes`, so it is written out in full.
+ */
+export const findSharedSubtrees = (root: Property): SharedSubtrees => {
+    const hashes = new Map<Property, string>();
+    const hashOf = memoizedHash(hashes);
+    const seen = new Map<string, Property>();
+    const shared = new Set<string>();
+
+    const visitValue = (value: unknown): void => {
+        if (isProperty(value)) {
+            visit(value, false);
+        } else if (Array.isArray(value)) {
+            value.forEach(visitValue);
+        } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+            Object.values(value).forEach(visitValue);
+        }
+    };
+
+    const visit = (property: Property, isTreeNode: boolean): void => {
+        if (isShareable(property, isTreeNode)) {
+            const hash = hashOf(property);
+            const first = seen.get(hash);
+            if (!first) {
+                seen.set(hash, property);
+            } else if (propertyEquals(first, property)) {
+                shared.add(hash);
+                return;
+            } else {
+                hashes.delete(property);
+            }
+        }
+        visitValue(property.value);
+        visitValue(property.defaultValue);
+        for (const entry of Object.values(property.metadata ?? {})) visit(entry, false);
+        for (const entry of Object.values(property.constraints ?? {})) visit(entry, false);
+        const childrenAreNodes = !isExpr(property);
+        for (const child of Object.values(property.children ?? {})) visit(child, childrenAreNodes);
+    };
+
+    visit(root, true);
+    return { hashes, shared };
+};
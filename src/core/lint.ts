@@ -0,0 +1,250 @@
+/**
+ * ============================================================================
+ * LINT
+ * ============================================================================
+ * Tree linter for problems that only surface at runtime.
+ *
+ * Rules:
+ * - dangling-ref:     a ref path that does not resolve in the tree
+ * - unknown-operator: an op name missing from the registry
+ * - empty-constraint: a constraint without a value (it always passes)
+ * - duplicate-id:     sibling children sharing the same id
+ * - complexity:       an expression larger than the complexity budget
+ * - circular-ref:     references that lead back to themselves
+ */
+
+import { Property } from './property';
+import { Registry } from './Registry';
+import { isOp } from './guards';
+import type { PropertyNode } from './PropertyNode';
+import { expressionsOf, ExpressionSite } from './expressions';
+import { checkExpression, referencesOf, TypeIssueCode } from './typecheck';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Rule ids reported by lint().
+ */
+export type LintRule =
+    | 'dangling-ref'
+    | 'unknown-operator'
+    | 'empty-constraint'
+    | 'duplicate-id'
+    | 'complexity'
+    | 'circular-ref';
+
+/**
+ * A problem found by lint().
+ */
+export interface LintFinding {
+    readonly rule: LintRule;
+    /** Location from the tree root, e.g. ['email', 'constraints', 'format'] */
+    readonly path: string[];
+    /** Message prefixed with the location */
+    readonly message: string;
+}
+
+/**
+ * Result of lint().
+ */
+export interface LintResult {
+    readonly valid: boolean;
+    readonly findings: LintFinding[];
+}
+
+/**
+ * Options for lint().
+ */
+export interface LintOptions {
+    /** Turn rules off with `{ 'complexity': false }` (all are on by default) */
+    readonly rules?: Partial<Record<LintRule, boolean>>;
+    /** Maximum number of lit/ref/op nodes in one expression (default 50) */
+    readonly maxComplexity?: number;
+    /** Names bound at evaluation time (e.g. by withBindings), not reported as dangling */
+    readonly bindings?: readonly string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DEFAULT_MAX_COMPLEXITY = 50;
+
+const EXPRESSION_RULES: Partial<Record<TypeIssueCode, LintRule>> = {
+    'unresolved-ref': 'dangling-ref',
+    'unknown-operator': 'unknown-operator',
+};
+
+const finding = (rule: LintRule, path: string[], text: string): LintFinding => ({
+    rule,
+    path,
+    message: `${path.join('.') || 'root'}: ${text}`,
+});
+
+/**
+ * Count the lit/ref/op nodes of an expression.
+ */
+export const expressionComplexity = (expr: Property): number => {
+    if (!isOp(expr) || !expr.children) return 1;
+    let total = 1;
+    for (const arg of Object.values(expr.children)) {
+        total += expressionComplexity(arg);
+    }
+    return total;
+};
+
+// ============================================================================
+// CYCLES
+// ============================================================================
+
+interface SiteNode {
+    readonly site: ExpressionSite;
+    edges?: SiteNode[];
+}
+
+/**
+ * Every expression site of a tree, indexed by expression and self.
+ */
+const indexSites = (root: Property): Map<Property, Map<Property, SiteNode>> => {
+    const index = new Map<Property, Map<Property, SiteNode>>();
+    const visit = (property: Property, path: string[]): void => {
+        for (const site of expressionsOf(property, path)) {
+            let owners = index.get(site.expr);
+            if (!owners) {
+                owners = new Map();
+                index.set(site.expr, owners);
+            }
+            owners.set(site.self, { site });
+        }
+        for (const [key, child] of Object.entries(property.children ?? {})) {
+            visit(child, [...path, key]);
+        }
+    };
+    visit(root, []);
+    return index;
+};
+
+/**
+ * Find reference cycles through the sites under `path`, statically.
+ * Each cycle is reported once, at the first of its sites reached.
+ */
+const findCycles = (
+    root: Property,
+    path: string[],
+    registry: Registry,
+    options: LintOptions
+): LintFinding[] => {
+    const index = indexSites(root);
+    const edgesOf = (node: SiteNode): SiteNode[] =>
+        node.edges ??= referencesOf(node.site, root, registry, options)
+            .map(({ expr, owner }) => index.get(expr)?.get(owner))
+            .filter((target): target is SiteNode => target !== undefined);
+
+    const findings: LintFinding[] = [];
+    const reported = new Set<string>();
+    const done = new Set<SiteNode>();
+    const stack: SiteNode[] = [];
+
+    const visit = (node: SiteNode): void => {
+        stack.push(node);
+        for (const target of edgesOf(node)) {
+            const start = stack.indexOf(target);
+            if (start >= 0) {
+                const cycle = [...stack.slice(start), target].map(n => n.site.path.join('.'));
+                const key = [...new Set(cycle)].sort().join('|');
+                if (!reported.has(key)) {
+                    reported.add(key);
+                    findings.push(finding('circular-ref', target.site.path,
+                        `Circular reference: ${cycle.join(' -> ')}`));
+                }
+            } else if (!done.has(target)) {
+                visit(target);
+            }
+        }
+        stack.pop();
+        done.add(node);
+    };
+
+    for (const owners of index.values()) {
+        for (const node of owners.values()) {
+            const inside = path.every((segment, i) => node.site.path[i] === segment);
+            if (inside && !done.has(node)) visit(node);
+        }
+    }
+    return findings;
+};
+
+// ============================================================================
+// LINT
+// ============================================================================
+
+/**
+ * Lint a node and its descendants.
+ * Paths are reported from the tree root, like validation issues.
+ *
+ * @example
+ * const { valid, findings } = lint(form, registry);
+ * if (!valid) {
+ *     console.error(findings.map(f => `[${f.rule}] ${f.message}`).join('\n'));
+ *     process.exit(1);
+ * }
+ */
+export const lint = (node: PropertyNode, registry: Registry, options: LintOptions = {}): LintResult => {
+    const findings: LintFinding[] = [];
+    const root = node.root.getProperty();
+    const maxComplexity = options.maxComplexity ?? DEFAULT_MAX_COMPLEXITY;
+    const enabled = (rule: LintRule): boolean => options.rules?.[rule] !== false;
+
+    node.traverse((current) => {
+        const property = current.getProperty();
+        const path = current.path();
+
+        // Expressions: refs, operators and size
+        for (const site of expressionsOf(property, path)) {
+            for (const issue of checkExpression(site, root, registry, options)) {
+                const rule = EXPRESSION_RULES[issue.code];
+                if (rule && enabled(rule)) {
+                    findings.push({ rule, path: issue.path, message: issue.message });
+                }
+            }
+
+            const complexity = expressionComplexity(site.expr);
+            if (enabled('complexity') && complexity > maxComplexity) {
+                findings.push(finding('complexity', site.path,
+                    `Expression complexity ${complexity} exceeds ${maxComplexity}`));
+            }
+        }
+
+        // Constraints without a value always pass
+        if (enabled('empty-constraint') && property.constraints) {
+            for (const [key, constraint] of Object.entries(property.constraints)) {
+                if (constraint.value === undefined) {
+                    findings.push(finding('empty-constraint', [...path, 'constraints', key],
+                        `Constraint ${key} has no value`));
+                }
+            }
+        }
+
+        // Sibling ids must be unique
+        if (enabled('duplicate-id') && property.children) {
+            const keysById = new Map<string, string>();
+            for (const [key, child] of Object.entries(property.children)) {
+                const first = keysById.get(child.id);
+                if (first !== undefined) {
+                    findings.push(finding('duplicate-id', [...path, key],
+                        `Child id '${child.id}' is also used by ${first}`));
+                } else {
+                    keysById.set(child.id, key);
+                }
+            }
+        }
+    });
+
+    if (enabled('circular-ref')) {
+        findings.push(...findCycles(root, node.path(), registry, options));
+    }
+
+    return { valid: findings.length === 0, findings };
+};
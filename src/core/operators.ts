@@ -0,0 +1,541 @@
+/**
+ * ============================================================================
+ * STANDARD OPERATORS
+ * ============================================================================
+ * The operator library shared by every application.
+ * Arithmetic, comparison, logic, string, null handling, type coercion
+ * and collection operators.
+ *
+ * Strict operators evaluate all their arguments first.
+ * Lazy operators (if, and, or, coalesce) only evaluate what they need.
+ * Higher-order operators (map, filter, reduce, ...) evaluate their body
+ * once per element with `item`, `index` and `acc` bound.
+ *
+ * Every standard operator has a sync implementation, so expressions built
+ * from them take the evaluateSync fast path.
+ */
+
+import { Property } from './property';
+import { Registry, RegistryOptions, OperatorFn, SyncOperatorFn, OperatorSignature, EvaluationContext } from './Registry';
+import { evaluate, evaluateSync, evalArgs, evalArgsSync, createLoopContext, checkCollectionSize } from './Evaluator';
+import { matchesType, listOf, ANY, NUMBER, BOOLEAN, LIST, STRING as TEXT } from './schema';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * A standard operator with both an async and a sync implementation.
+ */
+interface StandardOperator {
+    readonly fn: OperatorFn;
+    readonly sync: SyncOperatorFn;
+}
+
+/**
+ * Argument evaluation requested by a lazy operator body.
+ */
+type EvalRequest = readonly [Property, EvaluationContext];
+
+/**
+ * Operator body written once for both evaluation modes.
+ * `yield [arg, ctx]` evaluates an argument and resumes with its value.
+ */
+type LazyBody<T = unknown> = Generator<EvalRequest, T, unknown>;
+
+/**
+ * Build an operator that evaluates all arguments before applying `fn`.
+ */
+const strict = (fn: (...values: unknown[]) => unknown): StandardOperator => ({
+    fn: async (args, ctx) => fn(...await evalArgs(args, ctx)),
+    sync: (args, ctx) => fn(...evalArgsSync(args, ctx)),
+});
+
+/**
+ * Build an operator that decides which arguments to evaluate.
+ * The body is driven by evaluate() or evaluateSync() depending on the mode.
+ */
+const lazy = (body: (args: Property[], ctx: EvaluationContext) => LazyBody): StandardOperator => ({
+    fn: async (args, ctx) => {
+        const gen = body(args, ctx);
+        let step = gen.next();
+        while (!step.done) {
+            const [arg, argCtx] = step.value;
+            step = gen.next(await evaluate(arg, argCtx));
+        }
+        return step.value;
+    },
+    sync: (args, ctx) => {
+        const gen = body(args, ctx);
+        let step = gen.next();
+        while (!step.done) {
+            const [arg, argCtx] = step.value;
+            step = gen.next(evaluateSync(arg, argCtx));
+        }
+        return step.value;
+    },
+});
+
+const toNum = (value: unknown): number => {
+    if (value === null || value === undefined || value === '') return 0;
+    return typeof value === 'number' ? value : Number(value);
+};
+
+const isNil = (value: unknown): value is null | undefined =>
+    value === null || value === undefined;
+
+const asArray = (value: unknown): unknown[] =>
+    Array.isArray(value) ? value : isNil(value) ? [] : [value];
+
+/**
+ * Flatten variadic arguments so `max(1, 2)` and `max([1, 2])` both work.
+ */
+const numbers = (values: unknown[]): number[] =>
+    values.flatMap(v => asArray(v)).filter(v => !isNil(v)).map(toNum);
+
+const isEmptyValue = (value: unknown): boolean => {
+    if (isNil(value)) return true;
+    if (typeof value === 'string') return value.length === 0;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value).length === 0;
+    return false;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[\d\s\-+()]{10,}$/;
+
+// ============================================================================
+// ARITHMETIC OPERATORS
+// ============================================================================
+
+const ARITHMETIC: Record<string, StandardOperator> = {
+    add: strict((...values) => values.reduce<number>((sum, v) => sum + toNum(v), 0)),
+    sub: strict((a, b) => toNum(a) - toNum(b)),
+    mul: strict((...values) => values.reduce<number>((acc, v) => acc * toNum(v), 1)),
+    div: strict((a, b) => toNum(b) !== 0 ? toNum(a) / toNum(b) : 0),
+    mod: strict((a, b) => toNum(b) !== 0 ? toNum(a) % toNum(b) : 0),
+    pow: strict((a, b) => toNum(a) ** toNum(b)),
+    neg: strict((a) => -toNum(a)),
+    abs: strict((a) => Math.abs(toNum(a))),
+    floor: strict((a) => Math.floor(toNum(a))),
+    ceil: strict((a) => Math.ceil(toNum(a))),
+    round: strict((a, digits) => {
+        const factor = 10 ** toNum(digits);
+        return Math.round(toNum(a) * factor) / factor;
+    }),
+    min: strict((...values) => {
+        const nums = numbers(values);
+        return nums.length > 0 ? Math.min(...nums) : null;
+    }),
+    max: strict((...values) => {
+        const nums = numbers(values);
+        return nums.length > 0 ? Math.max(...nums) : null;
+    }),
+};
+
+// ============================================================================
+// COMPARISON OPERATORS
+// ============================================================================
+
+const COMPARISON: Record<string, StandardOperator> = {
+    eq: strict((a, b) => a === b),
+    neq: strict((a, b) => a !== b),
+    lt: strict((a, b) => (a as number) < (b as number)),
+    lte: strict((a, b) => (a as number) <= (b as number)),
+    gt: strict((a, b) => (a as number) > (b as number)),
+    gte: strict((a, b) => (a as number) >= (b as number)),
+};
+
+// ============================================================================
+// LOGIC OPERATORS (lazy)
+// ============================================================================
+
+const LOGIC: Record<string, StandardOperator> = {
+    and: lazy(function* (args, ctx) {
+        for (const arg of args) {
+            if (!(yield [arg, ctx])) return false;
+        }
+        return true;
+    }),
+    or: lazy(function* (args, ctx) {
+        for (const arg of args) {
+            if (yield [arg, ctx]) return true;
+        }
+        return false;
+    }),
+    not: strict((a) => !a),
+    if: lazy(function* (args, ctx) {
+        const branch = (yield [args[0]!, ctx]) ? args[1] : args[2];
+        return branch ? yield [branch, ctx] : null;
+    }),
+};
+
+// ============================================================================
+// STRING OPERATORS
+// ============================================================================
+
+const STRING: Record<string, StandardOperator> = {
+    concat: strict((...values) => values.map(v => v ?? '').join('')),
+    strlen: strict((s) => typeof s === 'string' ? s.length : 0),
+    upper: strict((s) => typeof s === 'string' ? s.toUpperCase() : ''),
+    lower: strict((s) => typeof s === 'string' ? s.toLowerCase() : ''),
+    trim: strict((s) => typeof s === 'string' ? s.trim() : ''),
+    startsWith: strict((s, prefix) =>
+        typeof s === 'string' && typeof prefix === 'string' && s.startsWith(prefix)),
+    endsWith: strict((s, suffix) =>
+        typeof s === 'string' && typeof suffix === 'string' && s.endsWith(suffix)),
+    substring: strict((s, start, end) => typeof s === 'string'
+        ? s.substring(toNum(start), isNil(end) ? undefined : toNum(end))
+        : ''),
+    replace: strict((s, search, replacement) => typeof s === 'string'
+        ? s.split(String(search ?? '')).join(String(replacement ?? ''))
+        : ''),
+    split: strict((s, separator) =>
+        typeof s === 'string' ? s.split(String(separator ?? '')) : []),
+    matches: strict((s, pattern) =>
+        typeof s === 'string' && new RegExp(String(pattern)).test(s)),
+    isNotBlank: strict((s) => typeof s === 'string' && s.trim().length > 0),
+    isEmail: strict((s) => typeof s === 'string' && EMAIL_PATTERN.test(s)),
+    isPhone: strict((s) => typeof s === 'string' && PHONE_PATTERN.test(s)),
+};
+
+// ============================================================================
+// NULL HANDLING OPERATORS
+// ============================================================================
+
+const NULL_HANDLING: Record<string, StandardOperator> = {
+    isNull: strict((a) => isNil(a)),
+    isNotNull: strict((a) => !isNil(a)),
+    isEmpty: strict((a) => isEmptyValue(a)),
+    isNotEmpty: strict((a) => !isEmptyValue(a)),
+    coalesce: lazy(function* (args, ctx) {
+        for (const arg of args) {
+            const value = yield [arg, ctx];
+            if (!isNil(value)) return value;
+        }
+        return null;
+    }),
+};
+
+// ============================================================================
+// TYPE COERCION OPERATORS
+// ============================================================================
+
+const COERCION: Record<string, StandardOperator> = {
+    toNumber: strict((a) => {
+        const n = typeof a === 'number' ? a : Number(a);
+        return isNil(a) || a === '' || Number.isNaN(n) ? null : n;
+    }),
+    toString: strict((a) => String(a ?? '')),
+    toBoolean: strict((a) => a === 'false' ? false : Boolean(a)),
+    typeOf: strict((a) => a === null ? 'null' : Array.isArray(a) ? 'array' : typeof a),
+    // Checks a value against the schema type of the current property
+    isOfType: {
+        fn: async (args, ctx) =>
+            matchesType(args[0] ? await evaluate(args[0], ctx) : undefined, ctx.current.type),
+        sync: (args, ctx) =>
+            matchesType(args[0] ? evaluateSync(args[0], ctx) : undefined, ctx.current.type),
+    },
+};
+
+// ============================================================================
+// COLLECTION OPERATORS
+// ============================================================================
+
+const COLLECTION: Record<string, StandardOperator> = {
+    list: strict((...values) => values),
+    length: strict((a) =>
+        Array.isArray(a) || typeof a === 'string' ? a.length : isNil(a) ? 0 : 1),
+    at: strict((a, i) => {
+        const items = asArray(a);
+        const index = toNum(i);
+        return items[index < 0 ? items.length + index : index] ?? null;
+    }),
+    first: strict((a) => asArray(a)[0] ?? null),
+    last: strict((a) => {
+        const items = asArray(a);
+        return items[items.length - 1] ?? null;
+    }),
+    includes: strict((a, item) =>
+        typeof a === 'string' ? typeof item === 'string' && a.includes(item) : asArray(a).includes(item)),
+    indexOf: strict((a, item) => asArray(a).indexOf(item)),
+    sum: strict((...values) => numbers(values).reduce((s, n) => s + n, 0)),
+    avg: strict((...values) => {
+        const nums = numbers(values);
+        return nums.length > 0 ? nums.reduce((s, n) => s + n, 0) / nums.length : null;
+    }),
+    join: strict((a, separator) =>
+        asArray(a).map(v => v ?? '').join(isNil(separator) ? ',' : String(separator))),
+    slice: strict((a, start, end) =>
+        asArray(a).slice(toNum(start), isNil(end) ? undefined : toNum(end))),
+    reverse: strict((a) => [...asArray(a)].reverse()),
+    unique: strict((a) => [...new Set(asArray(a))]),
+    flatten: strict((a) => asArray(a).flat()),
+    get: strict((obj, key) => {
+        if (isNil(obj) || typeof obj !== 'object') return null;
+        return (obj as Record<string, unknown>)[String(key)] ?? null;
+    }),
+    keys: strict((obj) =>
+        obj && typeof obj === 'object' && !Array.isArray(obj) ? Object.keys(obj) : []),
+    values: strict((obj) =>
+        obj && typeof obj === 'object' && !Array.isArray(obj) ? Object.values(obj) : []),
+};
+
+// ============================================================================
+// HIGHER-ORDER OPERATORS
+// ============================================================================
+
+/**
+ * Evaluate the body in `args[1]` once per element of the collection in `args[0]`.
+ * `item` and `index` are bound for the body; a ref to `children` yields the
+ * child Properties, so `ref('item.value')` reads each child.
+ * `visit` receives each element with its body result and returns false to stop.
+ */
+function* eachItem(
+    args: Property[],
+    ctx: EvaluationContext,
+    visit: (item: unknown, result: unknown) => boolean | void
+): LazyBody<void> {
+    const items = asArray(yield [args[0]!, ctx]);
+    checkCollectionSize(items, ctx);
+    const body = args[1];
+    const { loopCtx, bindings } = createLoopContext(ctx);
+
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        bindings.item = item;
+        bindings.index = i;
+        const result = body ? yield [body, loopCtx] : item;
+        if (visit(item, result) === false) return;
+    }
+}
+
+const compare = (a: unknown, b: unknown): number => {
+    if (a === b) return 0;
+    if (isNil(a)) return 1;
+    if (isNil(b)) return -1;
+    return (a as number) < (b as number) ? -1 : 1;
+};
+
+const HIGHER_ORDER: Record<string, StandardOperator> = {
+    map: lazy(function* (args, ctx) {
+        const result: unknown[] = [];
+        yield* eachItem(args, ctx, (_, value) => {
+            result.push(value);
+        });
+        return result;
+    }),
+    filter: lazy(function* (args, ctx) {
+        const result: unknown[] = [];
+        yield* eachItem(args, ctx, (item, keep) => {
+            if (keep) result.push(item);
+        });
+        return result;
+    }),
+    find: lazy(function* (args, ctx) {
+        let match: unknown = null;
+        yield* eachItem(args, ctx, (item, matches) => {
+            if (matches) {
+                match = item;
+                return false;
+            }
+        });
+        return match;
+    }),
+    some: lazy(function* (args, ctx) {
+        let result = false;
+        yield* eachItem(args, ctx, (_, matches) => {
+            if (matches) {
+                result = true;
+                return false;
+            }
+        });
+        return result;
+    }),
+    every: lazy(function* (args, ctx) {
+        let result = true;
+        yield* eachItem(args, ctx, (_, matches) => {
+            if (!matches) {
+                result = false;
+                return false;
+            }
+        });
+        return result;
+    }),
+    count: lazy(function* (args, ctx) {
+        let n = 0;
+        yield* eachItem(args, ctx, (_, matches) => {
+            if (matches) n++;
+        });
+        return n;
+    }),
+    reduce: lazy(function* (args, ctx) {
+        const items = asArray(yield [args[0]!, ctx]);
+        checkCollectionSize(items, ctx);
+        let acc = args[2] ? yield [args[2], ctx] : null;
+        const { loopCtx, bindings } = createLoopContext(ctx);
+
+        for (let i = 0; i < items.length; i++) {
+            bindings.acc = acc;
+            bindings.item = items[i];
+            bindings.index = i;
+            acc = yield [args[1]!, loopCtx];
+        }
+        return acc;
+    }),
+    sort: lazy(function* (args, ctx) {
+        const keyed: Array<{ item: unknown; key: unknown }> = [];
+        yield* eachItem(args, ctx, (item, key) => {
+            keyed.push({ item, key });
+        });
+        const descending = args[2] ? Boolean(yield [args[2], ctx]) : false;
+        keyed.sort((a, b) => descending ? compare(b.key, a.key) : compare(a.key, b.key));
+        return keyed.map(k => k.item);
+    }),
+};
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+const unary = (arg: Property, returns: Property): OperatorSignature => ({ args: [arg], returns });
+const binary = (a: Property, b: Property, returns: Property): OperatorSignature => ({ args: [a, b], returns });
+
+/**
+ * Argument and return types of the standard operators, for typecheck().
+ * Operators that coerce or accept mixed input take ANY.
+ */
+const SIGNATURES: Record<string, OperatorSignature> = {
+    // Arithmetic
+    add: { rest: NUMBER, returns: NUMBER },
+    sub: binary(NUMBER, NUMBER, NUMBER),
+    mul: { rest: NUMBER, returns: NUMBER },
+    div: binary(NUMBER, NUMBER, NUMBER),
+    mod: binary(NUMBER, NUMBER, NUMBER),
+    pow: binary(NUMBER, NUMBER, NUMBER),
+    neg: unary(NUMBER, NUMBER),
+    abs: unary(NUMBER, NUMBER),
+    floor: unary(NUMBER, NUMBER),
+    ceil: unary(NUMBER, NUMBER),
+    round: { args: [NUMBER, NUMBER], required: 1, returns: NUMBER },
+    min: { rest: ANY, returns: NUMBER },
+    max: { rest: ANY, returns: NUMBER },
+
+    // Comparison
+    eq: binary(ANY, ANY, BOOLEAN),
+    neq: binary(ANY, ANY, BOOLEAN),
+    lt: binary(ANY, ANY, BOOLEAN),
+    lte: binary(ANY, ANY, BOOLEAN),
+    gt: binary(ANY, ANY, BOOLEAN),
+    gte: binary(ANY, ANY, BOOLEAN),
+
+    // Logic
+    and: { rest: ANY, returns: BOOLEAN },
+    or: { rest: ANY, returns: BOOLEAN },
+    not: unary(ANY, BOOLEAN),
+    if: { args: [ANY, ANY, ANY], required: 2 },
+
+    // String
+    concat: { rest: ANY, returns: TEXT },
+    strlen: unary(TEXT, NUMBER),
+    upper: unary(TEXT, TEXT),
+    lower: unary(TEXT, TEXT),
+    trim: unary(TEXT, TEXT),
+    startsWith: binary(TEXT, TEXT, BOOLEAN),
+    endsWith: binary(TEXT, TEXT, BOOLEAN),
+    substring: { args: [TEXT, NUMBER, NUMBER], required: 2, returns: TEXT },
+    replace: { args: [TEXT, TEXT, TEXT], returns: TEXT },
+    split: { args: [TEXT, TEXT], required: 1, returns: listOf(TEXT) },
+    matches: binary(TEXT, TEXT, BOOLEAN),
+    isNotBlank: unary(TEXT, BOOLEAN),
+    isEmail: unary(TEXT, BOOLEAN),
+    isPhone: unary(TEXT, BOOLEAN),
+
+    // Null handling
+    isNull: unary(ANY, BOOLEAN),
+    isNotNull: unary(ANY, BOOLEAN),
+    isEmpty: unary(ANY, BOOLEAN),
+    isNotEmpty: unary(ANY, BOOLEAN),
+    coalesce: { rest: ANY },
+
+    // Type coercion
+    toNumber: unary(ANY, NUMBER),
+    toString: unary(ANY, TEXT),
+    toBoolean: unary(ANY, BOOLEAN),
+    typeOf: unary(ANY, TEXT),
+    isOfType: unary(ANY, BOOLEAN),
+
+    // Collection
+    list: { rest: ANY, returns: LIST },
+    length: unary(ANY, NUMBER),
+    at: { args: [ANY, NUMBER] },
+    first: { args: [ANY] },
+    last: { args: [ANY] },
+    includes: binary(ANY, ANY, BOOLEAN),
+    indexOf: binary(ANY, ANY, NUMBER),
+    sum: { rest: ANY, returns: NUMBER },
+    avg: { rest: ANY, returns: NUMBER },
+    join: { args: [ANY, TEXT], required: 1, returns: TEXT },
+    slice: { args: [ANY, NUMBER, NUMBER], required: 1, returns: LIST },
+    reverse: unary(ANY, LIST),
+    unique: unary(ANY, LIST),
+    flatten: unary(ANY, LIST),
+    get: { args: [ANY, TEXT] },
+    keys: unary(ANY, listOf(TEXT)),
+    values: unary(ANY, LIST),
+
+    // Higher-order (the body sees item and index)
+    map: { args: [ANY, ANY], required: 1, binds: ['item', 'index'], returns: LIST },
+    filter: { args: [ANY, ANY], required: 1, binds: ['item', 'index'], returns: LIST },
+    find: { args: [ANY, ANY], required: 1, binds: ['item', 'index'] },
+    some: { args: [ANY, ANY], required: 1, binds: ['item', 'index'], returns: BOOLEAN },
+    every: { args: [ANY, ANY], required: 1, binds: ['item', 'index'], returns: BOOLEAN },
+    count: { args: [ANY, ANY], required: 1, binds: ['item', 'index'], returns: NUMBER },
+    reduce: { args: [ANY, ANY, ANY], required: 2, binds: ['item', 'index', 'acc'] },
+    sort: { args: [ANY, ANY, ANY], required: 1, binds: ['item', 'index'], returns: LIST },
+};
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * All standard operators, grouped by category.
+ */
+const STANDARD_OPERATORS: Record<string, StandardOperator> = {
+    ...ARITHMETIC,
+    ...COMPARISON,
+    ...LOGIC,
+    ...STRING,
+    ...NULL_HANDLING,
+    ...COERCION,
+    ...COLLECTION,
+    ...HIGHER_ORDER,
+};
+
+/**
+ * Register the standard operator library on an existing registry.
+ * Operators already registered under the same name are replaced.
+ *
+ * @example
+ * const registry = registerStandardOperators(createRegistry());
+ * registry.register('t', translate); // add app-specific operators on top
+ */
+export const registerStandardOperators = (registry: Registry): Registry => {
+    for (const [name, { fn, sync }] of Object.entries(STANDARD_OPERATORS)) {
+        registry.register(name, fn, { sync, signature: SIGNATURES[name] });
+    }
+    return registry;
+};
+
+/**
+ * Create a new registry pre-loaded with the standard operators.
+ */
+export const createStandardRegistry = (options?: RegistryOptions): Registry =>
+    registerStandardOperators(new Registry(options));
+
+/**
+ * Get the names of all standard operators.
+ */
+export const standardOperatorNames = (): string[] =>
+    Object.keys(STANDARD_OPERATORS);
@@ -0,0 +1,567 @@
+/**
+ * ============================================================================
+ * EXPRESSION LANGUAGE
+ * ============================================================================
+ * Infix formula syntax for lit/ref/op trees.
+ *
+ *   parse("self.value > 18 && parent.country.value == 'FR'")
+ *   // op('and', op('gt', ref('self.value'), lit(18)),
+ *   //           op('eq', ref('parent.country.value'), lit('FR')))
+ *
+ * Precedence, lowest first:
+ *   c ? a : b                    if
+ *   ||                           or
+ *   &&                           and
+ *   ==  !=                       eq, neq
+ *   <  <=  >  >=                 lt, lte, gt, gte
+ *   +  -                         add, sub
+ *   *  /  %                      mul, div, mod
+ *   !x  -x                       not, neg
+ *   **                           pow (right-associative)
+ *
+ * Literals: 42, 1.5e3, 'text', "text", true, false, null, [1, 2], { a: 1 }
+ * Paths:    self.value, parent.name.value, root.metadata.config, item
+ *           root.discount?.value (optional segment, see ref())
+ * Calls:    name(arg, ...) for any operator, e.g. concat(first, ' ', last)
+ */
+
+import { Property } from './property';
+import { Registry } from './Registry';
+import { lit, ref, op } from './expressions';
+import { isLit, isRef, isOp } from './guards';
+import { getArgs } from './Evaluator';
+import { PropertyError } from './errors';
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Thrown by parse() for malformed source.
+ * Line and column are 1-based.
+ */
+export class ExpressionSyntaxError extends PropertyError {
+    constructor(
+        readonly reason: string,
+        readonly line: number,
+        readonly column: number
+    ) {
+        super(`${reason} at line ${line}, column ${column}`);
+        this.name = 'ExpressionSyntaxError';
+    }
+}
+
+/**
+ * Options for parse().
+ */
+export interface ParseOptions {
+    /** Reject calls to operators missing from this registry */
+    readonly registry?: Registry;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenKind = 'number' | 'string' | 'ident' | 'punct' | 'eof';
+
+interface Token {
+    readonly kind: TokenKind;
+    readonly text: string;
+    /** Parsed value of number and string tokens */
+    readonly value?: unknown;
+    /** Offset in the source */
+    readonly start: number;
+}
+
+// Longest first, so '**' wins over '*'
+const PUNCTUATION = [
+    '&&', '||', '==', '!=', '<=', '>=', '**', '?.',
+    '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', '{', '}', ',', '.',
+];
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+const IDENT_START = /[A-Za-z_$]/;
+const IDENT_PART = /[\w$]/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?([eE][+-]?\d+)?/;
+
+/**
+ * Get the 1-based line and column of an offset.
+ */
+const locate = (source: string, offset: number): { line: number; column: number } => {
+    const before = source.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1]!.length + 1 };
+};
+
+const syntaxError = (source: string, offset: number, reason: string): ExpressionSyntaxError => {
+    const { line, column } = locate(source, offset);
+    return new ExpressionSyntaxError(reason, line, column);
+};
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i]!;
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        // Numbers
+        const number = /\d/.test(ch) ? NUMBER_PATTERN.exec(source.slice(i)) : null;
+        if (number) {
+            tokens.push({ kind: 'number', text: number[0], value: Number(number[0]), start: i });
+            i += number[0].length;
+            continue;
+        }
+
+        // Identifiers and keywords
+        if (IDENT_START.test(ch)) {
+            const start = i;
+            while (i < source.length && IDENT_PART.test(source[i]!)) i++;
+            tokens.push({ kind: 'ident', text: source.slice(start, i), start });
+            continue;
+        }
+
+        // Strings
+        if (ch === "'" || ch === '"') {
+            const start = i;
+            let value = '';
+            i++;
+            while (source[i] !== ch) {
+                if (i >= source.length) {
+                    throw syntaxError(source, start, 'Unterminated string');
+                }
+                if (source[i] === '\\') {
+                    const escaped = source[i + 1] ?? '';
+                    if (escaped === 'u' && /^[\da-fA-F]{4}$/.test(source.slice(i + 2, i + 6))) {
+                        value += String.fromCharCode(parseInt(source.slice(i + 2, i + 6), 16));
+                        i += 6;
+                        continue;
+                    }
+                    if (!(escaped in ESCAPES)) {
+                        throw syntaxError(source, i, `Invalid escape '\\${escaped}'`);
+                    }
+                    value += ESCAPES[escaped];
+                    i += 2;
+                    continue;
+                }
+                value += source[i];
+                i++;
+            }
+            i++;
+            tokens.push({ kind: 'string', text: source.slice(start, i), value, start });
+            continue;
+        }
+
+        // Punctuation
+        const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+        if (!punct) {
+            throw syntaxError(source, i, `Unexpected character '${ch}'`);
+        }
+        tokens.push({ kind: 'punct', text: punct, start: i });
+        i += punct.length;
+    }
+
+    tokens.push({ kind: 'eof', text: '', start: source.length });
+    return tokens;
+};
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Binary operator levels, lowest precedence first.
+ */
+const BINARY_LEVELS: ReadonlyArray<Record<string, string>> = [
+    { '||': 'or' },
+    { '&&': 'and' },
+    { '==': 'eq', '!=': 'neq' },
+    { '<': 'lt', '<=': 'lte', '>': 'gt', '>=': 'gte' },
+    { '+': 'add', '-': 'sub' },
+    { '*': 'mul', '/': 'div', '%': 'mod' },
+];
+
+/**
+ * Operators taking any number of arguments: `a + b + c` is one add().
+ */
+const VARIADIC = new Set(['or', 'and', 'add', 'mul']);
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/**
+ * Recursive descent parser over a token list.
+ */
+class Parser {
+    private readonly tokens: Token[];
+    private index = 0;
+
+    constructor(
+        private readonly source: string,
+        private readonly options: ParseOptions
+    ) {
+        this.tokens = tokenize(source);
+    }
+
+    parseAll(): Property {
+        const expr = this.parseTernary();
+        if (this.peek.kind !== 'eof') {
+            throw this.unexpected();
+        }
+        return expr;
+    }
+
+    private get peek(): Token {
+        return this.tokens[this.index]!;
+    }
+
+    private advance(): Token {
+        return this.tokens[this.index++]!;
+    }
+
+    private isPunct(text: string): boolean {
+        return this.peek.kind === 'punct' && this.peek.text === text;
+    }
+
+    private expect(text: string): Token {
+        if (!this.isPunct(text)) {
+            throw this.unexpected(`expected '${text}'`);
+        }
+        return this.advance();
+    }
+
+    private unexpected(hint?: string): ExpressionSyntaxError {
+        const token = this.peek;
+        const found = token.kind === 'eof' ? 'end of input' : `'${token.text}'`;
+        const reason = `Unexpected ${found}${hint ? `, ${hint}` : ''}`;
+        return syntaxError(this.source, token.start, reason);
+    }
+
+    private parseTernary(): Property {
+        const condition = this.parseBinary(0);
+        if (!this.isPunct('?')) return condition;
+
+        this.advance();
+        const then = this.parseTernary();
+        this.expect(':');
+        const otherwise = this.parseTernary();
+        return op('if', condition, then, otherwise);
+    }
+
+    private parseBinary(level: number): Property {
+        if (level === BINARY_LEVELS.length) return this.parseUnary();
+
+        const operators = BINARY_LEVELS[level]!;
+        let operands = [this.parseBinary(level + 1)];
+        let name: string | undefined;
+
+        while (this.peek.kind === 'punct' && this.peek.text in operators) {
+            const next = operators[this.advance().text]!;
+            const right = this.parseBinary(level + 1);
+
+            // Extend a chain of the same variadic operator
+            if (next === name && VARIADIC.has(next)) {
+                operands.push(right);
+                continue;
+            }
+            const left = name ? op(name, ...operands) : operands[0]!;
+            name = next;
+            operands = [left, right];
+        }
+
+        return name ? op(name, ...operands) : operands[0]!;
+    }
+
+    private parseUnary(): Property {
+        if (this.isPunct('!')) {
+            this.advance();
+            return op('not', this.parseUnary());
+        }
+        if (this.isPunct('-')) {
+            this.advance();
+            const literal = this.peek.kind === 'number';
+            const operand = this.parseUnary();
+            // Fold negative number literals ('-(2)' stays a neg operation)
+            if (literal && isLit(operand) && typeof operand.value === 'number') {
+                return lit(-operand.value);
+            }
+            return op('neg', operand);
+        }
+        return this.parsePower();
+    }
+
+    private parsePower(): Property {
+        const base = this.parsePrimary();
+        if (!this.isPunct('**')) return base;
+
+        this.advance();
+        return op('pow', base, this.parseUnary());
+    }
+
+    private parsePrimary(): Property {
+        const token = this.peek;
+
+        switch (token.kind) {
+            case 'number':
+            case 'string':
+                this.advance();
+                return lit(token.value);
+
+            case 'ident':
+                this.advance();
+                if (token.text in KEYWORDS) {
+                    return lit(KEYWORDS[token.text]);
+                }
+                if (this.isPunct('(')) {
+                    return this.parseCall(token);
+                }
+                return this.parsePath(token);
+
+            case 'punct':
+                if (token.text === '(') {
+                    this.advance();
+                    const expr = this.parseTernary();
+                    this.expect(')');
+                    return expr;
+                }
+                if (token.text === '[') return this.parseList();
+                if (token.text === '{') return this.parseObject();
+        }
+
+        throw this.unexpected();
+    }
+
+    private parseCall(name: Token): Property {
+        const registry = this.options.registry;
+        if (registry && !registry.has(name.text)) {
+            throw syntaxError(this.source, name.start, `Unknown operator '${name.text}'`);
+        }
+        this.expect('(');
+        return op(name.text, ...this.parseItems(')'));
+    }
+
+    private parsePath(first: Token): Property {
+        const segments = [first.text];
+        while (this.isPunct('.') || this.isPunct('?.')) {
+            // 'a?.b' marks the segment before it as optional
+            if (this.advance().text === '?.') segments[segments.length - 1] += '?';
+            const segment = this.peek;
+            if (segment.kind !== 'ident' && !(segment.kind === 'number' && /^\d+$/.test(segment.text))) {
+                throw this.unexpected('expected a path segment');
+            }
+            segments.push(this.advance().text);
+        }
+        return ref(segments);
+    }
+
+    /**
+     * [a, b] is a literal array if every item is a literal, list(a, b) otherwise.
+     */
+    private parseList(): Property {
+        this.expect('[');
+        const items = this.parseItems(']');
+        return items.every(isLit)
+            ? lit(items.map(item => item.value))
+            : op('list', ...items);
+    }
+
+    /**
+     * { key: value } objects may only hold literals.
+     */
+    private parseObject(): Property {
+        this.expect('{');
+        const value: Record<string, unknown> = {};
+        while (!this.isPunct('}')) {
+            const key = this.peek;
+            if (key.kind !== 'ident' && key.kind !== 'string') {
+                throw this.unexpected('expected a property name');
+            }
+            this.advance();
+            this.expect(':');
+            const start = this.peek.start;
+            const item = this.parseTernary();
+            if (!isLit(item)) {
+                throw syntaxError(this.source, start, 'Object literals may only contain literal values');
+            }
+            value[key.kind === 'string' ? key.value as string : key.text] = item.value;
+            if (!this.isPunct(',')) break;
+            this.advance();
+        }
+        this.expect('}');
+        return lit(value);
+    }
+
+    /**
+     * Comma-separated expressions up to a closing token (trailing comma allowed).
+     */
+    private parseItems(close: string): Property[] {
+        const items: Property[] = [];
+        while (!this.isPunct(close)) {
+            items.push(this.parseTernary());
+            if (!this.isPunct(',')) break;
+            this.advance();
+        }
+        this.expect(close);
+        return items;
+    }
+}
+
+/**
+ * Parse formula source into a lit/ref/op expression.
+ * Throws ExpressionSyntaxError with the line and column of the problem.
+ *
+ * @example
+ * parse('price.value * quantity.value')
+ * parse("if(isNotBlank(self.value), 'ok', 'missing')")
+ * parse('upper(name.value)', { registry })  // rejects unknown operators
+ */
+export const parse = (source: string, options: ParseOptions = {}): Property =>
+    new Parser(source, options).parseAll();
+
+// ============================================================================
+// PRINTER
+// ============================================================================
+
+const PREC_TERNARY = 1;
+const PREC_UNARY = 8;
+const PREC_POWER = 9;
+const PREC_PRIMARY = 10;
+
+/**
+ * Infix operators: symbol and precedence.
+ */
+const INFIX: Record<string, { readonly symbol: string; readonly prec: number }> = {};
+BINARY_LEVELS.forEach((operators, level) => {
+    for (const [symbol, name] of Object.entries(operators)) {
+        INFIX[name] = { symbol, prec: level + 2 };
+    }
+});
+
+interface Printed {
+    readonly text: string;
+    readonly prec: number;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const quote = (value: string): string =>
+    `'${value.replace(/[\\'\n\r\t]/g, ch =>
+        ch === '\n' ? '\\n' : ch === '\r' ? '\\r' : ch === '\t' ? '\\t' : `\\${ch}`)}'`;
+
+const printValue = (value: unknown): string => {
+    if (value === undefined || value === null) return 'null';
+    if (typeof value === 'string') return quote(value);
+    if (Array.isArray(value)) return `[${value.map(printValue).join(', ')}]`;
+    if (typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .map(([key, item]) => `${IDENTIFIER.test(key) ? key : quote(key)}: ${printValue(item)}`);
+        return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+    }
+    return String(value);
+};
+
+const wrap = (printed: Printed, parens: boolean): string =>
+    parens ? `(${printed.text})` : printed.text;
+
+const DIGITS = /^\d+$/;
+
+/**
+ * Print a ref path, refusing segments parse() would read differently
+ * ('my-field' is a subtraction, 'true' a literal, '0.1' a number).
+ */
+const printPath = (path: string[]): string => {
+    const text = path.join('.');
+    path.forEach((segment, i) => {
+        const last = i === path.length - 1;
+        if (last && segment.endsWith('?')) {
+            throw new PropertyError(`Reference "${text}" ends in an optional segment and cannot be printed`);
+        }
+        const optional = segment.endsWith('?');
+        const name = optional ? segment.slice(0, -1) : segment;
+        const valid = i === 0
+            ? IDENTIFIER.test(name) && !(name in KEYWORDS)
+            : IDENTIFIER.test(name) || (DIGITS.test(name) && (optional || !/^\d/.test(path[i + 1] ?? '')));
+        if (!valid) {
+            throw new PropertyError(`Reference "${text}" has a segment "${segment}" that cannot be printed`);
+        }
+    });
+    return text;
+};
+
+const printOp = (expr: Property): Printed => {
+    const name = expr.id;
+    const raw = getArgs(expr);
+    const args = raw.map(printExpr);
+    const infix = INFIX[name];
+
+    if (infix && args.length >= 2 && (args.length === 2 || VARIADIC.has(name))) {
+        const text = args.map((arg, i) => {
+            // Nested chains of the same variadic operator keep their grouping
+            const sameChain = VARIADIC.has(name) && isOp(raw[i]!) && raw[i]!.id === name;
+            const parens = i === 0
+                ? arg.prec < infix.prec || sameChain
+                : arg.prec <= infix.prec;
+            return wrap(arg, parens);
+        }).join(` ${infix.symbol} `);
+        return { text, prec: infix.prec };
+    }
+
+    if (name === 'pow' && args.length === 2) {
+        const [base, exponent] = args as [Printed, Printed];
+        return {
+            text: `${wrap(base, base.prec <= PREC_POWER)} ** ${wrap(exponent, exponent.prec < PREC_UNARY)}`,
+            prec: PREC_POWER,
+        };
+    }
+
+    if ((name === 'not' || name === 'neg') && args.length === 1) {
+        const operand = args[0]!;
+        const symbol = name === 'not' ? '!' : '-';
+        // '-2' would parse as a literal and '--2' as two negations
+        const numeric = isLit(raw[0]!) && typeof raw[0]!.value === 'number';
+        const parens = operand.prec < PREC_UNARY || (name === 'neg' && (numeric || operand.text.startsWith('-')));
+        return { text: `${symbol}${wrap(operand, parens)}`, prec: PREC_UNARY };
+    }
+
+    if (name === 'if' && args.length === 3) {
+        const [condition, then, otherwise] = args as [Printed, Printed, Printed];
+        return {
+            text: `${wrap(condition, condition.prec <= PREC_TERNARY)} ? ${then.text} : ${otherwise.text}`,
+            prec: PREC_TERNARY,
+        };
+    }
+
+    const callable = IDENTIFIER.test(name) && !(name in KEYWORDS);
+    if (!callable) {
+        throw new PropertyError(`Operator name "${name}" cannot be printed as a call`);
+    }
+    return { text: `${name}(${args.map(arg => arg.text).join(', ')})`, prec: PREC_PRIMARY };
+};
+
+const printExpr = (expr: Property): Printed => {
+    if (isLit(expr)) {
+        const negative = typeof expr.value === 'number' && expr.value < 0;
+        return { text: printValue(expr.value), prec: negative ? PREC_UNARY : PREC_PRIMARY };
+    }
+    if (isRef(expr)) {
+        return { text: printPath(expr.value as string[]), prec: PREC_PRIMARY };
+    }
+    if (isOp(expr)) {
+        return printOp(expr);
+    }
+    throw new PropertyError(`Cannot print a non-expression Property (type ${expr.type?.id})`);
+};
+
+/**
+ * Print a lit/ref/op expression as formula source.
+ * parse(print(expr)) rebuilds the same tree for expressions parse() produces.
+ *
+ * @example
+ * print(op('gt', ref('self.value'), lit(18)))  // 'self.value > 18'
+ */
+export const print = (expr: Property): string => printExpr(expr).text;
@@ -0,0 +1,459 @@
+/**
+ * ============================================================================
+ * JSON PATCH
+ * ============================================================================
+ * JSON Patch (RFC 6902) over the SerializedProperty shape of a tree.
+ *
+ * diff(a, b) lists the operations that turn a.toJSON() into b.toJSON().
+ * applyPatch(node, ops) applies operations to a live tree through its
+ * setters (setValue, setMetadata, setConstraint, addChild, ...), so caches
+ * are invalidated and subscribers are notified as for any other edit.
+ *
+ *   const ops = diff(clientTree, editedTree);
+ *   // [{ op: 'replace', path: '/children/email/metadata/label', value: {...} }]
+ *   applyPatch(clientTree, ops);
+ *
+ * Paths are JSON Pointers (RFC 6901) into the serialized tree:
+ * /children/<key>, /value, /defaultValue, /metadata/<key> and
+ * /constraints/<key>, nested under /children/<key>/... for descendants.
+ * Deeper paths (/value/0, /metadata/label/value) edit the serialized
+ * value, metadata entry or constraint, which is then written back whole.
+ */
+
+import { PropertyNode, SerializedProperty } from './PropertyNode';
+import { Property } from './property';
+import { isProperty } from './guards';
+import { valueEquals } from './intern';
+import { PatchError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A JSON Patch operation (RFC 6902). `path` and `from` are JSON Pointers.
+ */
+export type PatchOperation =
+    | { op: 'add'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: unknown }
+    | { op: 'move'; from: string; path: string }
+    | { op: 'copy'; from: string; path: string }
+    | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Options for applyPatch().
+ */
+export interface ApplyPatchOptions {
+    /** Resolves type ids of Properties in operation values, as for fromJSON */
+    readonly typeResolver?: (typeId: string) => Property;
+}
+
+/**
+ * Why an operation failed; applyPatch wraps it in a PatchError.
+ */
+class InvalidOperation extends Error {}
+
+/**
+ * A member of a node that operations read and write in serialized form:
+ * its value, default value, one metadata entry, constraint or child, or a
+ * whole metadata, constraints or children record.
+ */
+interface Slot {
+    get(): unknown;
+    set(value: unknown): void;
+    delete(): void;
+}
+
+type EntryKind = 'metadata' | 'constraints' | 'children';
+
+// ============================================================================
+// JSON POINTER
+// ============================================================================
+
+const parsePointer = (pointer: string): string[] => {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+        throw new InvalidOperation(`invalid JSON Pointer '${pointer}'`);
+    }
+    return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const formatPointer = (tokens: readonly string[]): string =>
+    tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+const hasKey = (record: object, key: string): boolean =>
+    Object.prototype.hasOwnProperty.call(record, key);
+
+const arrayIndex = (token: string, bound: number): number => {
+    const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+    if (!(index < bound)) {
+        throw new InvalidOperation(`invalid array index '${token}'`);
+    }
+    return index;
+};
+
+/**
+ * Get the value at a path in a JSON document.
+ */
+const getAt = (doc: unknown, tokens: readonly string[]): unknown => {
+    let current = doc;
+    for (const token of tokens) {
+        if (Array.isArray(current)) {
+            current = current[arrayIndex(token, current.length)];
+        } else if (current && typeof current === 'object' && hasKey(current, token)) {
+            current = (current as Record<string, unknown>)[token];
+        } else {
+            throw new InvalidOperation('path not found');
+        }
+    }
+    if (current === undefined) {
+        throw new InvalidOperation('path not found');
+    }
+    return current;
+};
+
+/**
+ * Apply add, replace or remove at a non-empty path of a JSON document,
+ * modifying it in place.
+ */
+const editAt = (doc: unknown, tokens: readonly string[], op: 'add' | 'replace' | 'remove', value?: unknown): void => {
+    const parent = getAt(doc, tokens.slice(0, -1));
+    const key = tokens[tokens.length - 1]!;
+
+    if (Array.isArray(parent)) {
+        if (op === 'add') {
+            parent.splice(key === '-' ? parent.length : arrayIndex(key, parent.length + 1), 0, value);
+        } else if (op === 'replace') {
+            parent[arrayIndex(key, parent.length)] = value;
+        } else {
+            parent.splice(arrayIndex(key, parent.length), 1);
+        }
+    } else if (parent && typeof parent === 'object') {
+        const record = parent as Record<string, unknown>;
+        if (op !== 'add' && !hasKey(record, key)) {
+            throw new InvalidOperation('path not found');
+        }
+        if (op === 'remove') delete record[key];
+        else record[key] = value;
+    } else {
+        throw new InvalidOperation('path not found');
+    }
+};
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * List the JSON Patch operations that turn `a` into `b`.
+ *
+ * Children are compared recursively; values, default values, metadata
+ * entries and constraints are replaced whole when they differ. A node whose
+ * id or type differs is replaced whole (the root cannot be: applyPatch
+ * rejects a patch that replaces it). Absent and empty records are equal.
+ */
+export const diff = (a: PropertyNode, b: PropertyNode): PatchOperation[] => {
+    const operations: PatchOperation[] = [];
+    diffProperty(a.toJSON(), b.toJSON(), [], operations);
+    return operations;
+};
+
+const diffProperty = (
+    a: SerializedProperty,
+    b: SerializedProperty,
+    path: string[],
+    operations: PatchOperation[]
+): void => {
+    if (a.id !== b.id || a.type.id !== b.type.id) {
+        operations.push({ op: 'replace', path: formatPointer(path), value: b });
+        return;
+    }
+    diffMember(a.value, b.value, [...path, 'value'], operations);
+    diffMember(a.defaultValue, b.defaultValue, [...path, 'defaultValue'], operations);
+    diffEntries(a.metadata, b.metadata, [...path, 'metadata'], operations);
+    diffEntries(a.constraints, b.constraints, [...path, 'constraints'], operations);
+    diffEntries(a.children, b.children, [...path, 'children'], operations);
+};
+
+const diffMember = (a: unknown, b: unknown, path: string[], operations: PatchOperation[]): void => {
+    if (valueEquals(a, b)) return;
+    const pointer = formatPointer(path);
+    if (b === undefined) {
+        operations.push({ op: 'remove', path: pointer });
+    } else if (a === undefined) {
+        operations.push({ op: 'add', path: pointer, value: b });
+    } else {
+        operations.push({ op: 'replace', path: pointer, value: b });
+    }
+};
+
+const diffEntries = (
+    a: Record<string, SerializedProperty> | undefined,
+    b: Record<string, SerializedProperty> | undefined,
+    path: string[],
+    operations: PatchOperation[]
+): void => {
+    const before = a ?? {};
+    const after = b ?? {};
+    if (Object.keys(before).length === 0) {
+        if (Object.keys(after).length > 0) {
+            operations.push({ op: 'add', path: formatPointer(path), value: after });
+        }
+        return;
+    }
+
+    const isChildren = path[path.length - 1] === 'children';
+    for (const key of Object.keys(before)) {
+        if (!hasKey(after, key)) {
+            operations.push({ op: 'remove', path: formatPointer([...path, key]) });
+        }
+    }
+    for (const [key, entry] of Object.entries(after)) {
+        const previous = hasKey(before, key) ? before[key] : undefined;
+        if (previous && isChildren) {
+            diffProperty(previous, entry, [...path, key], operations);
+        } else {
+            diffMember(previous, entry, [...path, key], operations);
+        }
+    }
+};
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/**
+ * Apply JSON Patch operations to a tree.
+ *
+ * The patch runs as one transaction and one batch: subscribers are notified
+ * once, with every changed path, after the last operation. An operation
+ * that cannot be applied throws a PatchError and rolls the transaction back.
+ * Properties in operation values are deserialized as by fromJSON, with
+ * `options.typeResolver` (without one, their types are stubs holding only an id).
+ */
+export const applyPatch = (
+    node: PropertyNode,
+    operations: readonly PatchOperation[],
+    options: ApplyPatchOptions = {}
+): void => {
+    node.transaction(() => node.batch(() => {
+        operations.forEach((operation, index) => {
+            try {
+                applyOperation(node, operation, options);
+            } catch (error) {
+                if (error instanceof InvalidOperation) {
+                    throw new PatchError(operation, index, error.message);
+                }
+                throw error;
+            }
+        });
+    }));
+};
+
+const applyOperation = (root: PropertyNode, operation: PatchOperation, options: ApplyPatchOptions): void => {
+    switch (operation.op) {
+        case 'add':
+        case 'replace':
+            write(root, parsePointer(operation.path), options, operation.op, operation.value);
+            return;
+        case 'remove':
+            write(root, parsePointer(operation.path), options, 'remove');
+            return;
+        case 'move': {
+            const from = parsePointer(operation.from);
+            const to = parsePointer(operation.path);
+            if (to.length > from.length && from.every((token, i) => token === to[i])) {
+                throw new InvalidOperation('cannot move a location into itself');
+            }
+            const value = read(root, from);
+            write(root, from, options, 'remove');
+            write(root, to, options, 'add', value);
+            return;
+        }
+        case 'copy':
+            write(root, parsePointer(operation.path), options, 'add', read(root, parsePointer(operation.from)));
+            return;
+        case 'test':
+            if (!valueEquals(read(root, parsePointer(operation.path)), operation.value)) {
+                throw new InvalidOperation('test failed');
+            }
+            return;
+        default:
+            throw new InvalidOperation(`unknown operation '${(operation as { op: string }).op}'`);
+    }
+};
+
+/**
+ * Find the node a path points into: follow /children/<key> pairs, stopping
+ * at the parent when the path ends at a child.
+ */
+const locate = (root: PropertyNode, tokens: string[]): { node: PropertyNode; rest: string[] } => {
+    let node = root;
+    let i = 0;
+    while (tokens[i] === 'children' && tokens.length - i > 2) {
+        const child = node.child(tokens[i + 1]!);
+        if (!child) {
+            throw new InvalidOperation(`no child '${tokens[i + 1]}'`);
+        }
+        node = child;
+        i += 2;
+    }
+    return { node, rest: tokens.slice(i) };
+};
+
+/**
+ * Read the value at a path, serializing only the member it points into.
+ */
+const read = (root: PropertyNode, tokens: string[]): unknown => {
+    const { node, rest } = locate(root, tokens);
+    const property = node.getProperty();
+    const [member, ...more] = rest;
+    switch (member) {
+        case undefined:
+            return node.toJSON();
+        case 'value':
+        case 'defaultValue':
+            return getAt(PropertyNode.toJSONValue(property[member]), more);
+        case 'metadata':
+        case 'constraints':
+        case 'children': {
+            const entries = property[member];
+            if (more.length === 0) return getAt(PropertyNode.toJSONValue(entries), more);
+            const [key, ...inner] = more;
+            if (!entries || !hasKey(entries, key!)) {
+                throw new InvalidOperation('path not found');
+            }
+            return getAt(PropertyNode.toJSONValue(entries[key!]), inner);
+        }
+        default:
+            return getAt({ id: property.id, type: { id: property.type.id } }, rest);
+    }
+};
+
+const write = (
+    root: PropertyNode,
+    tokens: string[],
+    options: ApplyPatchOptions,
+    op: 'add' | 'replace' | 'remove',
+    value?: unknown
+): void => {
+    const { node, rest } = locate(root, tokens);
+    const [member, ...more] = rest;
+    if (member === undefined) {
+        throw new InvalidOperation('the root of the tree cannot be replaced or removed');
+    }
+
+    const isEntry = member === 'metadata' || member === 'constraints' || member === 'children';
+    const slot = slotOf(node, member, isEntry ? more[0] : undefined, options);
+    const inner = isEntry ? more.slice(1) : more;
+
+    if (inner.length === 0) {
+        if (op !== 'add' && slot.get() === undefined) {
+            throw new InvalidOperation('path not found');
+        }
+        if (op === 'remove') slot.delete();
+        else slot.set(value);
+        return;
+    }
+
+    const current = slot.get();
+    if (current === undefined) {
+        throw new InvalidOperation('path not found');
+    }
+    editAt(current, inner, op, value);
+    slot.set(current);
+};
+
+// ============================================================================
+// SLOTS
+// ============================================================================
+
+const slotOf = (node: PropertyNode, member: string, key: string | undefined, options: ApplyPatchOptions): Slot => {
+    switch (member) {
+        case 'value':
+            return {
+                get: () => PropertyNode.toJSONValue(node.getProperty().value),
+                set: (value) => node.setValue(toValue(value, options)),
+                delete: () => node.setValue(undefined),
+            };
+        case 'defaultValue':
+            return {
+                get: () => PropertyNode.toJSONValue(node.getProperty().defaultValue),
+                set: (value) => node.setDefaultValue(toValue(value, options)),
+                delete: () => node.setDefaultValue(undefined),
+            };
+        case 'metadata':
+        case 'constraints':
+        case 'children':
+            return key === undefined
+                ? recordSlot(node, member, options)
+                : entrySlot(node, member, key, options);
+        case 'id':
+        case 'type':
+            throw new InvalidOperation(`'${member}' cannot be patched, replace the node instead`);
+        default:
+            throw new InvalidOperation(`unknown member '${member}'`);
+    }
+};
+
+const entrySlot = (node: PropertyNode, kind: EntryKind, key: string, options: ApplyPatchOptions): Slot => ({
+    get: () => {
+        const entries = node.getProperty()[kind];
+        return entries && hasKey(entries, key) ? PropertyNode.toJSONValue(entries[key]) : undefined;
+    },
+    set: (value) => setEntry(node, kind, key, toProperty(value, options)),
+    delete: () => deleteEntry(node, kind, key),
+});
+
+const recordSlot = (node: PropertyNode, kind: EntryKind, options: ApplyPatchOptions): Slot => ({
+    get: () => PropertyNode.toJSONValue(node.getProperty()[kind]),
+    set: (value) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new InvalidOperation(`${kind} must be an object of serialized Properties`);
+        }
+        const entries = Object.entries(value).map(([key, entry]) => [key, toProperty(entry, options)] as const);
+        for (const key of entryKeys(node, kind)) {
+            if (!hasKey(value, key)) deleteEntry(node, kind, key);
+        }
+        for (const [key, entry] of entries) setEntry(node, kind, key, entry);
+    },
+    delete: () => {
+        for (const key of entryKeys(node, kind)) deleteEntry(node, kind, key);
+    },
+});
+
+const entryKeys = (node: PropertyNode, kind: EntryKind): string[] =>
+    kind === 'metadata' ? node.metadataKeys()
+        : kind === 'constraints' ? node.constraintKeys()
+            : node.childKeys();
+
+const setEntry = (node: PropertyNode, kind: EntryKind, key: string, property: Property): void => {
+    if (kind === 'metadata') {
+        node.setMetadata(key, property);
+    } else if (kind === 'constraints') {
+        node.setConstraint(key, property);
+    } else {
+        node.addChild(key, property);
+    }
+};
+
+const deleteEntry = (node: PropertyNode, kind: EntryKind, key: string): void => {
+    if (kind === 'metadata') {
+        node.removeMetadata(key);
+    } else if (kind === 'constraints') {
+        node.removeConstraint(key);
+    } else {
+        node.removeChild(key);
+    }
+};
+
+const toProperty = (value: unknown, options: ApplyPatchOptions): Property => {
+    if (!isProperty(value)) {
+        throw new InvalidOperation('expected a serialized Property');
+    }
+    return PropertyNode.fromJSON(value as SerializedProperty, options.typeResolver).getProperty();
+};
+
+const toValue = (value: unknown, options: ApplyPatchOptions): unknown =>
+    isProperty(value) ? toProperty(value, options) : value;
@@ -0,0 +1,250 @@
+/**
+ * ============================================================================
+ * REFERENCE PATHS
+ * ============================================================================
+ * Parsing and walking of reference paths, shared by the evaluator and the
+ * type checker. Segments ('self', 'parent', 'children', 'metadata', ...)
+ * navigate the tree the same way for both; what a walk yields where it
+ * ends (a value to evaluate, or a type) is up to its RefWalkRules.
+ *
+ * A segment that cannot be resolved ends the walk through rules.missing
+ * with its index; a segment ending in '?' is optional (see isOptional).
+ */
+
+import { Property } from './property';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A reference path with each segment's name resolved once
+ * ('b?' -> 'b'; the '?' marks the segment optional).
+ */
+export interface RefPath {
+    readonly segments: string[];
+    readonly names: string[];
+}
+
+/**
+ * The rest of a walk, where `current` is the `slot` of `owner`
+ * ('value', or e.g. 'metadata.label'); `current` is undefined when the
+ * segment before led nowhere.
+ */
+export type RefStep<C, R> = (
+    current: Property | undefined,
+    owner: Property | undefined,
+    slot: string,
+    ctx: C
+) => R;
+
+/**
+ * What a walk reads from its context, and what it yields where it ends.
+ */
+export interface RefWalkRules<C, R> {
+    /** The Property 'self' (and a path not starting with a keyword) walks from */
+    self(ctx: C): Property;
+    root(ctx: C): Property;
+    parentOf(property: Property, ctx: C): Property | undefined;
+    /** Whether the first segment names a binding (e.g. a loop variable) */
+    isBound(name: string, ctx: C): boolean;
+    /** Walk from a binding; `rest` walks the segments after it from a bound Property */
+    bound(ref: RefPath, ctx: C, rest: RefStep<C, R>): R;
+    /** A 'value' segment, read from `current` (the `slot` of `owner`) */
+    value(current: Property, owner: Property, slot: string, ctx: C): R;
+    /** Past the last segment: the location itself */
+    end(current: Property, owner: Property, slot: string, ctx: C): R;
+    /** An 'id' segment */
+    id(current: Property, ctx: C): R;
+    /** A trailing 'children' segment: the child collection */
+    children(current: Property, ctx: C): R;
+    /** Segment `index` did not resolve */
+    missing(ref: RefPath, index: number, ctx: C): R;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+// Cache for parsed reference paths
+const refPathCache = new WeakMap<Property, RefPath>();
+
+/**
+ * Get the parsed path of a reference expression.
+ */
+export const refPathOf = (expr: Property): RefPath => {
+    let path = refPathCache.get(expr);
+    if (!path) {
+        const segments = expr.value as string[];
+        path = { segments, names: segments.map(s => s.endsWith('?') ? s.slice(0, -1) : s) };
+        refPathCache.set(expr, path);
+    }
+    return path;
+};
+
+/**
+ * Check if a segment of a path is optional (ends in '?').
+ */
+export const isOptional = (ref: RefPath, index: number): boolean =>
+    ref.names[index] !== ref.segments[index];
+
+// ============================================================================
+// WALKING
+// ============================================================================
+
+/**
+ * Compile a reference path into a walk: one step per segment, each
+ * decided from the segment name once instead of on every walk.
+ *
+ * Tracks 'owner' separately from 'current' during navigation:
+ * - 'owner' is the property that OWNS the current location (for self references in expressions)
+ * - 'current' is the actual property/value we're navigating through
+ *
+ * When we enter metadata/constraints, the owner becomes the property containing them.
+ * When we enter children, the owner becomes the child property itself.
+ * This ensures expressions in metadata have correct 'self' context.
+ *
+ * The path must not be empty.
+ */
+export const compileRefWalk = <C, R>(ref: RefPath, rules: RefWalkRules<C, R>): ((ctx: C) => R) => {
+    const { names } = ref;
+    const length = names.length;
+    const missing = (index: number, ctx: C): R => rules.missing(ref, index, ctx);
+
+    const steps: RefStep<C, R>[] = [];
+    const stepAt = (i: number): RefStep<C, R> => steps[i] ??= compileStep(i);
+
+    const compileStep = (i: number): RefStep<C, R> => {
+        // Past the last segment: the resolved location itself
+        if (i === length) {
+            return (current, owner, slot, ctx) => {
+                // The last segment walked led nowhere
+                if (!current) return missing(i - 1, ctx);
+                return rules.end(current, owner!, slot, ctx);
+            };
+        }
+
+        const segment = names[i]!;
+        switch (segment) {
+            case 'value':
+                return (current, owner, slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    return rules.value(current, owner!, slot, ctx);
+                };
+
+            case 'type': {
+                const next = stepAt(i + 1);
+                return (current, _owner, _slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    return next(current.type, current.type, 'value', ctx);
+                };
+            }
+
+            case 'id':
+                return (current, _owner, _slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    return rules.id(current, ctx);
+                };
+
+            case 'children': {
+                // Trailing 'children' yields the child Properties as a collection
+                if (i + 1 === length) {
+                    return (current, _owner, _slot, ctx) => {
+                        if (!current) return missing(i - 1, ctx);
+                        return rules.children(current, ctx);
+                    };
+                }
+                const key = names[i + 1]!;
+                const next = stepAt(i + 2);
+                return (current, _owner, _slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    if (!current.children) return missing(i + 1, ctx);
+                    // Child becomes the new owner
+                    const child = current.children[key];
+                    return next(child, child, 'value', ctx);
+                };
+            }
+
+            case 'metadata':
+            case 'constraints': {
+                if (i + 1 === length) {
+                    return (current, _owner, _slot, ctx) => missing(current ? i : i - 1, ctx);
+                }
+                const key = names[i + 1]!;
+                const entrySlot = `${segment}.${key}`;
+                const next = stepAt(i + 2);
+                return (current, _owner, _slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    const entries = current[segment];
+                    if (!entries) return missing(i + 1, ctx);
+                    // Owner stays as current (the property containing the entry)
+                    return next(entries[key], current, entrySlot, ctx);
+                };
+            }
+
+            case 'parent': {
+                const next = stepAt(i + 1);
+                return (current, _owner, _slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    const parent = rules.parentOf(current, ctx);
+                    return next(parent, parent, 'value', ctx);
+                };
+            }
+
+            default: {
+                const metadataSlot = `metadata.${segment}`;
+                const next = stepAt(i + 1);
+                return (current, _owner, _slot, ctx) => {
+                    if (!current) return missing(i - 1, ctx);
+                    // Try children first, then metadata
+                    const child = current.children?.[segment];
+                    if (child) return next(child, child, 'value', ctx);
+                    const entry = current.metadata?.[segment];
+                    if (entry) return next(entry, current, metadataSlot, ctx);
+                    return missing(i, ctx);
+                };
+            }
+        }
+    };
+
+    // Handle starting point
+    const start = names[0]!;
+    switch (start) {
+        case 'self': {
+            const next = stepAt(1);
+            return ctx => {
+                const self = rules.self(ctx);
+                return next(self, self, 'value', ctx);
+            };
+        }
+
+        case 'root': {
+            const next = stepAt(1);
+            return ctx => {
+                const root = rules.root(ctx);
+                return next(root, root, 'value', ctx);
+            };
+        }
+
+        case 'parent': {
+            const next = stepAt(1);
+            return ctx => {
+                const parent = rules.parentOf(rules.self(ctx), ctx);
+                return next(parent, parent, 'value', ctx);
+            };
+        }
+
+        default: {
+            const fromBinding = stepAt(1);
+            const fromSelf = stepAt(0);
+            return ctx => {
+                // Check bindings first
+                if (rules.isBound(start, ctx)) {
+                    return rules.bound(ref, ctx, fromBinding);
+                }
+                const self = rules.self(ctx);
+                return fromSelf(self, self, 'value', ctx);
+            };
+        }
+    }
+};
@@ -0,0 +1,315 @@
+/**
+ * ============================================================================
+ * SCHEMA TYPES
+ * ============================================================================
+ * Built-in value types and type inheritance.
+ *
+ * Value types are Properties with type TYPE (or another value type).
+ * A type's constraints and metadata apply to every property of that type,
+ * and subtypes inherit them through the type.type chain:
+ *
+ *   EMAIL = defineType('Email', STRING, { constraints: { email: ... } })
+ *   { id: 'contact', type: EMAIL, value: 'x' }  // checked as Email and String
+ *
+ * Type parameters (enum values, list items, ...) live in the type's value.
+ */
+
+import { Property } from './property';
+import { TYPE, CONSTRAINT, LIT } from './types';
+import { op, ref } from './expressions';
+
+// ============================================================================
+// TYPE CHECK CONSTRAINT
+// ============================================================================
+
+/**
+ * Constraint carried by the built-in types: the value must match the
+ * property's type. Empty values pass (use a required constraint for presence).
+ * PropertyNode runs it with matchesType and adds the `expected` param itself,
+ * so it works with any registry (or none); the expression is what
+ * explainConstraint and the dependency tracker see.
+ */
+const TYPE_CHECK: Property = {
+    id: 'type',
+    type: CONSTRAINT,
+    value: op('isOfType', ref('self.value')),
+    metadata: {
+        message: { id: 'message', type: LIT, value: 'Expected a value of type {expected}' },
+    },
+};
+
+/**
+ * Check if a constraint is the type check carried by the built-in types.
+ */
+export const isTypeCheck = (constraint: Property): boolean => constraint === TYPE_CHECK;
+
+const primitive = (id: string, parent: Property = TYPE): Property => ({
+    id,
+    type: parent,
+    constraints: { type: TYPE_CHECK },
+});
+
+// ============================================================================
+// PRIMITIVE TYPES
+// ============================================================================
+
+/**
+ * STRING - Text values.
+ */
+export const STRING: Property = primitive('String');
+
+/**
+ * NUMBER - Finite numbers.
+ */
+export const NUMBER: Property = primitive('Number');
+
+/**
+ * INTEGER - Whole numbers (a subtype of NUMBER).
+ */
+export const INTEGER: Property = primitive('Integer', NUMBER);
+
+/**
+ * BOOLEAN - true or false.
+ */
+export const BOOLEAN: Property = primitive('Boolean');
+
+/**
+ * DATE - Valid Date objects or ISO date strings ('2024-05-01', '2024-05-01T10:00:00Z').
+ */
+export const DATE: Property = primitive('Date');
+
+/**
+ * ANY - Accepts every value (used in operator signatures).
+ */
+export const ANY: Property = { id: 'Any', type: TYPE };
+
+// ============================================================================
+// PARAMETERIZED TYPES
+// ============================================================================
+
+/**
+ * ENUM - Base of enumOf() types.
+ */
+export const ENUM: Property = primitive('Enum');
+
+/**
+ * LIST - Base of listOf() types.
+ */
+export const LIST: Property = primitive('List');
+
+/**
+ * RECORD - Base of recordOf() types.
+ */
+export const RECORD: Property = primitive('Record');
+
+/**
+ * UNION - Base of unionOf() types.
+ */
+export const UNION: Property = primitive('Union');
+
+/**
+ * Create an enum type: the value must be one of `values`.
+ */
+export const enumOf = (values: readonly unknown[], id = 'Enum'): Property => ({
+    id,
+    type: ENUM,
+    value: [...values],
+});
+
+/**
+ * Create a list type: an array whose items match `itemType`.
+ */
+export const listOf = (itemType: Property, id = `List<${itemType.id}>`): Property => ({
+    id,
+    type: LIST,
+    value: itemType,
+});
+
+/**
+ * Create a record type: a plain object whose values match `valueType`.
+ */
+export const recordOf = (valueType: Property, id = `Record<${valueType.id}>`): Property => ({
+    id,
+    type: RECORD,
+    value: valueType,
+});
+
+/**
+ * Create a union type: the value must match one of `members`.
+ */
+export const unionOf = (members: readonly Property[], id = members.map(m => m.id).join('|')): Property => ({
+    id,
+    type: UNION,
+    value: [...members],
+});
+
+/**
+ * Define a named subtype with its own constraints and metadata.
+ * The subtype also inherits everything from `parent`.
+ */
+export const defineType = (
+    id: string,
+    parent: Property,
+    options: {
+        constraints?: Record<string, Property>;
+        metadata?: Record<string, Property>;
+    } = {}
+): Property => ({
+    id,
+    type: parent,
+    ...(options.constraints ? { constraints: options.constraints } : {}),
+    ...(options.metadata ? { metadata: options.metadata } : {}),
+});
+
+// ============================================================================
+// INHERITANCE
+// ============================================================================
+
+/**
+ * Get the type chain of a property, nearest type first.
+ * Stops at the self-typed TYPE (or any cycle).
+ */
+export const typeChain = (property: Property): Property[] => {
+    const chain: Property[] = [];
+    const seen = new Set<Property>([property]);
+    let current = property.type;
+    while (current && !seen.has(current)) {
+        chain.push(current);
+        seen.add(current);
+        current = current.type;
+    }
+    return chain;
+};
+
+/**
+ * Get a property's metadata or constraints merged with those of its types.
+ * Own entries win over type entries, nearer types over farther ones.
+ */
+export const effectiveEntries = (
+    property: Property,
+    slot: 'metadata' | 'constraints'
+): Record<string, Property> => {
+    const chain = typeChain(property);
+    let result: Record<string, Property> | undefined;
+    for (let i = chain.length - 1; i >= 0; i--) {
+        const entries = chain[i]![slot];
+        if (entries) result = { ...result, ...entries };
+    }
+    if (!result) return property[slot] ?? {};
+    return { ...result, ...property[slot] };
+};
+
+/**
+ * Look up one metadata or constraint entry, falling back to the type chain.
+ */
+export const inheritedEntry = (
+    property: Property,
+    slot: 'metadata' | 'constraints',
+    key: string
+): Property | undefined => {
+    const own = property[slot]?.[key];
+    if (own) return own;
+    for (const type of typeChain(property)) {
+        const entry = type[slot]?.[key];
+        if (entry) return entry;
+    }
+    return undefined;
+};
+
+// ============================================================================
+// VALUE CHECKING
+// ============================================================================
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Check one level of the type chain.
+ */
+const matchesLevel = (value: unknown, type: Property): boolean => {
+    switch (type) {
+        case STRING:
+            return typeof value === 'string';
+        case NUMBER:
+            return typeof value === 'number' && Number.isFinite(value);
+        case INTEGER:
+            return Number.isInteger(value);
+        case BOOLEAN:
+            return typeof value === 'boolean';
+        case DATE:
+            if (value instanceof Date) return !isNaN(value.getTime());
+            return typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value));
+    }
+
+    switch (type.type) {
+        case ENUM:
+            return (type.value as unknown[]).includes(value);
+        case LIST:
+            return Array.isArray(value) &&
+                value.every(item => matchesType(item, type.value as Property));
+        case RECORD:
+            return isPlainObject(value) &&
+                Object.values(value).every(item => matchesType(item, type.value as Property));
+        case UNION:
+            return (type.value as Property[]).some(member => matchesType(value, member));
+    }
+
+    return true;
+};
+
+/**
+ * Check a value against a type and every type it inherits from.
+ * Types outside the built-in families accept any value.
+ */
+export const matchesType = (value: unknown, type: Property): boolean => {
+    if (value === null || value === undefined) return true;
+    if (!matchesLevel(value, type)) return false;
+    for (const parent of typeChain(type)) {
+        if (!matchesLevel(value, parent)) return false;
+    }
+    return true;
+};
+
+// ============================================================================
+// ASSIGNABILITY
+// ============================================================================
+
+const BUILT_IN = new Set<Property>([STRING, NUMBER, INTEGER, BOOLEAN, DATE, ENUM, LIST, RECORD, UNION]);
+
+/**
+ * Check if a type is (or derives from) a built-in value type.
+ */
+export const isValueType = (type: Property): boolean =>
+    BUILT_IN.has(type) || typeChain(type).some(parent => BUILT_IN.has(parent));
+
+/**
+ * Check statically that values of type `actual` are accepted where `expected` is.
+ * Unknown types (undefined, ANY or types outside the built-in families) are
+ * assignable both ways, so only definite mismatches are rejected.
+ */
+export const isAssignable = (actual: Property | undefined, expected: Property | undefined): boolean => {
+    if (!actual || !expected || actual === expected) return true;
+    if (!isValueType(actual) || !isValueType(expected)) return true;
+
+    if (expected.type === UNION) {
+        return (expected.value as Property[]).some(member => isAssignable(actual, member));
+    }
+    if (actual.type === UNION) {
+        return (actual.value as Property[]).every(member => isAssignable(member, expected));
+    }
+    if (actual.type === ENUM) {
+        return (actual.value as unknown[]).every(value => matchesType(value, expected));
+    }
+    if (typeChain(actual).includes(expected)) return true;
+
+    // Parameterized types: compare their parameters, a bare base accepts any
+    for (const base of [LIST, RECORD]) {
+        if (expected.type === base && (actual === base || actual.type === base)) {
+            return actual === base || isAssignable(actual.value as Property, expected.value as Property);
+        }
+    }
+    return false;
+};
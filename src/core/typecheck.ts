@@ -0,0 +1,344 @@
+/**
+ * ============================================================================
+ * TYPECHECK
+ * ============================================================================
+ * Static checking of the expressions in a property tree, without evaluating.
+ *
+ * - op: the operator must be registered; argument counts and types are
+ *       checked against its signature (see OperatorOptions.signature)
+ * - ref: the path must resolve in the tree (bindings such as `item` are
+ *       only known inside operators that declare them)
+ * - values: a computed value must fit the property's schema type
+ *
+ * Types are inferred from literals, schema types of referenced properties
+ * and operator return types. Anything unknown is accepted.
+ */
+
+import { Property } from './property';
+import { Registry } from './Registry';
+import { isLit, isRef, isOp, isExpr, isProperty } from './guards';
+import { parentIndexFor, ParentIndex } from './ParentIndex';
+import { STRING, NUMBER, BOOLEAN, DATE, LIST, RECORD, isAssignable, isValueType } from './schema';
+import { expressionsOf, ExpressionSite } from './expressions';
+import { refPathOf, isOptional, compileRefWalk, RefWalkRules } from './refs';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kind of problem found by typecheck().
+ */
+export type TypeIssueCode = 'unknown-operator' | 'arity' | 'type-mismatch' | 'unresolved-ref';
+
+/**
+ * A problem found in an expression.
+ */
+export interface TypeIssue {
+    readonly code: TypeIssueCode;
+    /**
+     * Location of the expression from the tree root, e.g.
+     * ['total', 'value', 'arg1'] or ['email', 'constraints', 'format', 'value']
+     */
+    readonly path: string[];
+    /** Message prefixed with the location */
+    readonly message: string;
+    /** The offending expression */
+    readonly expr: Property;
+}
+
+/**
+ * Result of typecheck().
+ */
+export interface TypecheckResult {
+    readonly valid: boolean;
+    readonly issues: TypeIssue[];
+}
+
+/**
+ * Options for typecheck().
+ */
+export interface TypecheckOptions {
+    /** Names bound at evaluation time (e.g. by withBindings), treated as unknown */
+    readonly bindings?: readonly string[];
+}
+
+/**
+ * Where an expression is checked: its self, the names in scope,
+ * and where to report issues.
+ */
+interface Scope {
+    readonly self: Property;
+    readonly names: ReadonlySet<string>;
+    readonly path: string[];
+    readonly report?: (issue: TypeIssue) => void;
+}
+
+interface Checker {
+    readonly root: Property;
+    readonly registry: Registry;
+    readonly parents: ParentIndex;
+    /** Referenced Properties being inferred (breaks reference cycles) */
+    readonly resolving: Set<Property>;
+    /** Receives the expressions the checked expression references directly */
+    readonly onReference?: (reference: ExpressionReference) => void;
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+const nameOf = (type: Property | undefined): string => type?.id ?? 'unknown';
+
+const issue = (scope: Scope, code: TypeIssueCode, expr: Property, text: string): void => {
+    const location = scope.path.join('.') || 'root';
+    scope.report?.({ code, path: scope.path, message: `${location}: ${text}`, expr });
+};
+
+/**
+ * Infer the type of a literal value.
+ */
+const literalType = (value: unknown): Property | undefined => {
+    if (typeof value === 'string') return STRING;
+    if (typeof value === 'number') return NUMBER;
+    if (typeof value === 'boolean') return BOOLEAN;
+    if (value instanceof Date) return DATE;
+    if (Array.isArray(value)) return LIST;
+    if (value && typeof value === 'object' && !isProperty(value)) return RECORD;
+    return undefined;
+};
+
+/**
+ * Infer the type of an expression, reporting problems inside it.
+ */
+const infer = (expr: Property, scope: Scope, checker: Checker): Property | undefined => {
+    if (isLit(expr)) return literalType(expr.value);
+    if (isRef(expr)) return resolveRef(expr, scope, checker);
+    if (isOp(expr)) return inferOp(expr, scope, checker);
+    return undefined;
+};
+
+const inferOp = (expr: Property, scope: Scope, checker: Checker): Property | undefined => {
+    const name = expr.id;
+    const args = expr.children ? Object.entries(expr.children) : [];
+
+    if (!checker.registry.has(name)) {
+        issue(scope, 'unknown-operator', expr, `Unknown operator: ${name}`);
+    }
+
+    const signature = checker.registry.getSignature(name);
+    const names = signature?.binds
+        ? new Set([...scope.names, ...signature.binds])
+        : scope.names;
+
+    args.forEach(([key, arg], i) => {
+        const argScope = { ...scope, names, path: [...scope.path, key] };
+        const actual = infer(arg, argScope, checker);
+        const expected = signature?.args?.[i] ?? signature?.rest;
+        if (!isAssignable(actual, expected)) {
+            issue(argScope, 'type-mismatch', arg,
+                `${name} argument ${i + 1} expects ${nameOf(expected)}, got ${nameOf(actual)}`);
+        }
+    });
+
+    if (signature?.args) {
+        const required = signature.required ?? signature.args.length;
+        const tooMany = !signature.rest && args.length > signature.args.length;
+        if (args.length < required || tooMany) {
+            const expected = signature.rest
+                ? `at least ${required}`
+                : required === signature.args.length
+                    ? `${required}`
+                    : `${required} to ${signature.args.length}`;
+            issue(scope, 'arity', expr,
+                `${name} expects ${expected} argument(s), got ${args.length}`);
+        }
+    }
+
+    return signature?.returns;
+};
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+interface RefCheck {
+    readonly expr: Property;
+    readonly scope: Scope;
+    readonly checker: Checker;
+}
+
+type RefType = Property | undefined;
+
+/**
+ * How references walk when checked: the evaluator's walk (see refs.ts),
+ * yielding the target's type instead of its value.
+ */
+const CHECK_RULES: RefWalkRules<RefCheck, RefType> = {
+    self: ({ scope }) => scope.self,
+    root: ({ checker }) => checker.root,
+    parentOf: (property, { checker }) => checker.parents.get(property),
+    isBound: (name, { scope }) => scope.names.has(name),
+    // Bound names are only known at evaluation time
+    bound: () => undefined,
+    value: (current, owner, _slot, { checker }) => valueType(current, owner, checker),
+    end: (current, owner, _slot, { checker }) => valueType(current, owner, checker),
+    id: () => STRING,
+    children: () => LIST,
+    missing: (ref, index, { expr, scope }) => {
+        if (!isOptional(ref, index)) {
+            issue(scope, 'unresolved-ref', expr, `Reference ${ref.segments.join('.')} does not resolve`);
+        }
+        return undefined;
+    },
+};
+
+// Cache for compiled reference checks
+const refChecks = new WeakMap<Property, (check: RefCheck) => RefType>();
+
+/**
+ * Resolve a reference path against the tree, walking it as the evaluator
+ * does. Reports the path if it does not resolve (unless the missing
+ * segment is optional); returns the target's type.
+ */
+const resolveRef = (expr: Property, scope: Scope, checker: Checker): Property | undefined => {
+    const ref = refPathOf(expr);
+    if (ref.names.length === 0) return undefined;
+    let check = refChecks.get(expr);
+    if (!check) {
+        check = compileRefWalk(ref, CHECK_RULES);
+        refChecks.set(expr, check);
+    }
+    return check({ expr, scope, checker });
+};
+
+/**
+ * Type of a referenced Property's value: its schema type, or the type of
+ * the expression or literal it holds.
+ */
+const valueType = (target: Property, owner: Property, checker: Checker): Property | undefined => {
+    const expr = isExpr(target) ? target : isProperty(target.value) ? target.value as Property : undefined;
+    if (expr && checker.resolving.size === 0) {
+        checker.onReference?.({ expr, owner });
+    }
+
+    if (!isExpr(target) && target.type && isValueType(target.type)) return target.type;
+    if (!expr) return literalType(target.value);
+
+    // Problems inside the referenced expression are reported at its own location
+    if (checker.resolving.has(expr)) return undefined;
+    checker.resolving.add(expr);
+    try {
+        return infer(expr, { self: owner, names: new Set(), path: [] }, checker);
+    } finally {
+        checker.resolving.delete(expr);
+    }
+};
+
+// ============================================================================
+// REFERENCED EXPRESSIONS
+// ============================================================================
+
+/**
+ * An expression reached through a reference, with the Property it runs for.
+ */
+export interface ExpressionReference {
+    readonly expr: Property;
+    readonly owner: Property;
+}
+
+/**
+ * List the expressions a site references directly (computed values,
+ * metadata and constraints reached through its refs).
+ */
+export const referencesOf = (
+    site: ExpressionSite,
+    root: Property,
+    registry: Registry,
+    options: TypecheckOptions = {}
+): ExpressionReference[] => {
+    const references: ExpressionReference[] = [];
+    infer(site.expr, { self: site.self, names: new Set(options.bindings), path: site.path },
+        createChecker(root, registry, (reference) => references.push(reference)));
+    return references;
+};
+
+// ============================================================================
+// TYPECHECK
+// ============================================================================
+
+const createChecker = (
+    root: Property,
+    registry: Registry,
+    onReference?: (reference: ExpressionReference) => void
+): Checker => ({
+    root,
+    registry,
+    parents: parentIndexFor(root),
+    resolving: new Set(),
+    onReference,
+});
+
+/**
+ * Check a single expression site of a tree.
+ * Returns the problems found inside the expression.
+ */
+export const checkExpression = (
+    site: ExpressionSite,
+    root: Property,
+    registry: Registry,
+    options: TypecheckOptions = {}
+): TypeIssue[] => {
+    const issues: TypeIssue[] = [];
+    infer(site.expr, {
+        self: site.self,
+        names: new Set(options.bindings),
+        path: site.path,
+        report: (found) => issues.push(found),
+    }, createChecker(root, registry));
+    return issues;
+};
+
+/**
+ * Check every expression in a property tree against the registry.
+ *
+ * @example
+ * const result = typecheck(form, registry);
+ * if (!result.valid) {
+ *     throw new Error(result.issues.map(i => i.message).join('\n'));
+ * }
+ */
+export const typecheck = (
+    root: Property,
+    registry: Registry,
+    options: TypecheckOptions = {}
+): TypecheckResult => {
+    const issues: TypeIssue[] = [];
+    const checker = createChecker(root, registry);
+    const names = new Set(options.bindings);
+    const report = (found: TypeIssue): void => {
+        issues.push(found);
+    };
+
+    const visit = (node: Property, path: string[]): void => {
+        for (const site of expressionsOf(node, path)) {
+            const scope = { self: node, names, path: site.path, report };
+            const actual = infer(site.expr, scope, checker);
+
+            // A computed value must fit the node's schema type
+            const declared = node.type && isValueType(node.type) ? node.type : undefined;
+            if (site.expr === node.value && !isAssignable(actual, declared)) {
+                issue(scope, 'type-mismatch', site.expr,
+                    `${node.id} is declared ${nameOf(declared)}, but its value is ${nameOf(actual)}`);
+            }
+        }
+        if (node.children) {
+            for (const [key, child] of Object.entries(node.children)) {
+                visit(child, [...path, key]);
+            }
+        }
+    };
+    visit(root, []);
+
+    return { valid: issues.length === 0, issues };
+};
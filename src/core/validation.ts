@@ -0,0 +1,131 @@
+/**
+ * ============================================================================
+ * VALIDATION
+ * ============================================================================
+ * Structured validation results.
+ *
+ * A failing constraint becomes a ValidationIssue. The constraint's own
+ * metadata describes the issue:
+ * - message:  message template, e.g. 'At least {min} characters'
+ * - code:     error code (defaults to the constraint key)
+ * - severity: 'error' (default), 'warning' or 'info'
+ * - params:   Property whose children are interpolation params
+ * - targets:  path or list of paths (relative to the owning node) of the
+ *             fields the issue is reported against, e.g. ['confirm']
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Severity of a validation issue.
+ * Only errors make a node invalid.
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A failed constraint.
+ */
+export interface ValidationIssue {
+    /** Constraint key */
+    readonly constraint: string;
+    /** Error code (constraint metadata 'code', or the constraint key) */
+    readonly code: string;
+    readonly severity: ValidationSeverity;
+    /** Path of the field the issue is reported against, from the tree root */
+    readonly path: string[];
+    /** Path of the node owning the constraint (differs from path for targeted constraints) */
+    readonly source: string[];
+    /** Interpolation params, including the node's evaluated value as 'actual' */
+    readonly params: Record<string, unknown>;
+    /** Message with params interpolated */
+    readonly message: string;
+}
+
+/**
+ * Result of PropertyNode.validate().
+ */
+export interface ValidationResult {
+    /** False if any issue has severity 'error' */
+    readonly valid: boolean;
+    /** Constraint key -> message, for issues with severity 'error' */
+    readonly errors: Record<string, string>;
+    /** Every issue, whatever its severity */
+    readonly issues: ValidationIssue[];
+}
+
+/**
+ * Result of PropertyNode.validateDeep().
+ * Grouping keys are the issues' target paths relative to the validated node
+ * ('root' for itself).
+ */
+export interface DeepValidationResult {
+    readonly valid: boolean;
+    /** Path -> constraint key -> message, for issues with severity 'error' */
+    readonly errors: Record<string, Record<string, string>>;
+    /** Every issue in the tree */
+    readonly issues: ValidationIssue[];
+    /** Path -> issues of that node */
+    readonly issuesByPath: Record<string, ValidationIssue[]>;
+}
+
+/**
+ * Validation state of a node.
+ * - idle: never validated (or the last run failed with an error)
+ * - pending: a run is in flight (or waiting for its debounce delay)
+ * - valid / invalid: outcome of the latest run
+ */
+export type ValidationState = 'idle' | 'pending' | 'valid' | 'invalid';
+
+/**
+ * Validation state callback type.
+ * The result is passed once the state is 'valid' or 'invalid'.
+ */
+export type ValidationStateCallback = (state: ValidationState, result?: ValidationResult) => void;
+
+/**
+ * Options for PropertyNode.validate().
+ */
+export interface ValidateOptions {
+    /** Cancels the run; its reason is thrown */
+    readonly signal?: AbortSignal;
+    /** Wait this many milliseconds before evaluating; a newer run replaces this one */
+    readonly debounce?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SEVERITIES: readonly ValidationSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Normalize a severity value (anything unknown counts as 'error').
+ */
+export const toSeverity = (value: unknown): ValidationSeverity =>
+    SEVERITIES.includes(value as ValidationSeverity) ? value as ValidationSeverity : 'error';
+
+/**
+ * Replace {name} placeholders with params. Unknown placeholders are kept.
+ */
+export const interpolate = (template: string, params: Record<string, unknown>): string =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match
+    );
+
+/**
+ * Normalize constraint targets ('a.b' or ['a', 'c.d']) to path segments.
+ */
+export const toTargetPaths = (value: unknown): string[][] => {
+    const targets = Array.isArray(value) ? value : [value];
+    return targets
+        .filter((target): target is string => typeof target === 'string' && target !== '')
+        .map(target => target.split('.'));
+};
+
+/**
+ * Check if a list of issues contains an error.
+ */
+export const hasErrors = (issues: readonly ValidationIssue[]): boolean =>
+    issues.some(issue => issue.severity === 'error');
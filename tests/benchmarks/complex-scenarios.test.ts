@@ -551,6 +551,62 @@ describe('Complex Scenarios Benchmarks', () => {
         });
     });
 
+    describe('Memoized Snapshot', () => {
+        // 500 fields sharing one computed metadata entry on the root
+        const createPricedWizard = (fields: number): Property => {
+            const children: Record<string, Property> = {};
+            for (let i = 0; i < fields; i++) {
+                children[`field${i}`] = {
+                    id: `field${i}`,
+                    type: PROPERTY,
+                    value: op('mul', ref('root.metadata.rate'), lit(i)),
+                };
+            }
+            return {
+                id: 'wizard',
+                type: PROPERTY,
+                metadata: {
+                    rate: op('add', ref('root.metadata.base'), lit(0.5)),
+                    base: { id: 'base', type: PROPERTY, value: 1 },
+                },
+                children,
+            };
+        };
+
+        test('snapshot of 500-field wizard evaluates shared metadata once', async () => {
+            const node = PropertyNode.create(createPricedWizard(500), registry).enableCache();
+
+            const first = await node.snapshot();
+            expect(first.field2).toBe(3);
+            // 500 field values + rate once; the other 499 rate reads hit
+            expect(node.cacheStats()).toEqual({ hits: 499, misses: 501, size: 501 });
+
+            await node.snapshot();
+            expect(node.cacheStats()).toEqual({ hits: 999, misses: 501, size: 501 });
+
+            // Mutations invalidate the cache
+            node.setMetadata('base', { id: 'base', type: PROPERTY, value: 2 });
+            const updated = await node.snapshot();
+            expect(updated.field2).toBe(5);
+            expect(node.cacheStats()!.misses).toBe(1002);
+        });
+
+        test('cached vs uncached snapshot (500 fields)', async () => {
+            const uncached = PropertyNode.create(createPricedWizard(500), registry);
+            const cached = PropertyNode.create(createPricedWizard(500), registry).enableCache();
+
+            const uncachedTime = await benchmark('uncached snapshot 500 fields', async () => {
+                await uncached.snapshot();
+            }, 5);
+            const cachedTime = await benchmark('cached snapshot 500 fields', async () => {
+                await cached.snapshot();
+            }, 5);
+
+            expect(await cached.snapshot()).toEqual(await uncached.snapshot());
+            expect(cachedTime).toBeLessThan(uncachedTime);
+        });
+    });
+
     describe('End-to-End Workflow', () => {
         test('complete form lifecycle', async () => {
             const time = await benchmark('complete form lifecycle', async () => {
@@ -12,7 +12,10 @@ import {
     ref,
     PropertyNode,
     createRegistry,
+    createStandardRegistry,
     evaluate,
+    evaluateSync,
+    compile,
     evalArg,
     evalArgs,
     EvaluationContext,
@@ -456,6 +459,25 @@ describe('Expression Evaluation Benchmarks', () => {
 
             expect(time).toBeLessThan(20);
         });
+
+        test('resolve parent references across 1000 siblings', async () => {
+            const children: Record<string, Property> = {};
+            for (let i = 0; i < 1000; i++) {
+                children[`field${i}`] = { id: `field${i}`, type: PROPERTY, value: i };
+            }
+            const root: Property = { id: 'form', type: PROPERTY, value: 'form', children };
+            const siblings = Object.values(children);
+            const expr = ref('parent.value');
+
+            const time = await benchmark('1000 parent refs (1000 siblings)', async () => {
+                for (const sibling of siblings) {
+                    await evaluate(expr, createContext(sibling, root));
+                }
+            });
+
+            expect(await evaluate(expr, createContext(siblings[999]!, root))).toBe('form');
+            expect(time).toBeLessThan(20);
+        });
     });
 
     describe('Complex Expressions', () => {
@@ -566,3 +588,139 @@ describe('Expression Evaluation Benchmarks', () => {
         });
     });
 });
+
+describe('Sync Fast Path Benchmarks', () => {
+    const registry = createStandardRegistry();
+
+    const createPricing = (): Property => ({
+        id: 'pricing',
+        type: PROPERTY,
+        children: {
+            quantity: { id: 'quantity', type: PROPERTY, value: 12 },
+            price: { id: 'price', type: PROPERTY, value: 9.5 },
+            discount: { id: 'discount', type: PROPERTY, value: 0.1 },
+        },
+    });
+
+    const total = op('if',
+        op('gt', ref('self.quantity.value'), lit(10)),
+        op('mul', op('mul', ref('self.quantity.value'), ref('self.price.value')), op('sub', lit(1), ref('self.discount.value'))),
+        op('mul', ref('self.quantity.value'), ref('self.price.value'))
+    );
+
+    test('evaluateSync vs evaluate on 1000 pricing expressions', async () => {
+        const root = createPricing();
+        const ctx: EvaluationContext = { current: root, root, registry };
+
+        const asyncTime = await benchmark('1000 async evaluate', async () => {
+            for (let i = 0; i < 1000; i++) {
+                await evaluate(total, ctx);
+            }
+        }, 5);
+
+        const syncTime = await benchmark('1000 evaluateSync', () => {
+            for (let i = 0; i < 1000; i++) {
+                evaluateSync(total, ctx);
+            }
+        });
+
+        expect(evaluateSync(total, ctx)).toBe(await evaluate(total, ctx));
+        expect(syncTime).toBeLessThan(asyncTime * 2);
+        expect(syncTime).toBeLessThan(50);
+    });
+
+    test('getValue 500 times on sync-safe computed property', async () => {
+        const node = PropertyNode.create({ ...createPricing(), value: total }, registry);
+
+        const time = await benchmark('500 sync-path getValue', async () => {
+            for (let i = 0; i < 500; i++) {
+                await node.getValue();
+            }
+        });
+
+        expect(await node.getValue()).toBeCloseTo(102.6);
+        expect(time).toBeLessThan(30);
+    });
+});
+
+describe('Compiled Expression Benchmarks', () => {
+    const registry = createStandardRegistry();
+
+    /**
+     * A pricing sheet: each line total references its own quantity and
+     * price, the sheet total sums every line.
+     */
+    const createSheet = (lines: number): Property => ({
+        id: 'sheet',
+        type: PROPERTY,
+        children: Object.fromEntries(Array.from({ length: lines }, (_, i) => [`line${i}`, {
+            id: `line${i}`,
+            type: PROPERTY,
+            children: {
+                quantity: { id: 'quantity', type: PROPERTY, value: i % 7 + 1 },
+                price: { id: 'price', type: PROPERTY, value: 2.5 },
+                total: {
+                    id: 'total',
+                    type: PROPERTY,
+                    value: op('mul', ref('parent.quantity.value'), ref('parent.price.value')),
+                },
+            },
+        }])),
+    });
+
+    const sheetTotal = (lines: number): Property =>
+        op('add', ...Array.from({ length: lines }, (_, i) => ref(`self.line${i}.total.value`)));
+
+    test('compiled vs interpreted evaluation of a 200-line pricing sheet', async () => {
+        const root = createSheet(200);
+        const expr = sheetTotal(200);
+        const ctx: EvaluationContext = { current: root, root, registry };
+        const compiled = compile(expr, registry);
+
+        const interpretedTime = await benchmark('200-line sheet, evaluateSync', () => {
+            evaluateSync(expr, ctx);
+        }, 1000);
+
+        const compiledTime = await benchmark('200-line sheet, compiled sync', () => {
+            compiled.sync(ctx);
+        }, 1000);
+
+        expect(compiled.sync(ctx)).toBe(evaluateSync(expr, ctx));
+        expect(await compiled(ctx)).toBe(await evaluate(expr, ctx));
+        expect(compiledTime).toBeLessThan(interpretedTime);
+    });
+
+    test('compiled vs interpreted async evaluation of 1000 pricing expressions', async () => {
+        const root: Property = {
+            id: 'pricing',
+            type: PROPERTY,
+            children: {
+                quantity: { id: 'quantity', type: PROPERTY, value: 12 },
+                price: { id: 'price', type: PROPERTY, value: 9.5 },
+                discount: { id: 'discount', type: PROPERTY, value: 0.1 },
+            },
+        };
+        const total = op('if',
+            op('gt', ref('self.quantity.value'), lit(10)),
+            op('mul', ref('self.quantity.value'), ref('self.price.value'), op('sub', lit(1), ref('self.discount.value'))),
+            op('mul', ref('self.quantity.value'), ref('self.price.value'))
+        );
+        const ctx: EvaluationContext = { current: root, root, registry };
+        const compiled = compile(total, registry);
+
+        const interpretedTime = await benchmark('1000 async evaluate', async () => {
+            for (let i = 0; i < 1000; i++) {
+                await evaluate(total, ctx);
+            }
+        }, 5);
+
+        const compiledTime = await benchmark('1000 async compiled', async () => {
+            for (let i = 0; i < 1000; i++) {
+                await compiled(ctx);
+            }
+        }, 5);
+
+        expect(await compiled(ctx)).toBeCloseTo(102.6);
+        expect(compiledTime).toBeLessThan(interpretedTime);
+    });
+});
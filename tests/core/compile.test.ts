@@ -0,0 +1,80 @@
+/**
+ * Compiler Tests
+ * ==============
+ * Tests for compiled expressions. Their results are checked against the
+ * interpreter by running the evaluator tests on both engines.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    compile,
+    evaluate,
+    UnknownOperatorError,
+    PROPERTY,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, EvaluationContext } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const createLine = (quantity: number): Property => ({
+    id: 'line',
+    type: PROPERTY,
+    children: {
+        quantity: { id: 'quantity', type: PROPERTY, value: quantity },
+        price: { id: 'price', type: PROPERTY, value: 2.5 },
+        total: {
+            id: 'total',
+            type: PROPERTY,
+            value: op('mul', ref('parent.quantity.value'), ref('parent.price.value')),
+        },
+    },
+});
+
+const contextFor = (root: Property, registry = createStandardRegistry()): EvaluationContext => ({
+    current: root,
+    root,
+    registry,
+});
+
+// ============================================================================
+// COMPILE
+// ============================================================================
+
+describe('Compiler: compile', () => {
+    test('one compiled expression evaluates against any context', async () => {
+        const registry = createStandardRegistry();
+        const total = compile(op('add', ref('self.total.value'), lit(1)), registry);
+
+        expect(await total(contextFor(createLine(2), registry))).toBe(6);
+        expect(total.sync(contextFor(createLine(4), registry))).toBe(11);
+    });
+
+    test('operators are bound at compile time', async () => {
+        const registry = createStandardRegistry();
+        const expr = op('double', lit(2));
+        const before = compile(expr, registry);
+        registry.register('double', (args, ctx) => evaluate(args[0]!, ctx).then(n => (n as number) * 2));
+
+        await expect(before(contextFor(createLine(1), registry))).rejects.toThrow(UnknownOperatorError);
+        expect(await compile(expr, registry)(contextFor(createLine(1), registry))).toBe(4);
+    });
+
+    test('hooks see the same evaluation as the interpreter', async () => {
+        const registry = createStandardRegistry();
+        const expr = op('add', ref('self.total.value'), lit(1));
+        const entered = async (evaluateWith: (ctx: EvaluationContext) => Promise<unknown>) => {
+            const ids: string[] = [];
+            await evaluateWith({ ...contextFor(createLine(3), registry), onEnter: (e) => ids.push(e.id) });
+            return ids;
+        };
+
+        expect(await entered(compile(expr, registry)))
+            .toEqual(await entered((ctx) => evaluate(expr, ctx)));
+    });
+});
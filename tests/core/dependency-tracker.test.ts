@@ -0,0 +1,348 @@
+/**
+ * Dependency Tracker Tests
+ * ========================
+ * Tests for dependency recording and fine-grained recomputation.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PropertyNode,
+    DependencyTracker,
+    PROPERTY,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, ComputedChange } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const createOrder = (): Property => ({
+    id: 'order',
+    type: PROPERTY,
+    children: {
+        price: { id: 'price', type: PROPERTY, value: 10 },
+        quantity: { id: 'quantity', type: PROPERTY, value: 2 },
+        note: { id: 'note', type: PROPERTY, value: '' },
+        total: {
+            id: 'total',
+            type: PROPERTY,
+            value: op('mul', ref('parent.price.value'), ref('parent.quantity.value')),
+        },
+        discounted: {
+            id: 'discounted',
+            type: PROPERTY,
+            value: op('sub', ref('parent.total.value'), lit(5)),
+            metadata: {
+                visible: op('gt', ref('parent.total.value'), lit(0)),
+            },
+            constraints: {
+                positive: {
+                    id: 'positive',
+                    type: CONSTRAINT,
+                    value: op('gt', ref('self.value'), lit(0)),
+                },
+            },
+        },
+    },
+});
+
+const setup = async () => {
+    const counts: Record<string, number> = {};
+    const registry = createStandardRegistry();
+    const mul = registry.get('mul')!;
+    registry.register('mul', (args, ctx) => {
+        counts.mul = (counts.mul ?? 0) + 1;
+        return mul(args, ctx);
+    });
+
+    const root = PropertyNode.create(createOrder(), registry);
+    const tracker = new DependencyTracker(root);
+    await tracker.start();
+    return { root, tracker, counts };
+};
+
+// ============================================================================
+// DEPENDENCY GRAPH
+// ============================================================================
+
+describe('DependencyTracker: Graph', () => {
+    test('discovers computed values, metadata and constraints', async () => {
+        const { tracker } = await setup();
+
+        expect(tracker.keys().sort()).toEqual([
+            'discounted',
+            'discounted.constraints.positive',
+            'discounted.metadata.visible',
+            'total',
+        ]);
+        expect(tracker.get('total')).toBe(20);
+        expect(tracker.get('discounted')).toBe(15);
+        expect(tracker.get('discounted.metadata.visible')).toBe(true);
+        expect(tracker.get('discounted.constraints.positive')).toBe(true);
+    });
+
+    test('records the paths each entry reads', async () => {
+        const { tracker } = await setup();
+
+        // Reads made while evaluating a referenced expression count too
+        expect(tracker.dependenciesOf('discounted').sort()).toEqual(['price', 'quantity', 'total']);
+        expect(tracker.dependenciesOf('total').sort()).toEqual(['price', 'quantity']);
+        expect(tracker.dependenciesOf('discounted.constraints.positive')).toContain('discounted');
+        expect(tracker.dependentsOf('total').sort()).toEqual([
+            'discounted',
+            'discounted.constraints.positive',
+            'discounted.metadata.visible',
+        ]);
+        expect(tracker.dependentsOf('note')).toEqual([]);
+    });
+
+    test('records metadata reads by key', async () => {
+        const root = PropertyNode.create({
+            id: 'form',
+            type: PROPERTY,
+            metadata: { mode: lit('edit') },
+            children: {
+                field: {
+                    id: 'field',
+                    type: PROPERTY,
+                    value: op('eq', ref('root.metadata.mode'), lit('edit')),
+                },
+            },
+        }, createStandardRegistry());
+        const tracker = new DependencyTracker(root);
+        await tracker.start();
+
+        expect(tracker.dependenciesOf('field')).toEqual(['metadata.mode']);
+    });
+});
+
+// ============================================================================
+// RECOMPUTATION
+// ============================================================================
+
+describe('DependencyTracker: Recomputation', () => {
+    test('marks only dependents dirty', async () => {
+        const { root, tracker } = await setup();
+
+        const dirty = tracker.invalidate(['discounted']);
+        expect(dirty.sort()).toEqual(['discounted', 'discounted.constraints.positive']);
+        expect(tracker.isDirty('discounted')).toBe(true);
+        expect(tracker.isDirty('total')).toBe(false);
+
+        await tracker.flush();
+        expect(tracker.isDirty('total')).toBe(false);
+        root.destroy();
+    });
+
+    test('unrelated changes do not recompute anything', async () => {
+        const { root, tracker, counts } = await setup();
+        const before = counts.mul;
+
+        root.setValue('hello', { path: 'note' });
+        expect(await tracker.flush()).toEqual([]);
+        expect(counts.mul).toBe(before);
+    });
+
+    test('recomputes transitive dependents and emits changed results', async () => {
+        const { root, tracker } = await setup();
+        const events: ComputedChange[][] = [];
+        tracker.subscribe(changes => events.push(changes));
+
+        root.setValue(3, { path: 'quantity' });
+        await tracker.flush();
+
+        expect(events).toHaveLength(1);
+        const byKey = Object.fromEntries(events[0].map(c => [c.key, c]));
+        expect(byKey.total.value).toBe(30);
+        expect(byKey.total.previous).toBe(20);
+        expect(byKey.discounted.value).toBe(25);
+        expect(byKey.discounted.kind).toBe('value');
+        expect(byKey.discounted.path).toEqual(['discounted']);
+        // visible and positive stay true, so they are not reported
+        expect(byKey['discounted.metadata.visible']).toBeUndefined();
+        expect(byKey['discounted.constraints.positive']).toBeUndefined();
+    });
+
+    test('reports constraint results that flip', async () => {
+        const { root, tracker } = await setup();
+        const events: ComputedChange[][] = [];
+        tracker.subscribe(changes => events.push(changes));
+
+        root.setValue(1, { path: 'price' });
+        await tracker.flush();
+
+        const positive = events[0].find(c => c.key === 'discounted.constraints.positive')!;
+        expect(positive.kind).toBe('constraint');
+        expect(positive.name).toBe('positive');
+        expect(positive.value).toBe(false);
+        expect(positive.previous).toBe(true);
+    });
+
+    test('batched changes recompute each entry once', async () => {
+        const { root, tracker, counts } = await setup();
+        const before = counts.mul;
+
+        root.batch(() => {
+            root.setValue(4, { path: 'price' });
+            root.setValue(5, { path: 'quantity' });
+        });
+        await tracker.flush();
+
+        // total, discounted, visible and positive each read the product once
+        expect(counts.mul).toBe(before + 4);
+        expect(tracker.get('total')).toBe(20);
+    });
+
+    test('replacing an expression re-records its dependencies', async () => {
+        const { root, tracker } = await setup();
+
+        root.get('total')!.setValue(op('mul', ref('parent.price.value'), lit(3)));
+        await tracker.flush();
+
+        expect(tracker.get('total')).toBe(30);
+        expect(tracker.dependenciesOf('total')).toEqual(['price']);
+        expect(tracker.dependentsOf('quantity')).toEqual([]);
+    });
+
+    test('a literal turned into an expression is computed and tracked', async () => {
+        const { root, tracker } = await setup();
+        root.setValue(7, { path: 'note' });
+        await tracker.flush();
+        expect(tracker.keys()).not.toContain('note');
+
+        root.child('note')!.setValue(op('mul', ref('root.price.value'), lit(2)));
+        await tracker.flush();
+        expect(tracker.get('note')).toBe(20);
+        expect(tracker.isDirty('note')).toBe(false);
+        expect(tracker.dependenciesOf('note')).toEqual(['price']);
+
+        root.setValue(4, { path: 'price' });
+        const changes = await tracker.flush();
+        expect(changes.find(c => c.key === 'note')?.value).toBe(8);
+    });
+
+    test('adding and removing children recomputes aggregates over them', async () => {
+        const root = PropertyNode.create({
+            id: 'invoice',
+            type: PROPERTY,
+            children: {
+                lines: {
+                    id: 'lines',
+                    type: PROPERTY,
+                    children: {
+                        l1: { id: 'l1', type: PROPERTY, value: 1 },
+                        l2: { id: 'l2', type: PROPERTY, value: 2 },
+                    },
+                },
+                count: { id: 'count', type: PROPERTY, value: op('length', ref('root.lines.children')) },
+            },
+        }, createStandardRegistry());
+        const tracker = new DependencyTracker(root);
+        await tracker.start();
+        expect(tracker.dependenciesOf('count')).toEqual(['lines.children']);
+
+        root.child('lines')!.addChild('l3', { id: 'l3', type: PROPERTY, value: 3 });
+        await tracker.flush();
+        expect(tracker.get('count')).toBe(3);
+
+        root.child('lines')!.removeChild('l1');
+        root.child('lines')!.removeChild('l2');
+        await tracker.flush();
+        expect(tracker.get('count')).toBe(1);
+    });
+
+    test('tracks the computed entries of a subtree added after start', async () => {
+        const { root, tracker } = await setup();
+        root.addChild('items', { id: 'items', type: PROPERTY, children: {} });
+        await tracker.flush();
+
+        root.child('items')!.addChild('a', {
+            id: 'a',
+            type: PROPERTY,
+            value: op('mul', ref('root.price.value'), lit(2)),
+            metadata: { visible: op('gt', ref('root.price.value'), lit(5)) },
+            children: {
+                b: { id: 'b', type: PROPERTY, value: op('mul', ref('root.price.value'), lit(3)) },
+            },
+        });
+        await tracker.flush();
+        expect(tracker.get('items.a')).toBe(20);
+        expect(tracker.get('items.a.metadata.visible')).toBe(true);
+        expect(tracker.get('items.a.b')).toBe(30);
+
+        root.setValue(4, { path: 'price' });
+        const changes = await tracker.flush();
+        expect(Object.fromEntries(changes.map(c => [c.key, c.value]))).toMatchObject({
+            'items.a': 8,
+            'items.a.metadata.visible': false,
+            'items.a.b': 12,
+        });
+    });
+
+    test('drops the entries of a subtree removed after start', async () => {
+        const root = PropertyNode.create({
+            id: 'root',
+            type: PROPERTY,
+            children: {
+                price: { id: 'price', type: PROPERTY, value: 10 },
+                items: {
+                    id: 'items',
+                    type: PROPERTY,
+                    children: {
+                        a: {
+                            id: 'a',
+                            type: PROPERTY,
+                            children: {
+                                b: { id: 'b', type: PROPERTY, value: op('mul', ref('root.price.value'), lit(3)) },
+                            },
+                        },
+                    },
+                },
+                summary: { id: 'summary', type: PROPERTY, value: ref('root.items.a.b.value') },
+            },
+        }, createStandardRegistry());
+        const tracker = new DependencyTracker(root);
+        await tracker.start();
+        expect(tracker.get('summary')).toBe(30);
+
+        root.child('items')!.removeChild('a');
+        const changes = await tracker.flush();
+
+        expect(tracker.keys().sort()).toEqual(['summary']);
+        expect(tracker.dependentsOf('price')).toEqual([]);
+        expect(changes.map(c => c.key)).toEqual(['summary']);
+        expect(tracker.get('summary')).toBeUndefined();
+    });
+
+    test('captures evaluation errors on the change', async () => {
+        const { root, tracker } = await setup();
+        const events: ComputedChange[][] = [];
+        tracker.subscribe(changes => events.push(changes));
+
+        root.get('total')!.setValue(op('missing'));
+        await tracker.flush();
+
+        const total = events[0].find(c => c.key === 'total')!;
+        expect(total.error).toBeInstanceOf(Error);
+        expect(total.value).toBeUndefined();
+    });
+
+    test('stop() ends tracking', async () => {
+        const { root, tracker } = await setup();
+        const events: ComputedChange[][] = [];
+        tracker.subscribe(changes => events.push(changes));
+
+        tracker.stop();
+        expect(tracker.isActive).toBe(false);
+        root.setValue(3, { path: 'quantity' });
+        await tracker.flush();
+
+        expect(events).toHaveLength(0);
+        expect(tracker.keys()).toEqual([]);
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Error Tests
+ * ===========
+ * Tests for the typed error hierarchy and its evaluation diagnostics.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PropertyError,
+    UnknownOperatorError,
+    OperatorError,
+    CircularReferenceError,
+    RefResolutionError,
+    EvaluationLimitError,
+    RegistryMissingError,
+    DestroyedNodeError,
+    SyncEvaluationError,
+    ExpressionSyntaxError,
+    parse,
+    print,
+    evaluate,
+    evaluateSync,
+    PropertyNode,
+    PROPERTY,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+registry.register('explode', () => {
+    throw new TypeError('boom');
+}, { sync: true });
+
+const createForm = (): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: {
+        age: { id: 'age', type: PROPERTY, value: 21 },
+        broken: { id: 'broken', type: PROPERTY, value: op('frobnicate') },
+        total: {
+            id: 'total',
+            type: PROPERTY,
+            value: op('add', ref('parent.broken.value'), lit(1)),
+        },
+        checked: {
+            id: 'checked',
+            type: PROPERTY,
+            value: op('and', op('gt', ref('parent.age.value'), lit(18)), op('explode')),
+        },
+    },
+});
+
+const rejection = async (promise: Promise<unknown>): Promise<unknown> => {
+    try {
+        await promise;
+    } catch (error) {
+        return error;
+    }
+    throw new Error('Expected a rejection');
+};
+
+// ============================================================================
+// EVALUATION ERRORS
+// ============================================================================
+
+describe('Errors: Evaluation', () => {
+    test('unknown operators carry the node path and expression chain', async () => {
+        const node = PropertyNode.create(createForm(), registry);
+        const error = await rejection(node.getValue('broken'));
+
+        expect(error).toBeInstanceOf(UnknownOperatorError);
+        expect(error).toBeInstanceOf(PropertyError);
+        expect(error).toMatchObject({
+            name: 'UnknownOperatorError',
+            message: 'Unknown operator: frobnicate',
+            operator: 'frobnicate',
+            path: ['broken'],
+            expressions: ['frobnicate'],
+        });
+    });
+
+    test('the path is where the error happened, the chain how it was reached', async () => {
+        const node = PropertyNode.create(createForm(), registry);
+        const error = await rejection(node.getValue('total'));
+
+        expect(error).toMatchObject({
+            path: ['broken'],
+            expressions: ['add', 'ref:parent.broken.value', 'frobnicate'],
+        });
+    });
+
+    test('operator failures are wrapped with their cause', async () => {
+        const node = PropertyNode.create(createForm(), registry);
+        const error = await rejection(node.getValue('checked'));
+
+        expect(error).toBeInstanceOf(OperatorError);
+        expect(error).toMatchObject({
+            message: 'Operator explode failed: boom',
+            operator: 'explode',
+            path: ['checked'],
+            expressions: ['and', 'explode'],
+        });
+        expect((error as OperatorError).cause).toBeInstanceOf(TypeError);
+    });
+
+    test('synchronous evaluation throws the same errors', () => {
+        const root = createForm();
+        const ctx = { current: root.children!.checked!, root, registry };
+
+        expect(() => evaluateSync(op('not', op('frobnicate')), ctx)).toThrow(UnknownOperatorError);
+        expect(() => evaluateSync(op('explode'), ctx)).toThrow(OperatorError);
+    });
+
+    test('limit errors are annotated too', async () => {
+        const root = createForm();
+        const error = await rejection(evaluate(op('sum', lit([1, 2, 3])), {
+            current: root,
+            root,
+            registry,
+            limits: { maxSteps: 1 },
+        }));
+
+        expect(error).toBeInstanceOf(EvaluationLimitError);
+        expect(error).toMatchObject({ path: [], expressions: ['sum', 'lit'] });
+    });
+
+    test('SyncEvaluationError is not wrapped', () => {
+        const asyncRegistry = createStandardRegistry();
+        asyncRegistry.register('later', async () => 1);
+        const root = createForm();
+
+        expect(() => evaluateSync(op('add', op('later'), lit(1)), { current: root, root, registry: asyncRegistry }))
+            .toThrow(SyncEvaluationError);
+    });
+
+    test('constraint evaluation reports the owning node', async () => {
+        const node = PropertyNode.create(createForm(), registry);
+        const age = node.child('age')!;
+        age.setConstraint('odd', { id: 'odd', type: CONSTRAINT, value: op('isOdd', ref('self.value')) });
+
+        const error = await rejection(age.getConstraint('odd'));
+        expect(error).toMatchObject({ path: ['age'], expressions: ['isOdd'] });
+    });
+});
+
+// ============================================================================
+// PROPERTY NODE ERRORS
+// ============================================================================
+
+describe('Errors: PropertyNode', () => {
+    test('RegistryMissingError', async () => {
+        const node = PropertyNode.create(createForm());
+        const error = await rejection(node.child('total')!.getValue());
+
+        expect(error).toBeInstanceOf(RegistryMissingError);
+        expect(error).toMatchObject({ path: ['total'], message: 'No registry set. Call setRegistry() first.' });
+    });
+
+    test('DestroyedNodeError keeps the path the node had', () => {
+        const node = PropertyNode.create(createForm(), registry);
+        const age = node.child('age')!;
+        node.destroy();
+
+        expect(() => age.setValue(30)).toThrow(DestroyedNodeError);
+        try {
+            age.setValue(30);
+        } catch (error) {
+            expect(error).toMatchObject({ path: ['age'], message: 'PropertyNode has been destroyed' });
+        }
+    });
+});
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+describe('Errors: Hierarchy', () => {
+    test('errors outside evaluation extend PropertyError too', () => {
+        const root = createForm();
+        const asyncRegistry = createStandardRegistry();
+        asyncRegistry.register('later', async () => 1);
+        const thrown = (fn: () => unknown): unknown => {
+            try {
+                fn();
+            } catch (error) {
+                return error;
+            }
+            throw new Error('Expected an error');
+        };
+
+        const errors = [
+            thrown(() => evaluateSync(op('later'), { current: root, root, registry: asyncRegistry })),
+            thrown(() => parse('1 +')),
+            thrown(() => print(ref('my-field.value'))),
+            thrown(() => PropertyNode.fromJSON({
+                id: 'form',
+                type: { id: 'Property' },
+                metadata: { label: { id: 'label', type: { id: 'Lit' }, $ref: 'missing' } },
+                $defs: {},
+            })),
+        ];
+
+        expect(errors[0]).toBeInstanceOf(SyncEvaluationError);
+        expect(errors[1]).toBeInstanceOf(ExpressionSyntaxError);
+        for (const error of errors) {
+            expect(error).toBeInstanceOf(PropertyError);
+        }
+    });
+});
+
+describe('Errors: Messages', () => {
+    test('reference errors describe what failed', () => {
+        expect(new CircularReferenceError(['a.value', 'b.metadata.visible', 'a.value']).message)
+            .toBe('Circular reference: a.value -> b.metadata.visible -> a.value');
+        expect(new RefResolutionError(['root', 'pricing', 'totl'], 'totl', ['root', 'pricing']).message)
+            .toBe("Cannot resolve 'totl' in reference root.pricing.totl (resolved: root.pricing)");
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Evaluation Cache Tests
+ * ======================
+ * Tests for memoized evaluation and its invalidation.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PropertyNode,
+    EvaluationCache,
+    PROPERTY,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const createForm = (): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    metadata: {
+        limit: op('mul', ref('root.base.value'), lit(10)),
+    },
+    children: {
+        base: { id: 'base', type: PROPERTY, value: 2 },
+        a: {
+            id: 'a',
+            type: PROPERTY,
+            value: 5,
+            metadata: {
+                max: op('sub', ref('root.metadata.limit'), lit(1)),
+            },
+            constraints: {
+                inRange: {
+                    id: 'inRange',
+                    type: CONSTRAINT,
+                    value: op('lte', ref('self.value'), ref('root.metadata.limit')),
+                },
+            },
+        },
+        b: { id: 'b', type: PROPERTY, value: op('add', ref('root.metadata.limit'), lit(1)) },
+    },
+});
+
+const setup = () => {
+    let evaluations = 0;
+    const registry = createStandardRegistry();
+    const mul = registry.get('mul')!;
+    registry.register('mul', (args, ctx) => {
+        evaluations++;
+        return mul(args, ctx);
+    });
+    const root = PropertyNode.create(createForm(), registry);
+    return { root, evaluations: () => evaluations };
+};
+
+// ============================================================================
+// EVALUATION CACHE CLASS
+// ============================================================================
+
+describe('EvaluationCache', () => {
+    test('stores results per expression and owner', () => {
+        const cache = new EvaluationCache();
+        const expr = lit(1);
+        const ownerA = { id: 'a', type: PROPERTY };
+        const ownerB = { id: 'b', type: PROPERTY };
+
+        cache.store(expr, ownerA, 'A', cache.generation);
+        expect(cache.lookup(expr, ownerA)).toEqual({ hit: true, value: 'A' });
+        expect(cache.lookup(expr, ownerB)).toEqual({ hit: false });
+        expect(cache.stats()).toEqual({ hits: 1, misses: 1, size: 1 });
+    });
+
+    test('drops results computed before a clear', () => {
+        const cache = new EvaluationCache();
+        const expr = lit(1);
+        const owner = { id: 'a', type: PROPERTY };
+
+        const generation = cache.generation;
+        cache.clear();
+        cache.store(expr, owner, 'stale', generation);
+        expect(cache.lookup(expr, owner).hit).toBe(false);
+    });
+
+    test('resetStats() keeps entries', () => {
+        const cache = new EvaluationCache();
+        const expr = lit(1);
+        const owner = { id: 'a', type: PROPERTY };
+        cache.store(expr, owner, 1, cache.generation);
+        cache.lookup(expr, owner);
+
+        cache.resetStats();
+        expect(cache.stats()).toEqual({ hits: 0, misses: 0, size: 1 });
+    });
+});
+
+// ============================================================================
+// PROPERTY NODE CACHE
+// ============================================================================
+
+describe('PropertyNode: Evaluation Cache', () => {
+    test('is disabled by default', async () => {
+        const { root, evaluations } = setup();
+
+        expect(root.isCacheEnabled).toBe(false);
+        expect(root.cacheStats()).toBeNull();
+        await root.getValue('b');
+        await root.getValue('b');
+        expect(evaluations()).toBe(2);
+    });
+
+    test('memoizes shared computed metadata across the tree', async () => {
+        const { root, evaluations } = setup();
+        root.enableCache();
+
+        expect(await root.getValue('b')).toBe(21);
+        expect(await root.child('a')!.getMetadata('max')).toBe(19);
+        expect(await root.child('a')!.getConstraint('inRange')).toBe(true);
+        expect(await root.getMetadata('limit')).toBe(20);
+        expect(evaluations()).toBe(1);
+        expect(root.cacheStats()!.hits).toBeGreaterThan(0);
+    });
+
+    test('is shared by every node of the tree', () => {
+        const { root } = setup();
+        root.child('a')!.enableCache();
+
+        expect(root.isCacheEnabled).toBe(true);
+        expect(root.child('b')!.cacheStats()).toEqual({ hits: 0, misses: 0, size: 0 });
+    });
+
+    test('setValue invalidates', async () => {
+        const { root } = setup();
+        root.enableCache();
+
+        expect(await root.getValue('b')).toBe(21);
+        root.setValue(3, { path: 'base' });
+        expect(await root.getValue('b')).toBe(31);
+
+        root.child('base')!.setValue(4, { silent: true });
+        expect(await root.getValue('b')).toBe(41);
+    });
+
+    test('setMetadata and removeMetadata invalidate', async () => {
+        const { root } = setup();
+        root.enableCache();
+
+        expect(await root.getValue('b')).toBe(21);
+        root.setMetadata('limit', lit(100));
+        expect(await root.getValue('b')).toBe(101);
+        root.removeMetadata('limit');
+        expect(await root.getValue('b')).toBe(1);
+    });
+
+    test('setConstraint and removeConstraint invalidate', async () => {
+        const { root } = setup();
+        root.enableCache();
+        const a = root.child('a')!;
+
+        expect(await a.getConstraint('inRange')).toBe(true);
+        a.setConstraint('inRange', { id: 'inRange', type: CONSTRAINT, value: op('gt', ref('self.value'), lit(10)) });
+        expect(await a.getConstraint('inRange')).toBe(false);
+        a.removeConstraint('inRange');
+        expect(await a.getConstraint('inRange')).toBe(true);
+    });
+
+    test('addChild and removeChild invalidate', async () => {
+        const { root } = setup();
+        root.enableCache();
+        root.setValue(op('length', ref('self.children')));
+
+        expect(await root.getValue()).toBe(3);
+        root.addChild('c', { id: 'c', type: PROPERTY, value: 1 });
+        expect(await root.getValue()).toBe(4);
+        root.removeChild('c');
+        expect(await root.getValue()).toBe(3);
+    });
+
+    test('expressions under bindings are not cached', async () => {
+        const { root } = setup();
+        root.enableCache();
+        root.setValue(op('map', ref('self.children'), ref('item.value')));
+
+        expect(await root.getValue()).toEqual([2, 5, 21]);
+        root.child('a')!.setValue(6);
+        expect(await root.getValue()).toEqual([2, 6, 21]);
+    });
+
+    test('clearCache() after direct Property mutation', async () => {
+        const { root } = setup();
+        root.enableCache();
+
+        expect(await root.getValue('b')).toBe(21);
+        (root.getProperty().children!.base as { value: unknown }).value = 5;
+        expect(await root.getValue('b')).toBe(21);
+
+        root.clearCache();
+        expect(await root.getValue('b')).toBe(51);
+    });
+
+    test('disableCache() stops memoizing', async () => {
+        const { root, evaluations } = setup();
+        root.enableCache();
+        await root.getValue('b');
+
+        root.disableCache();
+        await root.getValue('b');
+        expect(evaluations()).toBe(2);
+        expect(root.cacheStats()).toBeNull();
+    });
+});
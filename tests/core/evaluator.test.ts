@@ -17,13 +17,22 @@ import {
     ref,
     op,
     // Evaluation
-    evaluate,
+    evaluate as interpret,
+    evaluateSync as interpretSync,
+    compile,
+    isSyncSafe,
+    SyncEvaluationError,
     evalArg,
     evalArgs,
+    evalArgSync,
+    evalArgsSync,
     evalArgsParallel,
     withBindings,
     createLoopContext,
     createRegistry,
+    createStandardRegistry,
+    PropertyNode,
+    CircularReferenceError,
 } from '../../src';
 import type { Property, EvaluationContext } from '../../src';
 
@@ -41,917 +50,1187 @@ const createContext = (
     registry,
 });
 
-// ============================================================================
-// LITERAL EVALUATION
-// ============================================================================
-
-describe('Evaluator: Literals', () => {
-    test('evaluates number literal', async () => {
-        const ctx = createContext(lit(0));
-        expect(await evaluate(lit(42), ctx)).toBe(42);
-        expect(await evaluate(lit(0), ctx)).toBe(0);
-        expect(await evaluate(lit(-100), ctx)).toBe(-100);
-        expect(await evaluate(lit(3.14), ctx)).toBe(3.14);
-    });
+/**
+ * Every test runs against the interpreter and against compiled expressions.
+ */
+const ENGINES = [
+    { engine: 'interpreted', evaluate: interpret, evaluateSync: interpretSync },
+    {
+        engine: 'compiled',
+        evaluate: (expr: Property, ctx: EvaluationContext) => compile(expr, ctx.registry)(ctx),
+        evaluateSync: (expr: Property, ctx: EvaluationContext) => compile(expr, ctx.registry).sync(ctx),
+    },
+];
+
+describe.each(ENGINES)('Evaluator ($engine)', ({ evaluate, evaluateSync }) => {
+
+    // ============================================================================
+    // LITERAL EVALUATION
+    // ============================================================================
+
+    describe('Evaluator: Literals', () => {
+        test('evaluates number literal', async () => {
+            const ctx = createContext(lit(0));
+            expect(await evaluate(lit(42), ctx)).toBe(42);
+            expect(await evaluate(lit(0), ctx)).toBe(0);
+            expect(await evaluate(lit(-100), ctx)).toBe(-100);
+            expect(await evaluate(lit(3.14), ctx)).toBe(3.14);
+        });
 
-    test('evaluates string literal', async () => {
-        const ctx = createContext(lit(0));
-        expect(await evaluate(lit('hello'), ctx)).toBe('hello');
-        expect(await evaluate(lit(''), ctx)).toBe('');
-        expect(await evaluate(lit('with spaces'), ctx)).toBe('with spaces');
-    });
+        test('evaluates string literal', async () => {
+            const ctx = createContext(lit(0));
+            expect(await evaluate(lit('hello'), ctx)).toBe('hello');
+            expect(await evaluate(lit(''), ctx)).toBe('');
+            expect(await evaluate(lit('with spaces'), ctx)).toBe('with spaces');
+        });
 
-    test('evaluates boolean literal', async () => {
-        const ctx = createContext(lit(0));
-        expect(await evaluate(lit(true), ctx)).toBe(true);
-        expect(await evaluate(lit(false), ctx)).toBe(false);
-    });
+        test('evaluates boolean literal', async () => {
+            const ctx = createContext(lit(0));
+            expect(await evaluate(lit(true), ctx)).toBe(true);
+            expect(await evaluate(lit(false), ctx)).toBe(false);
+        });
 
-    test('evaluates null and undefined literals', async () => {
-        const ctx = createContext(lit(0));
-        expect(await evaluate(lit(null), ctx)).toBe(null);
-        expect(await evaluate(lit(undefined), ctx)).toBe(undefined);
-    });
+        test('evaluates null and undefined literals', async () => {
+            const ctx = createContext(lit(0));
+            expect(await evaluate(lit(null), ctx)).toBe(null);
+            expect(await evaluate(lit(undefined), ctx)).toBe(undefined);
+        });
 
-    test('evaluates array literal', async () => {
-        const ctx = createContext(lit(0));
-        const arr = [1, 2, 3];
-        expect(await evaluate(lit(arr), ctx)).toBe(arr);
-    });
+        test('evaluates array literal', async () => {
+            const ctx = createContext(lit(0));
+            const arr = [1, 2, 3];
+            expect(await evaluate(lit(arr), ctx)).toBe(arr);
+        });
 
-    test('evaluates object literal', async () => {
-        const ctx = createContext(lit(0));
-        const obj = { a: 1, b: 2 };
-        expect(await evaluate(lit(obj), ctx)).toBe(obj);
+        test('evaluates object literal', async () => {
+            const ctx = createContext(lit(0));
+            const obj = { a: 1, b: 2 };
+            expect(await evaluate(lit(obj), ctx)).toBe(obj);
+        });
     });
-});
 
-// ============================================================================
-// REFERENCE EVALUATION
-// ============================================================================
+    // ============================================================================
+    // REFERENCE EVALUATION
+    // ============================================================================
 
-describe('Evaluator: References', () => {
-    describe('self references', () => {
-        test('resolves self.value', async () => {
-            const prop: Property = { id: 'test', type: PROPERTY, value: 42 };
-            const ctx = createContext(prop);
-            expect(await evaluate(ref('self.value'), ctx)).toBe(42);
-        });
+    describe('Evaluator: References', () => {
+        describe('self references', () => {
+            test('resolves self.value', async () => {
+                const prop: Property = { id: 'test', type: PROPERTY, value: 42 };
+                const ctx = createContext(prop);
+                expect(await evaluate(ref('self.value'), ctx)).toBe(42);
+            });
 
-        test('resolves self.id', async () => {
-            const prop: Property = { id: 'myId', type: PROPERTY };
-            const ctx = createContext(prop);
-            expect(await evaluate(ref('self.id'), ctx)).toBe('myId');
-        });
+            test('resolves self.id', async () => {
+                const prop: Property = { id: 'myId', type: PROPERTY };
+                const ctx = createContext(prop);
+                expect(await evaluate(ref('self.id'), ctx)).toBe('myId');
+            });
 
-        test('resolves self.type.id', async () => {
-            const prop: Property = { id: 'test', type: PROPERTY };
-            const ctx = createContext(prop);
-            expect(await evaluate(ref(['self', 'type', 'id']), ctx)).toBe('Property');
+            test('resolves self.type.id', async () => {
+                const prop: Property = { id: 'test', type: PROPERTY };
+                const ctx = createContext(prop);
+                expect(await evaluate(ref(['self', 'type', 'id']), ctx)).toBe('Property');
+            });
         });
-    });
 
-    describe('root references', () => {
-        test('resolves root.value', async () => {
-            const root: Property = { id: 'root', type: PROPERTY, value: 'root-value' };
-            const current: Property = { id: 'child', type: PROPERTY };
-            const ctx = createContext(current, root);
-            expect(await evaluate(ref('root.value'), ctx)).toBe('root-value');
-        });
+        describe('root references', () => {
+            test('resolves root.value', async () => {
+                const root: Property = { id: 'root', type: PROPERTY, value: 'root-value' };
+                const current: Property = { id: 'child', type: PROPERTY };
+                const ctx = createContext(current, root);
+                expect(await evaluate(ref('root.value'), ctx)).toBe('root-value');
+            });
 
-        test('resolves root.children.x.value', async () => {
-            const root: Property = {
-                id: 'root',
-                type: PROPERTY,
-                children: {
-                    x: { id: 'x', type: PROPERTY, value: 100 },
-                },
-            };
-            const ctx = createContext(root);
-            expect(await evaluate(ref('root.children.x.value'), ctx)).toBe(100);
-        });
+            test('resolves root.children.x.value', async () => {
+                const root: Property = {
+                    id: 'root',
+                    type: PROPERTY,
+                    children: {
+                        x: { id: 'x', type: PROPERTY, value: 100 },
+                    },
+                };
+                const ctx = createContext(root);
+                expect(await evaluate(ref('root.children.x.value'), ctx)).toBe(100);
+            });
 
-        test('resolves root.x.value (shortcut)', async () => {
-            const root: Property = {
-                id: 'root',
-                type: PROPERTY,
-                children: {
-                    x: { id: 'x', type: PROPERTY, value: 100 },
-                },
-            };
-            const ctx = createContext(root);
-            expect(await evaluate(ref('root.x.value'), ctx)).toBe(100);
+            test('resolves root.x.value (shortcut)', async () => {
+                const root: Property = {
+                    id: 'root',
+                    type: PROPERTY,
+                    children: {
+                        x: { id: 'x', type: PROPERTY, value: 100 },
+                    },
+                };
+                const ctx = createContext(root);
+                expect(await evaluate(ref('root.x.value'), ctx)).toBe(100);
+            });
         });
-    });
 
-    describe('parent references', () => {
-        test('resolves parent reference', async () => {
-            const root: Property = {
-                id: 'root',
-                type: PROPERTY,
-                value: 'parent-value',
-                children: {
-                    child: { id: 'child', type: PROPERTY },
-                },
-            };
-            const child = root.children!.child;
-            const ctx: EvaluationContext = {
-                current: child,
-                root,
-                registry: createRegistry(),
-                findParent: () => root,
-            };
-            expect(await evaluate(ref('parent.value'), ctx)).toBe('parent-value');
-        });
+        describe('parent references', () => {
+            test('resolves parent reference', async () => {
+                const root: Property = {
+                    id: 'root',
+                    type: PROPERTY,
+                    value: 'parent-value',
+                    children: {
+                        child: { id: 'child', type: PROPERTY },
+                    },
+                };
+                const child = root.children!.child;
+                const ctx: EvaluationContext = {
+                    current: child,
+                    root,
+                    registry: createRegistry(),
+                    findParent: () => root,
+                };
+                expect(await evaluate(ref('parent.value'), ctx)).toBe('parent-value');
+            });
 
-        test('resolves parent.sibling.value', async () => {
-            const root: Property = {
-                id: 'root',
-                type: PROPERTY,
-                children: {
-                    a: { id: 'a', type: PROPERTY, value: 'A-value' },
-                    b: { id: 'b', type: PROPERTY },
-                },
-            };
-            const ctx: EvaluationContext = {
-                current: root.children!.b,
-                root,
-                registry: createRegistry(),
-                findParent: () => root,
-            };
-            expect(await evaluate(ref('parent.a.value'), ctx)).toBe('A-value');
+            test('resolves parent.sibling.value', async () => {
+                const root: Property = {
+                    id: 'root',
+                    type: PROPERTY,
+                    children: {
+                        a: { id: 'a', type: PROPERTY, value: 'A-value' },
+                        b: { id: 'b', type: PROPERTY },
+                    },
+                };
+                const ctx: EvaluationContext = {
+                    current: root.children!.b,
+                    root,
+                    registry: createRegistry(),
+                    findParent: () => root,
+                };
+                expect(await evaluate(ref('parent.a.value'), ctx)).toBe('A-value');
+            });
         });
-    });
 
-    describe('metadata references', () => {
-        test('resolves self.metadata.key.value', async () => {
-            const prop: Property = {
-                id: 'test',
-                type: PROPERTY,
-                metadata: {
-                    label: { id: 'label', type: LIT, value: 'My Label' },
-                },
-            };
-            const ctx = createContext(prop);
-            expect(await evaluate(ref('self.metadata.label.value'), ctx)).toBe('My Label');
-        });
+        describe('metadata references', () => {
+            test('resolves self.metadata.key.value', async () => {
+                const prop: Property = {
+                    id: 'test',
+                    type: PROPERTY,
+                    metadata: {
+                        label: { id: 'label', type: LIT, value: 'My Label' },
+                    },
+                };
+                const ctx = createContext(prop);
+                expect(await evaluate(ref('self.metadata.label.value'), ctx)).toBe('My Label');
+            });
 
-        test('resolves shortcut self.key.value for metadata', async () => {
-            const prop: Property = {
-                id: 'test',
-                type: PROPERTY,
-                metadata: {
-                    hint: { id: 'hint', type: LIT, value: 'A hint' },
-                },
-            };
-            const ctx = createContext(prop);
-            // Should check children first, then metadata
-            expect(await evaluate(ref('self.hint.value'), ctx)).toBe('A hint');
+            test('resolves shortcut self.key.value for metadata', async () => {
+                const prop: Property = {
+                    id: 'test',
+                    type: PROPERTY,
+                    metadata: {
+                        hint: { id: 'hint', type: LIT, value: 'A hint' },
+                    },
+                };
+                const ctx = createContext(prop);
+                // Should check children first, then metadata
+                expect(await evaluate(ref('self.hint.value'), ctx)).toBe('A hint');
+            });
         });
-    });
 
-    describe('constraint references', () => {
-        test('resolves self.constraints.key', async () => {
-            const prop: Property = {
-                id: 'test',
-                type: PROPERTY,
-                constraints: {
-                    required: { id: 'required', type: PROPERTY, value: true },
-                },
-            };
-            const ctx = createContext(prop);
-            const result = await evaluate(ref('self.constraints.required.value'), ctx);
-            expect(result).toBe(true);
+        describe('constraint references', () => {
+            test('resolves self.constraints.key', async () => {
+                const prop: Property = {
+                    id: 'test',
+                    type: PROPERTY,
+                    constraints: {
+                        required: { id: 'required', type: PROPERTY, value: true },
+                    },
+                };
+                const ctx = createContext(prop);
+                const result = await evaluate(ref('self.constraints.required.value'), ctx);
+                expect(result).toBe(true);
+            });
         });
-    });
 
-    describe('deep navigation', () => {
-        test('resolves deeply nested path', async () => {
-            const root: Property = {
-                id: 'root',
-                type: PROPERTY,
-                children: {
-                    level1: {
-                        id: 'level1',
-                        type: PROPERTY,
-                        children: {
-                            level2: {
-                                id: 'level2',
-                                type: PROPERTY,
-                                children: {
-                                    level3: {
-                                        id: 'level3',
-                                        type: PROPERTY,
-                                        value: 'deep-value',
+        describe('deep navigation', () => {
+            test('resolves deeply nested path', async () => {
+                const root: Property = {
+                    id: 'root',
+                    type: PROPERTY,
+                    children: {
+                        level1: {
+                            id: 'level1',
+                            type: PROPERTY,
+                            children: {
+                                level2: {
+                                    id: 'level2',
+                                    type: PROPERTY,
+                                    children: {
+                                        level3: {
+                                            id: 'level3',
+                                            type: PROPERTY,
+                                            value: 'deep-value',
+                                        },
                                     },
                                 },
                             },
                         },
                     },
-                },
-            };
-            const ctx = createContext(root);
-            expect(await evaluate(ref('root.level1.level2.level3.value'), ctx)).toBe('deep-value');
-        });
+                };
+                const ctx = createContext(root);
+                expect(await evaluate(ref('root.level1.level2.level3.value'), ctx)).toBe('deep-value');
+            });
 
-        test('returns undefined for non-existent path', async () => {
-            const prop: Property = { id: 'test', type: PROPERTY };
-            const ctx = createContext(prop);
-            expect(await evaluate(ref('self.nonexistent.value'), ctx)).toBeUndefined();
+            test('returns undefined for non-existent path', async () => {
+                const prop: Property = { id: 'test', type: PROPERTY };
+                const ctx = createContext(prop);
+                expect(await evaluate(ref('self.nonexistent.value'), ctx)).toBeUndefined();
+            });
         });
     });
-});
-
-// ============================================================================
-// OPERATOR EVALUATION
-// ============================================================================
 
-describe('Evaluator: Operators', () => {
-    describe('basic operators', () => {
-        test('evaluates operator with literal args', async () => {
-            const registry = createRegistry();
-            registry.register('add', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) + (b as number);
+    // ============================================================================
+    // OPERATOR EVALUATION
+    // ============================================================================
+
+    describe('Evaluator: Operators', () => {
+        describe('basic operators', () => {
+            test('evaluates operator with literal args', async () => {
+                const registry = createRegistry();
+                registry.register('add', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) + (b as number);
+                });
+
+                const ctx = createContext(lit(0), lit(0), registry);
+                expect(await evaluate(op('add', lit(1), lit(2)), ctx)).toBe(3);
             });
 
-            const ctx = createContext(lit(0), lit(0), registry);
-            expect(await evaluate(op('add', lit(1), lit(2)), ctx)).toBe(3);
-        });
+            test('evaluates operator with reference args', async () => {
+                const registry = createRegistry();
+                registry.register('add', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) + (b as number);
+                });
 
-        test('evaluates operator with reference args', async () => {
-            const registry = createRegistry();
-            registry.register('add', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) + (b as number);
+                const root: Property = {
+                    id: 'root',
+                    type: PROPERTY,
+                    children: {
+                        x: { id: 'x', type: PROPERTY, value: 10 },
+                        y: { id: 'y', type: PROPERTY, value: 20 },
+                    },
+                };
+                const ctx = createContext(root, root, registry);
+                expect(await evaluate(op('add', ref('self.x.value'), ref('self.y.value')), ctx)).toBe(30);
             });
 
-            const root: Property = {
-                id: 'root',
-                type: PROPERTY,
-                children: {
-                    x: { id: 'x', type: PROPERTY, value: 10 },
-                    y: { id: 'y', type: PROPERTY, value: 20 },
-                },
-            };
-            const ctx = createContext(root, root, registry);
-            expect(await evaluate(op('add', ref('self.x.value'), ref('self.y.value')), ctx)).toBe(30);
-        });
-
-        test('evaluates nested operators', async () => {
-            const registry = createRegistry();
-            registry.register('add', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) + (b as number);
+            test('evaluates nested operators', async () => {
+                const registry = createRegistry();
+                registry.register('add', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) + (b as number);
+                });
+                registry.register('mul', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) * (b as number);
+                });
+
+                const ctx = createContext(lit(0), lit(0), registry);
+                // (1 + 2) * (3 + 4) = 3 * 7 = 21
+                const expr = op('mul',
+                    op('add', lit(1), lit(2)),
+                    op('add', lit(3), lit(4))
+                );
+                expect(await evaluate(expr, ctx)).toBe(21);
             });
-            registry.register('mul', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) * (b as number);
+
+            test('throws on unknown operator', async () => {
+                const registry = createRegistry();
+                const ctx = createContext(lit(0), lit(0), registry);
+                await expect(evaluate(op('unknown', lit(1)), ctx)).rejects.toThrow('Unknown operator');
             });
 
-            const ctx = createContext(lit(0), lit(0), registry);
-            // (1 + 2) * (3 + 4) = 3 * 7 = 21
-            const expr = op('mul',
-                op('add', lit(1), lit(2)),
-                op('add', lit(3), lit(4))
-            );
-            expect(await evaluate(expr, ctx)).toBe(21);
-        });
+            test('throws after operator is unregistered', async () => {
+                const registry = createRegistry();
+                registry.register('add', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) + (b as number);
+                });
 
-        test('throws on unknown operator', async () => {
-            const registry = createRegistry();
-            const ctx = createContext(lit(0), lit(0), registry);
-            await expect(evaluate(op('unknown', lit(1)), ctx)).rejects.toThrow('Unknown operator');
-        });
+                const ctx = createContext(lit(0), lit(0), registry);
 
-        test('throws after operator is unregistered', async () => {
-            const registry = createRegistry();
-            registry.register('add', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) + (b as number);
+                // Works before unregister
+                expect(await evaluate(op('add', lit(1), lit(2)), ctx)).toBe(3);
+
+                // Unregister
+                registry.unregister('add');
+
+                // Throws after unregister
+                await expect(evaluate(op('add', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
             });
 
-            const ctx = createContext(lit(0), lit(0), registry);
+            test('other operators still work after unregistering one', async () => {
+                const registry = createRegistry();
+                registry.register('add', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) + (b as number);
+                });
+                registry.register('mul', async (args, ctx) => {
+                    const [a, b] = await evalArgs(args, ctx);
+                    return (a as number) * (b as number);
+                });
 
-            // Works before unregister
-            expect(await evaluate(op('add', lit(1), lit(2)), ctx)).toBe(3);
+                const ctx = createContext(lit(0), lit(0), registry);
 
-            // Unregister
-            registry.unregister('add');
+                // Unregister add
+                registry.unregister('add');
 
-            // Throws after unregister
-            await expect(evaluate(op('add', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
-        });
+                // mul still works
+                expect(await evaluate(op('mul', lit(2), lit(3)), ctx)).toBe(6);
 
-        test('other operators still work after unregistering one', async () => {
-            const registry = createRegistry();
-            registry.register('add', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) + (b as number);
+                // add throws
+                await expect(evaluate(op('add', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
             });
-            registry.register('mul', async (args, ctx) => {
-                const [a, b] = await evalArgs(args, ctx);
-                return (a as number) * (b as number);
+
+            test('clear() makes all operators throw', async () => {
+                const registry = createRegistry();
+                registry.register('add', async () => 0);
+                registry.register('mul', async () => 0);
+
+                const ctx = createContext(lit(0), lit(0), registry);
+
+                registry.clear();
+
+                await expect(evaluate(op('add', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
+                await expect(evaluate(op('mul', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
             });
 
-            const ctx = createContext(lit(0), lit(0), registry);
+            test('can re-register operator after unregister', async () => {
+                const registry = createRegistry();
+                registry.register('op', async () => 'first');
 
-            // Unregister add
-            registry.unregister('add');
+                const ctx = createContext(lit(0), lit(0), registry);
+                expect(await evaluate(op('op'), ctx)).toBe('first');
 
-            // mul still works
-            expect(await evaluate(op('mul', lit(2), lit(3)), ctx)).toBe(6);
+                registry.unregister('op');
+                registry.register('op', async () => 'second');
 
-            // add throws
-            await expect(evaluate(op('add', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
+                expect(await evaluate(op('op'), ctx)).toBe('second');
+            });
         });
 
-        test('clear() makes all operators throw', async () => {
-            const registry = createRegistry();
-            registry.register('add', async () => 0);
-            registry.register('mul', async () => 0);
+        describe('operator argument handling', () => {
+            test('evalArg evaluates single argument', async () => {
+                const registry = createRegistry();
+                const ctx = createContext(lit(0), lit(0), registry);
+                expect(await evalArg(lit(42), ctx)).toBe(42);
+            });
 
-            const ctx = createContext(lit(0), lit(0), registry);
+            test('evalArgs evaluates multiple arguments sequentially', async () => {
+                const registry = createRegistry();
+                const ctx = createContext(lit(0), lit(0), registry);
+                const results = await evalArgs([lit(1), lit(2), lit(3)], ctx);
+                expect(results).toEqual([1, 2, 3]);
+            });
+
+            test('evalArgsParallel evaluates arguments in parallel', async () => {
+                const registry = createRegistry();
+                const ctx = createContext(lit(0), lit(0), registry);
+                const results = await evalArgsParallel([lit(1), lit(2), lit(3)], ctx);
+                expect(results).toEqual([1, 2, 3]);
+            });
+
+            test('operator receives unevaluated args', async () => {
+                const registry = createRegistry();
+                let receivedArgs: Property[] = [];
+                registry.register('capture', (args) => {
+                    receivedArgs = args;
+                    return null;
+                });
 
-            registry.clear();
+                const ctx = createContext(lit(0), lit(0), registry);
+                await evaluate(op('capture', lit(1), ref('self')), ctx);
 
-            await expect(evaluate(op('add', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
-            await expect(evaluate(op('mul', lit(1), lit(2)), ctx)).rejects.toThrow('Unknown operator');
+                expect(receivedArgs.length).toBe(2);
+                expect(receivedArgs[0]?.type).toBe(LIT);
+                expect(receivedArgs[1]?.type).toBe(REF);
+            });
         });
 
-        test('can re-register operator after unregister', async () => {
-            const registry = createRegistry();
-            registry.register('op', async () => 'first');
+        describe('conditional operators', () => {
+            test('if operator with true condition', async () => {
+                const registry = createRegistry();
+                registry.register('if', async (args, ctx) => {
+                    const condition = await evalArg(args[0]!, ctx);
+                    if (condition) {
+                        return evalArg(args[1]!, ctx);
+                    }
+                    return args[2] ? evalArg(args[2], ctx) : null;
+                });
+
+                const ctx = createContext(lit(0), lit(0), registry);
+                expect(await evaluate(op('if', lit(true), lit('yes'), lit('no')), ctx)).toBe('yes');
+            });
 
-            const ctx = createContext(lit(0), lit(0), registry);
-            expect(await evaluate(op('op'), ctx)).toBe('first');
+            test('if operator with false condition', async () => {
+                const registry = createRegistry();
+                registry.register('if', async (args, ctx) => {
+                    const condition = await evalArg(args[0]!, ctx);
+                    if (condition) {
+                        return evalArg(args[1]!, ctx);
+                    }
+                    return args[2] ? evalArg(args[2], ctx) : null;
+                });
+
+                const ctx = createContext(lit(0), lit(0), registry);
+                expect(await evaluate(op('if', lit(false), lit('yes'), lit('no')), ctx)).toBe('no');
+            });
+        });
 
-            registry.unregister('op');
-            registry.register('op', async () => 'second');
+        describe('lazy evaluation', () => {
+            test('operator can choose not to evaluate args', async () => {
+                const registry = createRegistry();
+                let secondArgEvaluated = false;
+
+                registry.register('lazyOr', async (args, ctx) => {
+                    const first = await evalArg(args[0]!, ctx);
+                    if (first) return true;
+                    secondArgEvaluated = true;
+                    return evalArg(args[1]!, ctx);
+                });
 
-            expect(await evaluate(op('op'), ctx)).toBe('second');
+                const ctx = createContext(lit(0), lit(0), registry);
+                await evaluate(op('lazyOr', lit(true), lit(false)), ctx);
+                expect(secondArgEvaluated).toBe(false);
+            });
         });
     });
 
-    describe('operator argument handling', () => {
-        test('evalArg evaluates single argument', async () => {
+    // ============================================================================
+    // BINDINGS
+    // ============================================================================
+
+    describe('Evaluator: Bindings', () => {
+        test('withBindings adds bindings to context', () => {
             const registry = createRegistry();
             const ctx = createContext(lit(0), lit(0), registry);
-            expect(await evalArg(lit(42), ctx)).toBe(42);
+            const ctxWithBindings = withBindings(ctx, { x: 10, y: 20 });
+
+            expect(ctxWithBindings.bindings?.x).toBe(10);
+            expect(ctxWithBindings.bindings?.y).toBe(20);
         });
 
-        test('evalArgs evaluates multiple arguments sequentially', async () => {
+        test('withBindings merges with existing bindings', () => {
             const registry = createRegistry();
-            const ctx = createContext(lit(0), lit(0), registry);
-            const results = await evalArgs([lit(1), lit(2), lit(3)], ctx);
-            expect(results).toEqual([1, 2, 3]);
+            const ctx: EvaluationContext = {
+                current: lit(0),
+                root: lit(0),
+                registry,
+                bindings: { a: 1 },
+            };
+            const ctxWithBindings = withBindings(ctx, { b: 2 });
+
+            expect(ctxWithBindings.bindings?.a).toBe(1);
+            expect(ctxWithBindings.bindings?.b).toBe(2);
         });
 
-        test('evalArgsParallel evaluates arguments in parallel', async () => {
+        test('ref resolves from bindings', async () => {
             const registry = createRegistry();
-            const ctx = createContext(lit(0), lit(0), registry);
-            const results = await evalArgsParallel([lit(1), lit(2), lit(3)], ctx);
-            expect(results).toEqual([1, 2, 3]);
+            const ctx: EvaluationContext = {
+                current: lit(0),
+                root: lit(0),
+                registry,
+                bindings: { item: 42 },
+            };
+
+            expect(await evaluate(ref(['item']), ctx)).toBe(42);
         });
 
-        test('operator receives unevaluated args', async () => {
+        test('ref resolves nested binding path', async () => {
             const registry = createRegistry();
-            let receivedArgs: Property[] = [];
-            registry.register('capture', (args) => {
-                receivedArgs = args;
-                return null;
-            });
+            const ctx: EvaluationContext = {
+                current: lit(0),
+                root: lit(0),
+                registry,
+                bindings: { user: { name: 'John', age: 30 } },
+            };
+
+            expect(await evaluate(ref(['user', 'name']), ctx)).toBe('John');
+            expect(await evaluate(ref(['user', 'age']), ctx)).toBe(30);
+        });
 
+        test('createLoopContext creates mutable bindings', () => {
+            const registry = createRegistry();
             const ctx = createContext(lit(0), lit(0), registry);
-            await evaluate(op('capture', lit(1), ref('self')), ctx);
+            const { loopCtx, bindings } = createLoopContext(ctx);
 
-            expect(receivedArgs.length).toBe(2);
-            expect(receivedArgs[0]?.type).toBe(LIT);
-            expect(receivedArgs[1]?.type).toBe(REF);
+            bindings.item = 'test';
+            bindings.index = 0;
+
+            expect(loopCtx.bindings?.item).toBe('test');
+            expect(loopCtx.bindings?.index).toBe(0);
         });
     });
 
-    describe('conditional operators', () => {
-        test('if operator with true condition', async () => {
+    // ============================================================================
+    // DEPTH PROTECTION
+    // ============================================================================
+
+    describe('Evaluator: Depth Protection', () => {
+        test('throws on circular reference (max depth)', async () => {
             const registry = createRegistry();
-            registry.register('if', async (args, ctx) => {
-                const condition = await evalArg(args[0]!, ctx);
-                if (condition) {
-                    return evalArg(args[1]!, ctx);
-                }
-                return args[2] ? evalArg(args[2], ctx) : null;
+            registry.register('recurse', async (args, ctx) => {
+                return evaluate(op('recurse'), ctx);
             });
 
             const ctx = createContext(lit(0), lit(0), registry);
-            expect(await evaluate(op('if', lit(true), lit('yes'), lit('no')), ctx)).toBe('yes');
+            await expect(evaluate(op('recurse'), ctx)).rejects.toThrow('Maximum evaluation depth exceeded');
         });
 
-        test('if operator with false condition', async () => {
+        test('handles deep but valid nesting', async () => {
             const registry = createRegistry();
-            registry.register('if', async (args, ctx) => {
-                const condition = await evalArg(args[0]!, ctx);
-                if (condition) {
-                    return evalArg(args[1]!, ctx);
-                }
-                return args[2] ? evalArg(args[2], ctx) : null;
+            registry.register('identity', async (args, ctx) => {
+                return evalArg(args[0]!, ctx);
             });
 
             const ctx = createContext(lit(0), lit(0), registry);
-            expect(await evaluate(op('if', lit(false), lit('yes'), lit('no')), ctx)).toBe('no');
-        });
-    });
-
-    describe('lazy evaluation', () => {
-        test('operator can choose not to evaluate args', async () => {
-            const registry = createRegistry();
-            let secondArgEvaluated = false;
 
-            registry.register('lazyOr', async (args, ctx) => {
-                const first = await evalArg(args[0]!, ctx);
-                if (first) return true;
-                secondArgEvaluated = true;
-                return evalArg(args[1]!, ctx);
-            });
+            // Create 50 levels of nesting (should work)
+            let expr: Property = lit(42);
+            for (let i = 0; i < 50; i++) {
+                expr = op('identity', expr);
+            }
 
-            const ctx = createContext(lit(0), lit(0), registry);
-            await evaluate(op('lazyOr', lit(true), lit(false)), ctx);
-            expect(secondArgEvaluated).toBe(false);
+            expect(await evaluate(expr, ctx)).toBe(42);
         });
     });
-});
 
-// ============================================================================
-// BINDINGS
-// ============================================================================
+    // ============================================================================
+    // CIRCULAR REFERENCES
+    // ============================================================================
 
-describe('Evaluator: Bindings', () => {
-    test('withBindings adds bindings to context', () => {
-        const registry = createRegistry();
-        const ctx = createContext(lit(0), lit(0), registry);
-        const ctxWithBindings = withBindings(ctx, { x: 10, y: 20 });
-
-        expect(ctxWithBindings.bindings?.x).toBe(10);
-        expect(ctxWithBindings.bindings?.y).toBe(20);
-    });
+    describe('Evaluator: Circular References', () => {
+        const createCyclicTree = (): Property => ({
+            id: 'root',
+            type: PROPERTY,
+            children: {
+                a: { id: 'a', type: PROPERTY, value: op('add', ref('parent.b.metadata.offset'), lit(1)) },
+                b: {
+                    id: 'b',
+                    type: PROPERTY,
+                    metadata: { offset: op('mul', ref('root.a.value'), lit(2)) },
+                },
+            },
+        });
 
-    test('withBindings merges with existing bindings', () => {
-        const registry = createRegistry();
-        const ctx: EvaluationContext = {
-            current: lit(0),
-            root: lit(0),
-            registry,
-            bindings: { a: 1 },
+        const cycleOf = async (promise: Promise<unknown>): Promise<string[]> => {
+            try {
+                await promise;
+            } catch (error) {
+                if (error instanceof CircularReferenceError) return error.cycle;
+                throw error;
+            }
+            throw new Error('Expected a CircularReferenceError');
         };
-        const ctxWithBindings = withBindings(ctx, { b: 2 });
 
-        expect(ctxWithBindings.bindings?.a).toBe(1);
-        expect(ctxWithBindings.bindings?.b).toBe(2);
-    });
+        test('reports the cycle as soon as a reference revisits an expression', async () => {
+            const steps: string[] = [];
+            const node = PropertyNode.create(createCyclicTree(), createStandardRegistry());
+            node.setEvaluationHooks({ onEnter: (expr) => steps.push(expr.id) });
 
-    test('ref resolves from bindings', async () => {
-        const registry = createRegistry();
-        const ctx: EvaluationContext = {
-            current: lit(0),
-            root: lit(0),
-            registry,
-            bindings: { item: 42 },
-        };
+            expect(await cycleOf(node.getValue('a'))).toEqual(['a.value', 'b.metadata.offset', 'a.value']);
+            expect(steps.length).toBeLessThan(10);
+        });
 
-        expect(await evaluate(ref(['item']), ctx)).toBe(42);
-    });
+        test('starts the cycle where evaluation started', async () => {
+            const node = PropertyNode.create(createCyclicTree(), createStandardRegistry());
+            const error = await node.child('b')!.getMetadata('offset').catch(e => e);
 
-    test('ref resolves nested binding path', async () => {
-        const registry = createRegistry();
-        const ctx: EvaluationContext = {
-            current: lit(0),
-            root: lit(0),
-            registry,
-            bindings: { user: { name: 'John', age: 30 } },
-        };
+            expect(error).toBeInstanceOf(CircularReferenceError);
+            expect(error.message).toBe('Circular reference: b.metadata.offset -> a.value -> b.metadata.offset');
+        });
 
-        expect(await evaluate(ref(['user', 'name']), ctx)).toBe('John');
-        expect(await evaluate(ref(['user', 'age']), ctx)).toBe(30);
-    });
+        test('detects cycles with the cache enabled and in async evaluation', async () => {
+            const node = PropertyNode.create(createCyclicTree(), createStandardRegistry()).enableCache();
+            expect(await cycleOf(node.getValue('a'))).toHaveLength(3);
 
-    test('createLoopContext creates mutable bindings', () => {
-        const registry = createRegistry();
-        const ctx = createContext(lit(0), lit(0), registry);
-        const { loopCtx, bindings } = createLoopContext(ctx);
+            const root = createCyclicTree();
+            const ctx = createContext(root.children!.a!, root, createStandardRegistry());
+            expect(await cycleOf(evaluate(root.children!.a!.value as Property, ctx))).toHaveLength(3);
+        });
 
-        bindings.item = 'test';
-        bindings.index = 0;
+        test('shared targets are not cycles', async () => {
+            const node = PropertyNode.create({
+                id: 'root',
+                type: PROPERTY,
+                children: {
+                    base: { id: 'base', type: PROPERTY, value: op('add', lit(1), lit(1)) },
+                    left: { id: 'left', type: PROPERTY, value: op('mul', ref('parent.base.value'), lit(2)) },
+                    right: { id: 'right', type: PROPERTY, value: op('mul', ref('parent.base.value'), lit(3)) },
+                    total: {
+                        id: 'total',
+                        type: PROPERTY,
+                        value: op('add', ref('parent.left.value'), ref('parent.right.value'), ref('parent.base.value')),
+                    },
+                },
+            }, createStandardRegistry());
 
-        expect(loopCtx.bindings?.item).toBe('test');
-        expect(loopCtx.bindings?.index).toBe(0);
+            expect(await node.getValue('total')).toBe(12);
+        });
     });
-});
 
-// ============================================================================
-// DEPTH PROTECTION
-// ============================================================================
+    // ============================================================================
+    // ASYNC OPERATORS
+    // ============================================================================
+
+    describe('Evaluator: Async Operators', () => {
+        test('handles async operator', async () => {
+            const registry = createRegistry();
+            registry.register('asyncAdd', async (args, ctx) => {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            });
 
-describe('Evaluator: Depth Protection', () => {
-    test('throws on circular reference (max depth)', async () => {
-        const registry = createRegistry();
-        registry.register('recurse', async (args, ctx) => {
-            return evaluate(op('recurse'), ctx);
+            const ctx = createContext(lit(0), lit(0), registry);
+            expect(await evaluate(op('asyncAdd', lit(1), lit(2)), ctx)).toBe(3);
         });
 
-        const ctx = createContext(lit(0), lit(0), registry);
-        await expect(evaluate(op('recurse'), ctx)).rejects.toThrow('Maximum evaluation depth exceeded');
-    });
+        test('handles sync operator', async () => {
+            const registry = createRegistry();
+            registry.register('syncAdd', (args, ctx) => {
+                // Sync version - no await
+                return 100;
+            });
 
-    test('handles deep but valid nesting', async () => {
-        const registry = createRegistry();
-        registry.register('identity', async (args, ctx) => {
-            return evalArg(args[0]!, ctx);
+            const ctx = createContext(lit(0), lit(0), registry);
+            expect(await evaluate(op('syncAdd', lit(1), lit(2)), ctx)).toBe(100);
         });
+    });
 
-        const ctx = createContext(lit(0), lit(0), registry);
+    // ============================================================================
+    // SYNC EVALUATION
+    // ============================================================================
 
-        // Create 50 levels of nesting (should work)
-        let expr: Property = lit(42);
-        for (let i = 0; i < 50; i++) {
-            expr = op('identity', expr);
-        }
+    describe('Evaluator: Sync Evaluation', () => {
+        const createSyncRegistry = () => {
+            const registry = createRegistry();
+            registry.register('add', (args, ctx) => {
+                const [a, b] = evalArgsSync(args, ctx);
+                return (a as number) + (b as number);
+            }, { sync: true });
+            registry.register('double', (args, ctx) => (evalArgSync(args[0]!, ctx) as number) * 2, { sync: true });
+            registry.register('slow', async (args, ctx) => {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                return evalArg(args[0]!, ctx);
+            });
+            return registry;
+        };
 
-        expect(await evaluate(expr, ctx)).toBe(42);
-    });
-});
+        test('evaluates literals, refs and sync operators without promises', () => {
+            const root: Property = {
+                id: 'root',
+                type: PROPERTY,
+                children: {
+                    x: { id: 'x', type: PROPERTY, value: 10 },
+                },
+            };
+            const ctx = createContext(root, root, createSyncRegistry());
 
-// ============================================================================
-// ASYNC OPERATORS
-// ============================================================================
+            expect(evaluateSync(lit(42), ctx)).toBe(42);
+            expect(evaluateSync(ref('self.x.value'), ctx)).toBe(10);
+            expect(evaluateSync(op('add', ref('self.x.value'), op('double', lit(5))), ctx)).toBe(20);
+        });
+
+        test('register records sync capability', () => {
+            const registry = createSyncRegistry();
+            expect(registry.isSync('add')).toBe(true);
+            expect(registry.isSync('slow')).toBe(false);
+            expect(registry.getSync('add')).toBe(registry.get('add'));
+
+            registry.register('add', async () => 0);
+            expect(registry.isSync('add')).toBe(false);
 
-describe('Evaluator: Async Operators', () => {
-    test('handles async operator', async () => {
-        const registry = createRegistry();
-        registry.register('asyncAdd', async (args, ctx) => {
-            await new Promise(resolve => setTimeout(resolve, 1));
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) + (b as number);
+            registry.unregister('double');
+            expect(registry.isSync('double')).toBe(false);
         });
 
-        const ctx = createContext(lit(0), lit(0), registry);
-        expect(await evaluate(op('asyncAdd', lit(1), lit(2)), ctx)).toBe(3);
-    });
+        test('accepts a separate sync implementation', async () => {
+            const registry = createRegistry();
+            registry.register('answer', async () => 'async', { sync: () => 'sync' });
 
-    test('handles sync operator', async () => {
-        const registry = createRegistry();
-        registry.register('syncAdd', (args, ctx) => {
-            // Sync version - no await
-            return 100;
+            const ctx = createContext(lit(0), lit(0), registry);
+            expect(await evaluate(op('answer'), ctx)).toBe('async');
+            expect(evaluateSync(op('answer'), ctx)).toBe('sync');
         });
 
-        const ctx = createContext(lit(0), lit(0), registry);
-        expect(await evaluate(op('syncAdd', lit(1), lit(2)), ctx)).toBe(100);
-    });
-});
+        test('throws SyncEvaluationError on operators without a sync implementation', () => {
+            const ctx = createContext(lit(0), lit(0), createSyncRegistry());
+            expect(() => evaluateSync(op('add', op('slow', lit(1)), lit(2)), ctx)).toThrow(SyncEvaluationError);
+        });
 
-// ============================================================================
-// COMPLEX SCENARIOS
-// ============================================================================
+        test('throws SyncEvaluationError when a sync operator returns a promise', () => {
+            const registry = createRegistry();
+            registry.register('liar', async () => 1, { sync: true });
+            const ctx = createContext(lit(0), lit(0), registry);
+            expect(() => evaluateSync(op('liar'), ctx)).toThrow(SyncEvaluationError);
+        });
 
-describe('Evaluator: Complex Scenarios', () => {
-    test('map operation with bindings', async () => {
-        const registry = createRegistry();
+        test('operators marked sync: true cannot take async arguments', async () => {
+            const ctx = createContext(lit(0), lit(0), createSyncRegistry());
+            await expect(evaluate(op('add', op('slow', lit(1)), lit(2)), ctx)).rejects.toThrow(SyncEvaluationError);
+        });
 
-        registry.register('map', async (args, ctx) => {
-            const array = await evalArg(args[0]!, ctx) as unknown[];
-            const expr = args[1]!;
-            const results: unknown[] = [];
+        test('still reports unknown operators', () => {
+            const ctx = createContext(lit(0), lit(0), createRegistry());
+            expect(() => evaluateSync(op('missing'), ctx)).toThrow('Unknown operator');
+        });
 
-            const { loopCtx, bindings } = createLoopContext(ctx);
-            for (let i = 0; i < array.length; i++) {
-                bindings.item = array[i];
-                bindings.index = i;
-                results.push(await evaluate(expr, loopCtx));
-            }
-            return results;
+        test('isSyncSafe checks every operator in the tree', () => {
+            const registry = createSyncRegistry();
+            expect(isSyncSafe(lit(1), registry)).toBe(true);
+            expect(isSyncSafe(ref('self.value'), registry)).toBe(true);
+            expect(isSyncSafe(op('add', lit(1), op('double', lit(2))), registry)).toBe(true);
+            expect(isSyncSafe(op('add', lit(1), op('slow', lit(2))), registry)).toBe(false);
+            expect(isSyncSafe(op('unknown'), registry)).toBe(false);
         });
 
-        registry.register('mul', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) * (b as number);
+        test('standard operators are sync-capable, including lazy ones', () => {
+            const registry = createStandardRegistry();
+            const ctx = createContext(lit(0), lit(0), registry);
+            const expr = op('if',
+                op('and', lit(true), op('gt', lit(3), lit(2))),
+                op('reduce', lit([1, 2, 3]), op('add', ref('acc'), ref('item')), lit(0)),
+                lit('no')
+            );
+
+            expect(isSyncSafe(expr, registry)).toBe(true);
+            expect(evaluateSync(expr, ctx)).toBe(6);
         });
 
-        const ctx = createContext(lit(0), lit(0), registry);
-        // Map [1, 2, 3] with item * 2
-        const result = await evaluate(
-            op('map', lit([1, 2, 3]), op('mul', ref(['item']), lit(2))),
-            ctx
-        );
-        expect(result).toEqual([2, 4, 6]);
-    });
+        test('PropertyNode uses the sync path when possible', async () => {
+            const registry = createSyncRegistry();
+            let asyncCalls = 0;
+            registry.register('add', async (args, ctx) => {
+                asyncCalls++;
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            }, {
+                sync: (args, ctx) => {
+                    const [a, b] = evalArgsSync(args, ctx);
+                    return (a as number) + (b as number);
+                },
+            });
+
+            const node = PropertyNode.create({
+                id: 'total',
+                type: PROPERTY,
+                value: op('add', lit(1), lit(2)),
+                metadata: { label: op('add', lit(3), lit(4)) },
+                constraints: {
+                    positive: { id: 'positive', type: PROPERTY, value: op('add', lit(0), lit(1)) },
+                },
+            }, registry);
 
-    test('filter operation with bindings', async () => {
-        const registry = createRegistry();
+            expect(await node.getValue()).toBe(3);
+            expect(await node.getMetadata('label')).toBe(7);
+            expect(await node.getConstraint('positive')).toBe(true);
+            expect(asyncCalls).toBe(0);
+        });
 
-        registry.register('filter', async (args, ctx) => {
-            const array = await evalArg(args[0]!, ctx) as unknown[];
-            const predicate = args[1]!;
-            const results: unknown[] = [];
+        test('PropertyNode falls back to async when a ref reaches an async expression', async () => {
+            const registry = createStandardRegistry();
+            registry.register('slow', async (args, ctx) => {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                return evalArg(args[0]!, ctx);
+            });
+            const node = PropertyNode.create({
+                id: 'form',
+                type: PROPERTY,
+                children: {
+                    remote: { id: 'remote', type: PROPERTY, value: op('slow', lit(5)) },
+                    total: { id: 'total', type: PROPERTY, value: op('add', ref('parent.remote.value'), lit(1)) },
+                },
+            }, registry);
 
-            const { loopCtx, bindings } = createLoopContext(ctx);
-            for (const item of array) {
-                bindings.item = item;
-                const keep = await evaluate(predicate, loopCtx);
-                if (keep) results.push(item);
-            }
-            return results;
+            expect(await node.getValue('remote')).toBe(5);
+            expect(await node.getValue('total')).toBe(6);
         });
 
-        registry.register('gt', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) > (b as number);
+        test('hooks never see a discarded sync attempt', async () => {
+            const registry = createStandardRegistry();
+            registry.register('slow', async (args, ctx) => evalArg(args[0]!, ctx));
+            const node = PropertyNode.create({
+                id: 'form',
+                type: PROPERTY,
+                children: {
+                    remote: { id: 'remote', type: PROPERTY, value: op('slow', lit(5)) },
+                    total: { id: 'total', type: PROPERTY, value: op('add', ref('parent.remote.value'), lit(1)) },
+                },
+            }, registry);
+            const entered: string[] = [];
+            const exited: string[] = [];
+            node.setEvaluationHooks({
+                onEnter: (expr) => entered.push(expr.id),
+                onExit: (expr) => exited.push(expr.id),
+            });
+
+            expect(await node.getValue('total')).toBe(6);
+            expect(entered).toEqual(['add', 'ref', 'slow', 'lit', 'lit']);
+            expect(exited).toHaveLength(5);
         });
 
-        const ctx = createContext(lit(0), lit(0), registry);
-        // Filter [1, 2, 3, 4, 5] where item > 2
-        const result = await evaluate(
-            op('filter', lit([1, 2, 3, 4, 5]), op('gt', ref(['item']), lit(2))),
-            ctx
-        );
-        expect(result).toEqual([3, 4, 5]);
+        test('stops when the signal aborts', () => {
+            const controller = new AbortController();
+            controller.abort(new Error('superseded'));
+            const ctx = { ...createContext(lit(0), lit(0), createSyncRegistry()), signal: controller.signal };
+
+            expect(() => evaluateSync(op('add', lit(1), lit(2)), ctx)).toThrow('superseded');
+        });
     });
 
-    test('reduce operation with bindings', async () => {
-        const registry = createRegistry();
+    // ============================================================================
+    // COMPLEX SCENARIOS
+    // ============================================================================
 
-        registry.register('reduce', async (args, ctx) => {
-            const array = await evalArg(args[0]!, ctx) as unknown[];
-            const reducer = args[1]!;
-            let acc = await evalArg(args[2]!, ctx);
+    describe('Evaluator: Complex Scenarios', () => {
+        test('map operation with bindings', async () => {
+            const registry = createRegistry();
 
-            const { loopCtx, bindings } = createLoopContext(ctx);
-            for (const item of array) {
-                bindings.acc = acc;
-                bindings.item = item;
-                acc = await evaluate(reducer, loopCtx);
-            }
-            return acc;
-        });
+            registry.register('map', async (args, ctx) => {
+                const array = await evalArg(args[0]!, ctx) as unknown[];
+                const expr = args[1]!;
+                const results: unknown[] = [];
 
-        registry.register('add', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) + (b as number);
-        });
+                const { loopCtx, bindings } = createLoopContext(ctx);
+                for (let i = 0; i < array.length; i++) {
+                    bindings.item = array[i];
+                    bindings.index = i;
+                    results.push(await evaluate(expr, loopCtx));
+                }
+                return results;
+            });
 
-        const ctx = createContext(lit(0), lit(0), registry);
-        // Reduce [1, 2, 3, 4] with acc + item, starting at 0
-        const result = await evaluate(
-            op('reduce', lit([1, 2, 3, 4]), op('add', ref(['acc']), ref(['item'])), lit(0)),
-            ctx
-        );
-        expect(result).toBe(10);
-    });
+            registry.register('mul', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) * (b as number);
+            });
 
-    test('expression evaluates value in property', async () => {
-        const registry = createRegistry();
-        registry.register('add', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) + (b as number);
+            const ctx = createContext(lit(0), lit(0), registry);
+            // Map [1, 2, 3] with item * 2
+            const result = await evaluate(
+                op('map', lit([1, 2, 3]), op('mul', ref(['item']), lit(2))),
+                ctx
+            );
+            expect(result).toEqual([2, 4, 6]);
         });
 
-        const root: Property = {
-            id: 'root',
-            type: PROPERTY,
-            children: {
-                a: { id: 'a', type: PROPERTY, value: 5 },
-                b: { id: 'b', type: PROPERTY, value: 3 },
-                sum: {
-                    id: 'sum',
-                    type: PROPERTY,
-                    value: op('add', ref('parent.a.value'), ref('parent.b.value')),
-                },
-            },
-        };
+        test('filter operation with bindings', async () => {
+            const registry = createRegistry();
 
-        const ctx: EvaluationContext = {
-            current: root.children!.sum,
-            root,
-            registry,
-            findParent: () => root,
-        };
+            registry.register('filter', async (args, ctx) => {
+                const array = await evalArg(args[0]!, ctx) as unknown[];
+                const predicate = args[1]!;
+                const results: unknown[] = [];
 
-        const sumValue = root.children!.sum.value as Property;
-        const result = await evaluate(sumValue, ctx);
-        expect(result).toBe(8);
-    });
-});
+                const { loopCtx, bindings } = createLoopContext(ctx);
+                for (const item of array) {
+                    bindings.item = item;
+                    const keep = await evaluate(predicate, loopCtx);
+                    if (keep) results.push(item);
+                }
+                return results;
+            });
 
-// ============================================================================
-// CROSS-REFERENCED COMPUTED METADATA
-// ============================================================================
+            registry.register('gt', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) > (b as number);
+            });
 
-describe('Evaluator: Cross-Referenced Computed Metadata', () => {
-    test('ref to computed metadata (OP) auto-evaluates', async () => {
-        const registry = createRegistry();
-        registry.register('add', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) + (b as number);
+            const ctx = createContext(lit(0), lit(0), registry);
+            // Filter [1, 2, 3, 4, 5] where item > 2
+            const result = await evaluate(
+                op('filter', lit([1, 2, 3, 4, 5]), op('gt', ref(['item']), lit(2))),
+                ctx
+            );
+            expect(result).toEqual([3, 4, 5]);
         });
 
-        const root: Property = {
-            id: 'root',
-            type: PROPERTY,
-            metadata: {
-                // Computed metadata: 10 + 20 = 30
-                subtotal: op('add', lit(10), lit(20)),
-                // References the computed metadata
-                total: op('add', ref('self.metadata.subtotal'), lit(5)),
-            },
-        };
+        test('reduce operation with bindings', async () => {
+            const registry = createRegistry();
 
-        const ctx: EvaluationContext = {
-            current: root,
-            root,
-            registry,
-        };
+            registry.register('reduce', async (args, ctx) => {
+                const array = await evalArg(args[0]!, ctx) as unknown[];
+                const reducer = args[1]!;
+                let acc = await evalArg(args[2]!, ctx);
 
-        // ref to subtotal should auto-evaluate and return 30
-        expect(await evaluate(ref('self.metadata.subtotal'), ctx)).toBe(30);
+                const { loopCtx, bindings } = createLoopContext(ctx);
+                for (const item of array) {
+                    bindings.acc = acc;
+                    bindings.item = item;
+                    acc = await evaluate(reducer, loopCtx);
+                }
+                return acc;
+            });
 
-        // total should evaluate subtotal (30) + 5 = 35
-        const totalExpr = root.metadata!.total as Property;
-        expect(await evaluate(totalExpr, ctx)).toBe(35);
-    });
+            registry.register('add', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            });
 
-    test('ref to LIT expression auto-evaluates', async () => {
-        const registry = createRegistry();
+            const ctx = createContext(lit(0), lit(0), registry);
+            // Reduce [1, 2, 3, 4] with acc + item, starting at 0
+            const result = await evaluate(
+                op('reduce', lit([1, 2, 3, 4]), op('add', ref(['acc']), ref(['item'])), lit(0)),
+                ctx
+            );
+            expect(result).toBe(10);
+        });
 
-        const root: Property = {
-            id: 'root',
-            type: PROPERTY,
-            metadata: {
-                label: lit('Hello World'),
-            },
-        };
+        test('expression evaluates value in property', async () => {
+            const registry = createRegistry();
+            registry.register('add', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            });
 
-        const ctx: EvaluationContext = {
-            current: root,
-            root,
-            registry,
-        };
+            const root: Property = {
+                id: 'root',
+                type: PROPERTY,
+                children: {
+                    a: { id: 'a', type: PROPERTY, value: 5 },
+                    b: { id: 'b', type: PROPERTY, value: 3 },
+                    sum: {
+                        id: 'sum',
+                        type: PROPERTY,
+                        value: op('add', ref('parent.a.value'), ref('parent.b.value')),
+                    },
+                },
+            };
+
+            const ctx: EvaluationContext = {
+                current: root.children!.sum,
+                root,
+                registry,
+                findParent: () => root,
+            };
 
-        // ref to LIT metadata should return the literal value
-        expect(await evaluate(ref('self.metadata.label'), ctx)).toBe('Hello World');
+            const sumValue = root.children!.sum.value as Property;
+            const result = await evaluate(sumValue, ctx);
+            expect(result).toBe(8);
+        });
     });
 
-    test('ref to REF expression auto-evaluates (chained refs)', async () => {
-        const registry = createRegistry();
+    // ============================================================================
+    // CROSS-REFERENCED COMPUTED METADATA
+    // ============================================================================
 
-        const root: Property = {
-            id: 'root',
-            type: PROPERTY,
-            value: 'original-value',
-            metadata: {
-                // REF that points to self.value
-                valueRef: ref('self.value'),
-                // REF that points to the REF above
-                chainedRef: ref('self.metadata.valueRef'),
-            },
-        };
+    describe('Evaluator: Cross-Referenced Computed Metadata', () => {
+        test('ref to computed metadata (OP) auto-evaluates', async () => {
+            const registry = createRegistry();
+            registry.register('add', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            });
 
-        const ctx: EvaluationContext = {
-            current: root,
-            root,
-            registry,
-        };
+            const root: Property = {
+                id: 'root',
+                type: PROPERTY,
+                metadata: {
+                    // Computed metadata: 10 + 20 = 30
+                    subtotal: op('add', lit(10), lit(20)),
+                    // References the computed metadata
+                    total: op('add', ref('self.metadata.subtotal'), lit(5)),
+                },
+            };
 
-        // Both should resolve to 'original-value'
-        expect(await evaluate(ref('self.metadata.valueRef'), ctx)).toBe('original-value');
-        expect(await evaluate(ref('self.metadata.chainedRef'), ctx)).toBe('original-value');
-    });
+            const ctx: EvaluationContext = {
+                current: root,
+                root,
+                registry,
+            };
 
-    test('complex cross-metadata calculation chain', async () => {
-        const registry = createRegistry();
-        registry.register('add', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) + (b as number);
-        });
-        registry.register('mul', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) * (b as number);
+            // ref to subtotal should auto-evaluate and return 30
+            expect(await evaluate(ref('self.metadata.subtotal'), ctx)).toBe(30);
+
+            // total should evaluate subtotal (30) + 5 = 35
+            const totalExpr = root.metadata!.total as Property;
+            expect(await evaluate(totalExpr, ctx)).toBe(35);
         });
-        registry.register('if', async (args, ctx) => {
-            const condition = await evalArg(args[0]!, ctx);
-            return condition ? evalArg(args[1]!, ctx) : evalArg(args[2]!, ctx);
+
+        test('ref to LIT expression auto-evaluates', async () => {
+            const registry = createRegistry();
+
+            const root: Property = {
+                id: 'root',
+                type: PROPERTY,
+                metadata: {
+                    label: lit('Hello World'),
+                },
+            };
+
+            const ctx: EvaluationContext = {
+                current: root,
+                root,
+                registry,
+            };
+
+            // ref to LIT metadata should return the literal value
+            expect(await evaluate(ref('self.metadata.label'), ctx)).toBe('Hello World');
         });
-        registry.register('gte', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) >= (b as number);
+
+        test('ref to REF expression auto-evaluates (chained refs)', async () => {
+            const registry = createRegistry();
+
+            const root: Property = {
+                id: 'root',
+                type: PROPERTY,
+                value: 'original-value',
+                metadata: {
+                    // REF that points to self.value
+                    valueRef: ref('self.value'),
+                    // REF that points to the REF above
+                    chainedRef: ref('self.metadata.valueRef'),
+                },
+            };
+
+            const ctx: EvaluationContext = {
+                current: root,
+                root,
+                registry,
+            };
+
+            // Both should resolve to 'original-value'
+            expect(await evaluate(ref('self.metadata.valueRef'), ctx)).toBe('original-value');
+            expect(await evaluate(ref('self.metadata.chainedRef'), ctx)).toBe('original-value');
         });
 
-        const root: Property = {
-            id: 'order',
-            type: PROPERTY,
-            metadata: {
-                // Subtotal: 100
-                subtotal: lit(100),
-                // Tax rate: 0.08
-                taxRate: lit(0.08),
-                // Free shipping threshold: 50
-                freeShippingThreshold: lit(50),
-                // Shipping cost: 10
-                baseShipping: lit(10),
-
-                // Computed: tax = subtotal * taxRate
-                tax: op('mul', ref('self.metadata.subtotal'), ref('self.metadata.taxRate')),
-
-                // Computed: shipping = subtotal >= threshold ? 0 : baseShipping
-                shipping: op('if',
-                    op('gte', ref('self.metadata.subtotal'), ref('self.metadata.freeShippingThreshold')),
-                    lit(0),
-                    ref('self.metadata.baseShipping')
-                ),
-
-                // Computed: total = subtotal + tax + shipping
-                total: op('add',
-                    op('add', ref('self.metadata.subtotal'), ref('self.metadata.tax')),
-                    ref('self.metadata.shipping')
-                ),
-            },
-        };
+        test('complex cross-metadata calculation chain', async () => {
+            const registry = createRegistry();
+            registry.register('add', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            });
+            registry.register('mul', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) * (b as number);
+            });
+            registry.register('if', async (args, ctx) => {
+                const condition = await evalArg(args[0]!, ctx);
+                return condition ? evalArg(args[1]!, ctx) : evalArg(args[2]!, ctx);
+            });
+            registry.register('gte', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) >= (b as number);
+            });
 
-        const ctx: EvaluationContext = {
-            current: root,
-            root,
-            registry,
-        };
+            const root: Property = {
+                id: 'order',
+                type: PROPERTY,
+                metadata: {
+                    // Subtotal: 100
+                    subtotal: lit(100),
+                    // Tax rate: 0.08
+                    taxRate: lit(0.08),
+                    // Free shipping threshold: 50
+                    freeShippingThreshold: lit(50),
+                    // Shipping cost: 10
+                    baseShipping: lit(10),
+
+                    // Computed: tax = subtotal * taxRate
+                    tax: op('mul', ref('self.metadata.subtotal'), ref('self.metadata.taxRate')),
+
+                    // Computed: shipping = subtotal >= threshold ? 0 : baseShipping
+                    shipping: op('if',
+                        op('gte', ref('self.metadata.subtotal'), ref('self.metadata.freeShippingThreshold')),
+                        lit(0),
+                        ref('self.metadata.baseShipping')
+                    ),
+
+                    // Computed: total = subtotal + tax + shipping
+                    total: op('add',
+                        op('add', ref('self.metadata.subtotal'), ref('self.metadata.tax')),
+                        ref('self.metadata.shipping')
+                    ),
+                },
+            };
 
-        // subtotal = 100
-        expect(await evaluate(ref('self.metadata.subtotal'), ctx)).toBe(100);
+            const ctx: EvaluationContext = {
+                current: root,
+                root,
+                registry,
+            };
 
-        // tax = 100 * 0.08 = 8
-        expect(await evaluate(ref('self.metadata.tax'), ctx)).toBe(8);
+            // subtotal = 100
+            expect(await evaluate(ref('self.metadata.subtotal'), ctx)).toBe(100);
 
-        // shipping = 100 >= 50 ? 0 : 10 = 0 (free shipping)
-        expect(await evaluate(ref('self.metadata.shipping'), ctx)).toBe(0);
+            // tax = 100 * 0.08 = 8
+            expect(await evaluate(ref('self.metadata.tax'), ctx)).toBe(8);
 
-        // total = 100 + 8 + 0 = 108
-        expect(await evaluate(ref('self.metadata.total'), ctx)).toBe(108);
-    });
+            // shipping = 100 >= 50 ? 0 : 10 = 0 (free shipping)
+            expect(await evaluate(ref('self.metadata.shipping'), ctx)).toBe(0);
 
-    test('cross-metadata refs in children work correctly', async () => {
-        const registry = createRegistry();
-        registry.register('add', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) + (b as number);
+            // total = 100 + 8 + 0 = 108
+            expect(await evaluate(ref('self.metadata.total'), ctx)).toBe(108);
         });
 
-        const root: Property = {
-            id: 'form',
-            type: PROPERTY,
-            children: {
-                item1: {
-                    id: 'item1',
-                    type: PROPERTY,
-                    metadata: {
-                        price: lit(25),
-                        quantity: lit(2),
-                        lineTotal: op('mul', ref('self.metadata.price'), ref('self.metadata.quantity')),
+        test('cross-metadata refs in children work correctly', async () => {
+            const registry = createRegistry();
+            registry.register('add', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) + (b as number);
+            });
+
+            const root: Property = {
+                id: 'form',
+                type: PROPERTY,
+                children: {
+                    item1: {
+                        id: 'item1',
+                        type: PROPERTY,
+                        metadata: {
+                            price: lit(25),
+                            quantity: lit(2),
+                            lineTotal: op('mul', ref('self.metadata.price'), ref('self.metadata.quantity')),
+                        },
                     },
-                },
-                item2: {
-                    id: 'item2',
-                    type: PROPERTY,
-                    metadata: {
-                        price: lit(15),
-                        quantity: lit(3),
-                        lineTotal: op('mul', ref('self.metadata.price'), ref('self.metadata.quantity')),
+                    item2: {
+                        id: 'item2',
+                        type: PROPERTY,
+                        metadata: {
+                            price: lit(15),
+                            quantity: lit(3),
+                            lineTotal: op('mul', ref('self.metadata.price'), ref('self.metadata.quantity')),
+                        },
                     },
                 },
-            },
-            metadata: {
-                // Sum of line totals from children
-                grandTotal: op('add',
-                    ref('self.children.item1.metadata.lineTotal'),
-                    ref('self.children.item2.metadata.lineTotal')
-                ),
-            },
-        };
+                metadata: {
+                    // Sum of line totals from children
+                    grandTotal: op('add',
+                        ref('self.children.item1.metadata.lineTotal'),
+                        ref('self.children.item2.metadata.lineTotal')
+                    ),
+                },
+            };
 
-        registry.register('mul', async (args, ctx) => {
-            const [a, b] = await evalArgs(args, ctx);
-            return (a as number) * (b as number);
-        });
+            registry.register('mul', async (args, ctx) => {
+                const [a, b] = await evalArgs(args, ctx);
+                return (a as number) * (b as number);
+            });
 
-        const ctx: EvaluationContext = {
-            current: root,
-            root,
-            registry,
-        };
+            const ctx: EvaluationContext = {
+                current: root,
+                root,
+                registry,
+            };
 
-        // item1 lineTotal = 25 * 2 = 50
-        const item1Ctx = { ...ctx, current: root.children!.item1 };
-        expect(await evaluate(ref('self.metadata.lineTotal'), item1Ctx)).toBe(50);
+            // item1 lineTotal = 25 * 2 = 50
+            const item1Ctx = { ...ctx, current: root.children!.item1 };
+            expect(await evaluate(ref('self.metadata.lineTotal'), item1Ctx)).toBe(50);
 
-        // item2 lineTotal = 15 * 3 = 45
-        const item2Ctx = { ...ctx, current: root.children!.item2 };
-        expect(await evaluate(ref('self.metadata.lineTotal'), item2Ctx)).toBe(45);
+            // item2 lineTotal = 15 * 3 = 45
+            const item2Ctx = { ...ctx, current: root.children!.item2 };
+            expect(await evaluate(ref('self.metadata.lineTotal'), item2Ctx)).toBe(45);
 
-        // grandTotal = 50 + 45 = 95
-        expect(await evaluate(ref('self.metadata.grandTotal'), ctx)).toBe(95);
+            // grandTotal = 50 + 45 = 95
+            expect(await evaluate(ref('self.metadata.grandTotal'), ctx)).toBe(95);
+        });
     });
 });
@@ -0,0 +1,247 @@
+/**
+ * Explain Tests
+ * =============
+ * Tests for evaluation traces and their text and JSON renderings.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    explain,
+    formatExplanation,
+    explanationToJSON,
+    evaluate,
+    parse,
+    PropertyNode,
+    PROPERTY,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    evalArgsParallel,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, EvaluationContext, EvaluationTracer } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createForm = (country: string): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: {
+        age: { id: 'age', type: PROPERTY, value: 21 },
+        country: { id: 'country', type: PROPERTY, value: country },
+        years: {
+            id: 'years',
+            type: PROPERTY,
+            value: op('sub', ref('parent.age.value'), lit(18)),
+        },
+        eligible: {
+            id: 'eligible',
+            type: PROPERTY,
+            value: null,
+            constraints: {
+                allowed: {
+                    id: 'allowed',
+                    type: CONSTRAINT,
+                    value: parse("parent.age.value > 18 && parent.country.value == 'FR'"),
+                },
+            },
+        },
+    },
+});
+
+const contextFor = (root: Property, path: string): EvaluationContext => ({
+    current: root.children![path]!,
+    root,
+    registry,
+});
+
+// ============================================================================
+// TRACES
+// ============================================================================
+
+describe('Explain: Traces', () => {
+    test('records every sub-expression with its result', async () => {
+        const root = createForm('DE');
+        const expr = root.children!.eligible!.constraints!.allowed!.value as Property;
+        const trace = await explain(expr, contextFor(root, 'eligible'));
+
+        expect(trace.kind).toBe('op');
+        expect(trace.operator).toBe('and');
+        expect(trace.source).toBe("parent.age.value > 18 && parent.country.value == 'FR'");
+        expect(trace.result).toBe(false);
+        expect(trace.args).toEqual([true, false]);
+
+        const [age, country] = trace.children;
+        expect(age!.source).toBe('parent.age.value > 18');
+        expect(age!.children[0]).toMatchObject({ kind: 'ref', ref: 'parent.age.value', result: 21 });
+        expect(country!.result).toBe(false);
+        expect(country!.args).toEqual(['DE', 'FR']);
+    });
+
+    test('lazy operators only show what they evaluated', async () => {
+        const root = createForm('DE');
+        const trace = await explain(
+            parse("parent.country.value == 'FR' && parent.age.value > 18"),
+            contextFor(root, 'eligible')
+        );
+        expect(trace.children).toHaveLength(1);
+        expect(trace.args).toEqual([false]);
+    });
+
+    test('references to computed values show the target expression and its self', async () => {
+        const root = createForm('FR');
+        const trace = await explain(ref('root.years.value'), contextFor(root, 'eligible'));
+
+        expect(trace.result).toBe(3);
+        expect(trace.children).toHaveLength(1);
+        expect(trace.children[0]).toMatchObject({
+            source: 'parent.age.value - 18',
+            self: ['years'],
+            result: 3,
+        });
+    });
+
+    test('loop bodies appear once per item', async () => {
+        const root = createForm('FR');
+        const trace = await explain(
+            parse('map([1, 2, 3], item * 10)'),
+            contextFor(root, 'eligible')
+        );
+        expect(trace.result).toEqual([10, 20, 30]);
+        expect(trace.children.map(child => child.source)).toEqual([
+            '[1, 2, 3]', 'item * 10', 'item * 10', 'item * 10',
+        ]);
+    });
+
+    test('errors are recorded instead of thrown', async () => {
+        const root = createForm('FR');
+        const trace = await explain(
+            op('add', lit(1), op('frobnicate')),
+            contextFor(root, 'eligible')
+        );
+        expect(trace.error).toBe('Unknown operator: frobnicate');
+        expect(trace.children[1]).toMatchObject({
+            operator: 'frobnicate',
+            error: 'Unknown operator: frobnicate',
+        });
+    });
+
+    test('tracers nest correctly under parallel evaluation', async () => {
+        const parallel = createStandardRegistry();
+        parallel.register('both', async (args, ctx) => evalArgsParallel(args, ctx));
+        const root = createForm('FR');
+        const ctx = { ...contextFor(root, 'eligible'), registry: parallel };
+
+        const trace = await explain(
+            op('both', op('add', lit(1), lit(2)), op('upper', lit('x'))),
+            ctx
+        );
+        expect(trace.result).toEqual([3, 'X']);
+        expect(trace.children.map(child => child.children.length)).toEqual([2, 1]);
+    });
+
+    test('explain bypasses the evaluation cache', async () => {
+        const node = PropertyNode.create(createForm('FR'), registry);
+        node.enableCache();
+        const eligible = node.child('eligible')!;
+        eligible.setConstraint('seniority', {
+            id: 'seniority',
+            type: CONSTRAINT,
+            value: op('gte', ref('root.years.value'), lit(1)),
+        });
+        expect(await eligible.getConstraint('seniority')).toBe(true);
+
+        const trace = await eligible.explainConstraint('seniority');
+        expect(trace!.children[0]!.children[0]).toMatchObject({ self: ['years'], result: 3 });
+    });
+
+    test('evaluate reports to a custom tracer', async () => {
+        const sources: string[] = [];
+        const tracer: EvaluationTracer = {
+            enter: (expr) => {
+                sources.push(expr.id);
+                return tracer;
+            },
+            exit: () => undefined,
+        };
+        const ctx = { ...contextFor(createForm('FR'), 'eligible'), tracer };
+        expect(await evaluate(op('add', lit(1), lit(2)), ctx)).toBe(3);
+        expect(sources).toEqual(['add', 'lit', 'lit']);
+    });
+});
+
+// ============================================================================
+// PROPERTY NODE
+// ============================================================================
+
+describe('Explain: explainConstraint', () => {
+    test('explains a failing constraint', async () => {
+        const node = PropertyNode.create(createForm('DE'), registry);
+        const eligible = node.child('eligible')!;
+
+        expect(await eligible.getConstraint('allowed')).toBe(false);
+        const trace = await eligible.explainConstraint('allowed');
+        expect(trace!.children[1]!.children[0]).toMatchObject({ ref: 'parent.country.value', result: 'DE' });
+    });
+
+    test('returns undefined for missing or literal constraints', async () => {
+        const node = PropertyNode.create(createForm('FR'), registry);
+        const eligible = node.child('eligible')!;
+        eligible.setConstraint('fixed', { id: 'fixed', type: CONSTRAINT, value: true });
+
+        expect(await eligible.explainConstraint('missing')).toBeUndefined();
+        expect(await eligible.explainConstraint('fixed')).toBeUndefined();
+    });
+});
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+describe('Explain: Rendering', () => {
+    test('formats an indented text trace', async () => {
+        const node = PropertyNode.create(createForm('DE'), registry);
+        const trace = await node.child('eligible')!.explainConstraint('allowed');
+
+        expect(formatExplanation(trace!)).toBe([
+            "parent.age.value > 18 && parent.country.value == 'FR' = false",
+            '  parent.age.value > 18 = true',
+            '    parent.age.value = 21',
+            '    18 = 18',
+            "  parent.country.value == 'FR' = false",
+            "    parent.country.value = 'DE'",
+            "    'FR' = 'FR'",
+        ].join('\n'));
+    });
+
+    test('marks errors and changes of self', async () => {
+        const root = createForm('FR');
+        const trace = await explain(
+            op('add', ref('root.years.value'), op('frobnicate')),
+            contextFor(root, 'eligible')
+        );
+        const text = formatExplanation(trace);
+        expect(text).toContain('  parent.age.value - 18 [self: years] = 3');
+        expect(text).toContain('  frobnicate() ! Unknown operator: frobnicate');
+    });
+
+    test('converts to JSON-safe data', async () => {
+        const root = createForm('FR');
+        const trace = await explain(
+            op('list', ref('root.children'), ref('root.nothing.value')),
+            contextFor(root, 'eligible')
+        );
+        const json = explanationToJSON(trace);
+
+        expect(json.args).toEqual([
+            [{ property: 'age' }, { property: 'country' }, { property: 'years' }, { property: 'eligible' }],
+            null,
+        ]);
+        expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+    });
+});
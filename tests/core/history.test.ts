@@ -0,0 +1,243 @@
+/**
+ * History Tests
+ * =============
+ * Tests for undo/redo of PropertyNode changes.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    applyPatch,
+    PropertyNode,
+    PROPERTY,
+    STRING,
+    NUMBER,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, HistoryState } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createForm = (): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: {
+        name: { id: 'name', type: STRING, value: 'Ada', metadata: { label: lit('Name') } },
+        age: { id: 'age', type: NUMBER, value: 36, defaultValue: 18 },
+    },
+});
+
+const required = (): Property => ({
+    id: 'required',
+    type: CONSTRAINT,
+    value: op('isNotBlank', ref('self.value')),
+});
+
+// ============================================================================
+// UNDO / REDO
+// ============================================================================
+
+describe('History: Undo and redo', () => {
+    test('values', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        form.setValue('Grace', { path: 'name' });
+        form.child('age')!.setValue(40);
+        expect(history.state).toEqual({ canUndo: true, canRedo: false, undoSize: 2, redoSize: 0 });
+
+        expect(history.undo()).toBe(true);
+        expect(await form.getValue('age')).toBe(36);
+        expect(history.undo()).toBe(true);
+        expect(await form.getValue('name')).toBe('Ada');
+        expect(history.undo()).toBe(false);
+
+        expect(history.redo()).toBe(true);
+        expect(await form.getValue('name')).toBe('Grace');
+        expect(history.canRedo).toBe(true);
+    });
+
+    test('metadata and constraints', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+        const name = form.child('name')!;
+
+        name.setMetadata('label', lit('Full name'));
+        name.setConstraint('required', required());
+        name.removeMetadata('label');
+
+        history.undo();
+        expect(await name.getMetadata('label')).toBe('Full name');
+        history.undo();
+        expect(name.hasConstraints('required')).toBe(false);
+        history.undo();
+        expect(await name.getMetadata('label')).toBe('Name');
+
+        history.redo();
+        expect(await name.getConstraint('required')).toBe(true);
+    });
+
+    test('children', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        form.addChild('email', { id: 'email', type: STRING, value: 'ada@example.com' });
+        form.removeChild('age');
+        expect(form.childKeys()).toEqual(['name', 'email']);
+
+        history.undo();
+        expect(await form.getValue('age')).toBe(36);
+        history.undo();
+        expect(form.child('email')).toBeNull();
+
+        history.redo();
+        history.redo();
+        expect(form.childKeys()).toEqual(['name', 'email']);
+    });
+
+    test('changes to a descendant are recorded by the root', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.child('name')!.enableHistory();
+
+        expect(form.getHistory()).toBe(history);
+        form.child('age')!.setDefaultValue(21);
+        history.undo();
+        expect(form.child('age')!.getDefaultValue()).toBe(18);
+    });
+
+    test('a new change clears the redo stack', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        form.setValue('Grace', { path: 'name' });
+        history.undo();
+        form.setValue('Alan', { path: 'name' });
+
+        expect(history.canRedo).toBe(false);
+        expect(history.redo()).toBe(false);
+    });
+
+    test('setting the same value records nothing', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        form.setValue('Ada', { path: 'name' });
+        expect(history.canUndo).toBe(false);
+    });
+
+    test('subscribers are notified of undone changes', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+        form.setValue('Grace', { path: 'name' });
+
+        const calls: string[][] = [];
+        form.subscribe(paths => calls.push(paths));
+        history.undo();
+
+        expect(calls).toEqual([['name']]);
+    });
+});
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+describe('History: Grouping', () => {
+    test('a batch is one entry', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        form.batch(() => {
+            form.setValue('Grace', { path: 'name' });
+            form.batch(() => form.child('age')!.setValue(40));
+            form.child('name')!.setConstraint('required', required());
+        });
+        expect(history.state.undoSize).toBe(1);
+
+        history.undo();
+        expect(await form.getValue('name')).toBe('Ada');
+        expect(await form.getValue('age')).toBe(36);
+        expect(form.child('name')!.constraintKeys()).toEqual([]);
+    });
+
+    test('a patch is one entry', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        applyPatch(form, [
+            { op: 'replace', path: '/children/name/value', value: 'Grace' },
+            { op: 'remove', path: '/children/age' },
+        ]);
+        expect(history.state.undoSize).toBe(1);
+
+        history.undo();
+        expect(await form.snapshot()).toEqual({ name: 'Ada', age: 36 });
+    });
+
+    test('a rolled back transaction leaves no entry', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+
+        expect(() => form.transaction(() => {
+            form.setValue('Grace', { path: 'name' });
+            throw new Error('abort');
+        })).toThrow('abort');
+
+        expect(history.canUndo).toBe(false);
+        expect(form.child('name')!.getRawValue()).toBe('Ada');
+    });
+});
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+describe('History: State', () => {
+    test('limit drops the oldest entries', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory({ limit: 2 });
+
+        for (const age of [1, 2, 3]) form.child('age')!.setValue(age);
+        expect(history.state.undoSize).toBe(2);
+
+        history.undo();
+        history.undo();
+        expect(history.undo()).toBe(false);
+        expect(await form.getValue('age')).toBe(1);
+    });
+
+    test('subscribe reports state changes', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const history = form.enableHistory();
+        const states: HistoryState[] = [];
+        const subscription = history.subscribe(state => states.push(state));
+
+        form.setValue('Grace', { path: 'name' });
+        history.undo();
+        history.clear();
+        subscription.unsubscribe();
+        form.setValue('Alan', { path: 'name' });
+
+        expect(states.map(s => [s.canUndo, s.canRedo])).toEqual([
+            [true, false],
+            [false, true],
+            [false, false],
+        ]);
+    });
+
+    test('disableHistory stops recording', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        form.enableHistory();
+        form.disableHistory();
+
+        form.setValue('Grace', { path: 'name' });
+        expect(form.getHistory()).toBeNull();
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * Interning Tests
+ * ===============
+ * Tests for content hashes, interning and shared serialization.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    contentHash,
+    propertyEquals,
+    InternTable,
+    findSharedSubtrees,
+    PropertyNode,
+    PROPERTY,
+    STRING,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, SerializedProperty } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const required = (): Property => ({
+    id: 'required',
+    type: CONSTRAINT,
+    value: op('isNotBlank', ref('self.value')),
+    metadata: { message: lit('This field is required') },
+});
+
+const field = (id: string, value = ''): Property => ({
+    id,
+    type: STRING,
+    value,
+    constraints: { required: required() },
+});
+
+const createForm = (fields: number): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: Object.fromEntries(Array.from({ length: fields }, (_, i) => [`field${i}`, field(`field${i}`)])),
+});
+
+// ============================================================================
+// CONTENT HASH
+// ============================================================================
+
+describe('Interning: contentHash', () => {
+    test('equal content hashes equally', () => {
+        expect(contentHash(required())).toBe(contentHash(required()));
+        expect(contentHash(required())).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    test('covers id, type, value, arguments and entries', () => {
+        const base = contentHash(op('sub', ref('a.value'), lit(1)));
+        expect(contentHash(op('sub', lit(1), ref('a.value')))).not.toBe(base);
+        expect(contentHash(op('sub', ref('a.value'), lit('1')))).not.toBe(base);
+        expect(contentHash(op('add', ref('a.value'), lit(1)))).not.toBe(base);
+        expect(contentHash({ ...required(), metadata: { message: lit('Required') } }))
+            .not.toBe(contentHash(required()));
+        expect(contentHash({ ...required(), type: PROPERTY })).not.toBe(contentHash(required()));
+    });
+
+    test('empty and absent entries hash the same', () => {
+        const empty = { ...required(), constraints: {} };
+        expect(propertyEquals(empty, required())).toBe(true);
+        expect(contentHash(empty)).toBe(contentHash(required()));
+
+        const table = new InternTable();
+        expect(table.intern(empty)).toBe(table.intern(required()));
+
+        const form = createForm(2);
+        form.children!.field1!.constraints = { required: empty };
+        expect(findSharedSubtrees(form).shared).toEqual(new Set([contentHash(required())]));
+    });
+
+    test('ignores key order of records', () => {
+        expect(contentHash(lit({ min: 1, max: 5 }))).toBe(contentHash(lit({ max: 5, min: 1 })));
+    });
+
+    test('agrees with equals', () => {
+        const a = PropertyNode.create(createForm(2), registry);
+        const b = PropertyNode.create(createForm(2), registry);
+        expect(a.equals(b)).toBe(true);
+        expect(a.contentHash()).toBe(b.contentHash());
+
+        b.child('field1')!.setValue('Ada');
+        expect(a.equals(b)).toBe(false);
+        expect(a.contentHash()).not.toBe(b.contentHash());
+    });
+
+    test('dates compare by time', () => {
+        expect(propertyEquals(lit(new Date(0)), lit(new Date(0)))).toBe(true);
+        expect(propertyEquals(lit(new Date(0)), lit(new Date(1)))).toBe(false);
+        expect(contentHash(lit(new Date(0)))).not.toBe(contentHash(lit(new Date(1))));
+    });
+});
+
+// ============================================================================
+// INTERN TABLE
+// ============================================================================
+
+describe('Interning: InternTable', () => {
+    test('equal Properties intern to one instance', () => {
+        const table = new InternTable();
+        const a = table.intern(required());
+        const b = table.intern(required());
+
+        expect(a).toBe(b);
+        expect(table.isInterned(a)).toBe(true);
+        expect(table.hash(a)).toBe(contentHash(required()));
+    });
+
+    test('equal subtrees of different Properties are shared', () => {
+        const table = new InternTable();
+        const check = table.intern(op('and', op('isNotBlank', ref('self.value')), lit(true)));
+        const other = table.intern(op('or', op('isNotBlank', ref('self.value')), lit(false)));
+
+        expect(check.children!.arg0).toBe(other.children!.arg0!);
+        // and, or, isNotBlank, ref, true, false
+        expect(table.size).toBe(6);
+    });
+
+    test('does not modify what it interns', () => {
+        const table = new InternTable();
+        table.intern(op('isNotBlank', ref('self.value')));
+
+        const expr = op('not', op('isNotBlank', ref('self.value')));
+        const arg = expr.children!.arg0;
+        const interned = table.intern(expr);
+
+        expect(interned).not.toBe(expr);
+        expect(expr.children!.arg0).toBe(arg!);
+        expect(propertyEquals(interned, expr)).toBe(true);
+    });
+
+    test('interned expressions evaluate like the originals', async () => {
+        const table = new InternTable();
+        const form = createForm(3);
+        for (const child of Object.values(form.children!)) {
+            child.constraints = { required: table.intern(required()) };
+        }
+        const node = PropertyNode.create(form, registry);
+        node.child('field1')!.setValue('Ada');
+
+        expect(await node.getConstraint('required')).toBe(true);
+        expect(await node.child('field0')!.getConstraint('required')).toBe(false);
+        expect(await node.child('field1')!.getConstraint('required')).toBe(true);
+        // required, isNotBlank, ref, message
+        expect(table.size).toBe(4);
+    });
+});
+
+// ============================================================================
+// SHARED SERIALIZATION
+// ============================================================================
+
+describe('Interning: Shared serialization', () => {
+    test('repeated subtrees are written once', () => {
+        const node = PropertyNode.create(createForm(80), registry);
+        const json = node.toJSON({ shared: true });
+        const hash = contentHash(required());
+
+        expect(Object.keys(json.$defs!)).toEqual([hash]);
+        expect(json.children!.field0!.constraints!.required).toEqual({
+            id: 'required',
+            type: { id: 'Constraint' },
+            $ref: hash,
+        });
+        expect(JSON.stringify(json).length).toBeLessThan(JSON.stringify(node.toJSON()).length / 2);
+    });
+
+    test('tree nodes and leaves are written in place', () => {
+        const { shared } = findSharedSubtrees(createForm(3));
+        const json = PropertyNode.create(createForm(3), registry).toJSON({ shared: true });
+
+        expect(shared.size).toBe(1);
+        expect(json.children!.field2!.value).toBe('');
+        expect(json.$defs![contentHash(required())]!.metadata!.message).toEqual({
+            id: 'lit',
+            type: { id: 'Lit' },
+            value: 'This field is required',
+        });
+    });
+
+    test('fromJSON restores shared subtrees as one object', async () => {
+        const original = PropertyNode.create(createForm(3), registry);
+        const json = JSON.parse(JSON.stringify(original.toJSON({ shared: true }))) as SerializedProperty;
+        const restored = PropertyNode.fromJSON(json);
+        restored.setRegistry(registry);
+
+        expect(restored.equals(original)).toBe(true);
+        expect(restored.child('field0')!.getRawConstraint('required'))
+            .toBe(restored.child('field2')!.getRawConstraint('required')!);
+        expect(await restored.child('field0')!.getConstraint('required')).toBe(false);
+    });
+
+    test('plain toJSON is unchanged', () => {
+        const json = PropertyNode.create(createForm(2), registry).toJSON();
+        expect(json.$defs).toBeUndefined();
+        expect(json.children!.field1!.constraints!.required!.value).toMatchObject({ id: 'isNotBlank' });
+    });
+});
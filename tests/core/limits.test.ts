@@ -0,0 +1,150 @@
+/**
+ * Evaluation Limits Tests
+ * =======================
+ * Tests for depth, step, timeout and collection size limits.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    evaluate,
+    evaluateSync,
+    EvaluationLimitError,
+    PropertyNode,
+    PROPERTY,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, EvaluationContext, EvaluationLimits } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+registry.register('recurse', async (_args, ctx) => evaluate(op('recurse'), ctx));
+registry.register('slow', async (args, ctx) => {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return evaluate(args[0]!, ctx);
+});
+
+const contextWith = (limits?: EvaluationLimits): EvaluationContext => {
+    const root: Property = { id: 'root', type: PROPERTY };
+    return { current: root, root, registry, limits };
+};
+
+const range = (n: number): Property => lit(Array.from({ length: n }, (_, i) => i));
+
+const doubled = (n: number): Property => op('map', range(n), op('mul', ref('item'), lit(2)));
+
+const limitError = async (promise: Promise<unknown>): Promise<EvaluationLimitError> => {
+    try {
+        await promise;
+    } catch (error) {
+        if (error instanceof EvaluationLimitError) return error;
+        throw error;
+    }
+    throw new Error('Expected an EvaluationLimitError');
+};
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+describe('Limits: Depth', () => {
+    test('runaway recursion throws a typed error', async () => {
+        const error = await limitError(evaluate(op('recurse'), contextWith()));
+        expect(error.limit).toBe('depth');
+        expect(error.max).toBe(1000);
+        expect(error.message).toContain('Maximum evaluation depth exceeded');
+    });
+
+    test('maxDepth overrides the default', async () => {
+        const nested = op('neg', op('neg', op('neg', lit(1))));
+        expect(await evaluate(nested, contextWith({ maxDepth: 4 }))).toBe(-1);
+
+        const error = await limitError(evaluate(nested, contextWith({ maxDepth: 3 })));
+        expect(error).toMatchObject({ limit: 'depth', max: 3 });
+    });
+});
+
+describe('Limits: Steps', () => {
+    test('counts every evaluated expression', async () => {
+        // map + range + 10 × (mul + item + 2)
+        expect(await evaluate(doubled(10), contextWith({ maxSteps: 32 }))).toHaveLength(10);
+
+        const error = await limitError(evaluate(doubled(10), contextWith({ maxSteps: 31 })));
+        expect(error).toMatchObject({ limit: 'steps', max: 31 });
+        expect(error.message).toBe('Maximum evaluation steps exceeded (31)');
+    });
+
+    test('each evaluation gets its own budget', async () => {
+        const ctx = contextWith({ maxSteps: 32 });
+        await evaluate(doubled(10), ctx);
+        expect(await evaluate(doubled(10), ctx)).toHaveLength(10);
+    });
+
+    test('applies to synchronous evaluation', () => {
+        expect(() => evaluateSync(doubled(100), contextWith({ maxSteps: 100 })))
+            .toThrow(EvaluationLimitError);
+    });
+});
+
+describe('Limits: Timeout', () => {
+    test('stops at the first step past the deadline', async () => {
+        const expr = op('slow', op('add', lit(1), lit(2)));
+        expect(await evaluate(expr, contextWith({ timeout: 1000 }))).toBe(3);
+
+        const error = await limitError(evaluate(expr, contextWith({ timeout: 5 })));
+        expect(error).toMatchObject({ limit: 'timeout', max: 5 });
+        expect(error.message).toBe('Evaluation timed out after 5ms');
+    });
+});
+
+describe('Limits: Collection size', () => {
+    test('higher-order operators refuse oversized input', async () => {
+        let bodies = 0;
+        const ctx: EvaluationContext = {
+            ...contextWith({ maxCollectionSize: 5 }),
+            onEnter: (expr) => {
+                if (expr.id === 'mul') bodies++;
+            },
+        };
+
+        const error = await limitError(evaluate(doubled(6), ctx));
+        expect(error).toMatchObject({ limit: 'collectionSize', max: 5 });
+        expect(error.message).toBe('Maximum collection size exceeded (6 > 5)');
+        expect(bodies).toBe(0);
+        expect(await evaluate(doubled(5), ctx)).toHaveLength(5);
+    });
+
+    test('operator results are checked', async () => {
+        const ctx = contextWith({ maxCollectionSize: 3 });
+        expect(await evaluate(op('split', lit('a,b,c'), lit(',')), ctx)).toHaveLength(3);
+        await expect(evaluate(op('split', lit('a,b,c,d'), lit(',')), ctx))
+            .rejects.toThrow(EvaluationLimitError);
+    });
+});
+
+// ============================================================================
+// PROPERTY NODE
+// ============================================================================
+
+describe('Limits: setEvaluationLimits', () => {
+    test('bounds every evaluation of the tree', async () => {
+        const node = PropertyNode.create({
+            id: 'tenant',
+            type: PROPERTY,
+            children: {
+                total: { id: 'total', type: PROPERTY, value: op('sum', doubled(1000)) },
+            },
+        }, registry);
+
+        node.child('total')!.setEvaluationLimits({ maxSteps: 500 });
+        await expect(node.getValue('total')).rejects.toThrow(EvaluationLimitError);
+
+        node.setEvaluationLimits(null);
+        expect(await node.getValue('total')).toBe(999000);
+    });
+});
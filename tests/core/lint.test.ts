@@ -0,0 +1,189 @@
+/**
+ * Lint Tests
+ * ==========
+ * Tests for the tree linter and its rules.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    lint,
+    expressionComplexity,
+    PropertyNode,
+    PROPERTY,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createForm = (): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: {
+        address: { id: 'address', type: PROPERTY, value: 'Main St' },
+        label: {
+            id: 'label',
+            type: PROPERTY,
+            value: op('concat', lit('Ship to '), ref('parent.address.value')),
+        },
+        email: {
+            id: 'email',
+            type: PROPERTY,
+            value: '',
+            constraints: {
+                required: {
+                    id: 'required',
+                    type: CONSTRAINT,
+                    value: op('isNotBlank', ref('self.value')),
+                    metadata: { message: lit('Required') },
+                },
+            },
+        },
+    },
+});
+
+const rules = (property: Property): string[] =>
+    lint(PropertyNode.create(property, registry), registry).findings.map(f => f.rule);
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+describe('Lint: Rules', () => {
+    test('a clean tree has no findings', () => {
+        expect(lint(PropertyNode.create(createForm(), registry), registry))
+            .toEqual({ valid: true, findings: [] });
+    });
+
+    test('dangling-ref', () => {
+        const form = createForm();
+        form.children!.label!.value = op('concat', lit('Ship to '), ref('parent.adress.value'));
+
+        const { findings } = lint(PropertyNode.create(form, registry), registry);
+        expect(findings).toEqual([{
+            rule: 'dangling-ref',
+            path: ['label', 'value', 'arg1'],
+            message: 'label.value.arg1: Reference parent.adress.value does not resolve',
+        }]);
+    });
+
+    test('unknown-operator, including constraint messages', () => {
+        const form = createForm();
+        form.children!.email!.constraints!.required!.metadata!.message = op('t', lit('errors.required'));
+        expect(rules(form)).toEqual(['unknown-operator']);
+    });
+
+    test('empty-constraint', () => {
+        const form = createForm();
+        form.children!.email!.constraints!.todo = { id: 'todo', type: CONSTRAINT };
+
+        const { findings } = lint(PropertyNode.create(form, registry), registry);
+        expect(findings.map(f => [f.rule, f.path.join('.')])).toEqual([
+            ['empty-constraint', 'email.constraints.todo'],
+        ]);
+    });
+
+    test('duplicate-id', () => {
+        const form = createForm();
+        form.children!.email2 = { id: 'email', type: PROPERTY };
+
+        const { findings } = lint(PropertyNode.create(form, registry), registry);
+        expect(findings).toEqual([{
+            rule: 'duplicate-id',
+            path: ['email2'],
+            message: "email2: Child id 'email' is also used by email",
+        }]);
+    });
+
+    test('complexity', () => {
+        let expr = lit(0);
+        for (let i = 0; i < 30; i++) {
+            expr = op('add', expr, lit(i));
+        }
+        expect(expressionComplexity(expr)).toBe(61);
+
+        const form = createForm();
+        form.children!.total = { id: 'total', type: PROPERTY, value: expr };
+        expect(rules(form)).toEqual(['complexity']);
+
+        const node = PropertyNode.create(form, registry);
+        expect(lint(node, registry, { maxComplexity: 100 }).valid).toBe(true);
+    });
+
+    test('circular-ref', () => {
+        const form = createForm();
+        form.children!.address!.value = op('concat', ref('parent.label.value'));
+        form.children!.email!.metadata = { hint: ref('self.metadata.hint') };
+
+        const node = PropertyNode.create(form, registry);
+        expect(lint(node, registry).findings).toEqual([
+            {
+                rule: 'circular-ref',
+                path: ['address', 'value'],
+                message: 'address.value: Circular reference: address.value -> label.value -> address.value',
+            },
+            {
+                rule: 'circular-ref',
+                path: ['email', 'metadata', 'hint'],
+                message: 'email.metadata.hint: Circular reference: email.metadata.hint -> email.metadata.hint',
+            },
+        ]);
+        expect(lint(node.child('email')!, registry).findings.map(f => f.path)).toEqual([
+            ['email', 'metadata', 'hint'],
+        ]);
+    });
+});
+
+// ============================================================================
+// OPTIONS AND SCOPE
+// ============================================================================
+
+describe('Lint: Options', () => {
+    test('rules can be turned off', () => {
+        const form = createForm();
+        form.children!.email!.constraints!.todo = { id: 'todo', type: CONSTRAINT };
+        form.children!.label!.value = ref('parent.nope.value');
+        const node = PropertyNode.create(form, registry);
+
+        const result = lint(node, registry, { rules: { 'empty-constraint': false } });
+        expect(result.findings.map(f => f.rule)).toEqual(['dangling-ref']);
+    });
+
+    test('type mismatches are left to typecheck()', () => {
+        const form = createForm();
+        form.children!.label!.value = op('add', lit('a'), lit(1));
+        expect(rules(form)).toEqual([]);
+    });
+
+    test('names bound by higher-order operators and options are not dangling', () => {
+        const form = createForm();
+        form.children!.items = {
+            id: 'items',
+            type: PROPERTY,
+            value: op('map', lit([1, 2]), op('mul', ref('item'), ref('factor'))),
+        };
+        expect(rules(form)).toEqual(['dangling-ref']);
+
+        const node = PropertyNode.create(form, registry);
+        expect(lint(node, registry, { bindings: ['factor'] }).valid).toBe(true);
+    });
+
+    test('linting a subtree resolves refs against the whole tree', () => {
+        const node = PropertyNode.create(createForm(), registry);
+        const label = node.child('label')!;
+
+        expect(lint(label, registry).valid).toBe(true);
+        label.setValue(ref('root.missing.value'));
+
+        const { findings } = lint(label, registry);
+        expect(findings.map(f => f.path)).toEqual([['label', 'value']]);
+    });
+});
@@ -0,0 +1,502 @@
+/**
+ * Standard Operator Tests
+ * =======================
+ * Tests for the built-in operator library, each evaluated through evaluate().
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PROPERTY,
+    lit,
+    ref,
+    op,
+    evaluate,
+    createRegistry,
+    createStandardRegistry,
+    registerStandardOperators,
+    standardOperatorNames,
+} from '../../src';
+import type { Property, EvaluationContext } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createContext = (current: Property = lit(0), root?: Property): EvaluationContext => ({
+    current,
+    root: root ?? current,
+    registry,
+});
+
+const run = (expr: Property, ctx = createContext()): Promise<unknown> => evaluate(expr, ctx);
+
+/**
+ * Build an expression that records whether it was evaluated.
+ */
+const spy = (value: unknown): { expr: Property; wasEvaluated: () => boolean } => {
+    let evaluated = false;
+    const name = `spy_${Math.random().toString(36).slice(2)}`;
+    registry.register(name, () => {
+        evaluated = true;
+        return value;
+    });
+    return { expr: op(name), wasEvaluated: () => evaluated };
+};
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+describe('Standard Operators: Registration', () => {
+    test('createStandardRegistry registers every standard operator', () => {
+        const standard = createStandardRegistry();
+        for (const name of standardOperatorNames()) {
+            expect(standard.has(name)).toBe(true);
+        }
+    });
+
+    test('registerStandardOperators extends an existing registry', () => {
+        const existing = createRegistry();
+        existing.register('custom', () => 'mine');
+
+        const result = registerStandardOperators(existing);
+
+        expect(result).toBe(existing);
+        expect(existing.has('custom')).toBe(true);
+        expect(existing.has('add')).toBe(true);
+    });
+
+    test('covers the operators previously copied into every app', () => {
+        const names = standardOperatorNames();
+        for (const name of [
+            'add', 'sub', 'mul', 'div', 'eq', 'neq', 'lt', 'lte', 'gt', 'gte',
+            'and', 'or', 'not', 'if', 'concat', 'toString', 'strlen', 'includes',
+            'upper', 'lower', 'trim', 'isNotNull', 'isNotBlank', 'isEmail', 'isPhone',
+        ]) {
+            expect(names).toContain(name);
+        }
+    });
+});
+
+// ============================================================================
+// ARITHMETIC
+// ============================================================================
+
+describe('Standard Operators: Arithmetic', () => {
+    test('add sums all arguments and treats null as 0', async () => {
+        expect(await run(op('add', lit(1), lit(2)))).toBe(3);
+        expect(await run(op('add', lit(1), lit(2), lit(3)))).toBe(6);
+        expect(await run(op('add', lit(null), lit(5)))).toBe(5);
+    });
+
+    test('sub, mul, div, mod, pow', async () => {
+        expect(await run(op('sub', lit(10), lit(4)))).toBe(6);
+        expect(await run(op('mul', lit(3), lit(4)))).toBe(12);
+        expect(await run(op('div', lit(10), lit(4)))).toBe(2.5);
+        expect(await run(op('mod', lit(10), lit(3)))).toBe(1);
+        expect(await run(op('pow', lit(2), lit(10)))).toBe(1024);
+    });
+
+    test('division by zero yields 0', async () => {
+        expect(await run(op('div', lit(10), lit(0)))).toBe(0);
+        expect(await run(op('mod', lit(10), lit(0)))).toBe(0);
+    });
+
+    test('neg, abs, floor, ceil', async () => {
+        expect(await run(op('neg', lit(5)))).toBe(-5);
+        expect(await run(op('abs', lit(-5)))).toBe(5);
+        expect(await run(op('floor', lit(2.7)))).toBe(2);
+        expect(await run(op('ceil', lit(2.1)))).toBe(3);
+    });
+
+    test('round with optional digits', async () => {
+        expect(await run(op('round', lit(2.5)))).toBe(3);
+        expect(await run(op('round', lit(3.14159), lit(2)))).toBe(3.14);
+    });
+
+    test('min and max accept variadic args or a list', async () => {
+        expect(await run(op('min', lit(3), lit(1), lit(2)))).toBe(1);
+        expect(await run(op('max', lit([3, 9, 2])))).toBe(9);
+        expect(await run(op('max'))).toBe(null);
+    });
+
+    test('coerces numeric strings', async () => {
+        expect(await run(op('add', lit('2'), lit(3)))).toBe(5);
+    });
+});
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+describe('Standard Operators: Comparison', () => {
+    test('eq and neq use strict equality', async () => {
+        expect(await run(op('eq', lit(1), lit(1)))).toBe(true);
+        expect(await run(op('eq', lit(1), lit('1')))).toBe(false);
+        expect(await run(op('neq', lit('a'), lit('b')))).toBe(true);
+    });
+
+    test('ordering operators', async () => {
+        expect(await run(op('lt', lit(1), lit(2)))).toBe(true);
+        expect(await run(op('lte', lit(2), lit(2)))).toBe(true);
+        expect(await run(op('gt', lit(1), lit(2)))).toBe(false);
+        expect(await run(op('gte', lit(3), lit(2)))).toBe(true);
+    });
+
+    test('compares strings lexicographically', async () => {
+        expect(await run(op('lt', lit('apple'), lit('banana')))).toBe(true);
+    });
+});
+
+// ============================================================================
+// LOGIC
+// ============================================================================
+
+describe('Standard Operators: Logic', () => {
+    test('and / or / not', async () => {
+        expect(await run(op('and', lit(true), lit(1), lit('x')))).toBe(true);
+        expect(await run(op('and', lit(true), lit(0)))).toBe(false);
+        expect(await run(op('or', lit(false), lit(''), lit(1)))).toBe(true);
+        expect(await run(op('or', lit(false), lit(null)))).toBe(false);
+        expect(await run(op('not', lit(false)))).toBe(true);
+    });
+
+    test('and short-circuits on the first falsy argument', async () => {
+        const tail = spy(true);
+        expect(await run(op('and', lit(false), tail.expr))).toBe(false);
+        expect(tail.wasEvaluated()).toBe(false);
+    });
+
+    test('or short-circuits on the first truthy argument', async () => {
+        const tail = spy(false);
+        expect(await run(op('or', lit(true), tail.expr))).toBe(true);
+        expect(tail.wasEvaluated()).toBe(false);
+    });
+
+    test('if only evaluates the selected branch', async () => {
+        const thenBranch = spy('then');
+        const elseBranch = spy('else');
+
+        expect(await run(op('if', lit(true), thenBranch.expr, elseBranch.expr))).toBe('then');
+        expect(thenBranch.wasEvaluated()).toBe(true);
+        expect(elseBranch.wasEvaluated()).toBe(false);
+    });
+
+    test('if without else branch returns null', async () => {
+        expect(await run(op('if', lit(false), lit('yes')))).toBe(null);
+    });
+});
+
+// ============================================================================
+// STRING
+// ============================================================================
+
+describe('Standard Operators: String', () => {
+    test('concat joins values and skips nulls', async () => {
+        expect(await run(op('concat', lit('Hello, '), lit('World'), lit(null)))).toBe('Hello, World');
+    });
+
+    test('strlen, upper, lower, trim', async () => {
+        expect(await run(op('strlen', lit('hello')))).toBe(5);
+        expect(await run(op('strlen', lit(null)))).toBe(0);
+        expect(await run(op('upper', lit('abc')))).toBe('ABC');
+        expect(await run(op('lower', lit('ABC')))).toBe('abc');
+        expect(await run(op('trim', lit('  x  ')))).toBe('x');
+    });
+
+    test('startsWith, endsWith, substring, replace, split', async () => {
+        expect(await run(op('startsWith', lit('turing'), lit('tu')))).toBe(true);
+        expect(await run(op('endsWith', lit('turing'), lit('ing')))).toBe(true);
+        expect(await run(op('substring', lit('turing'), lit(1), lit(3)))).toBe('ur');
+        expect(await run(op('replace', lit('a-b-c'), lit('-'), lit('+')))).toBe('a+b+c');
+        expect(await run(op('split', lit('a,b'), lit(',')))).toEqual(['a', 'b']);
+    });
+
+    test('matches tests a regular expression', async () => {
+        expect(await run(op('matches', lit('ABC123'), lit('^[A-Z]+\\d+$')))).toBe(true);
+        expect(await run(op('matches', lit(42), lit('\\d+')))).toBe(false);
+    });
+
+    test('isNotBlank, isEmail, isPhone', async () => {
+        expect(await run(op('isNotBlank', lit('   ')))).toBe(false);
+        expect(await run(op('isNotBlank', lit(' a ')))).toBe(true);
+        expect(await run(op('isEmail', lit('john@example.com')))).toBe(true);
+        expect(await run(op('isEmail', lit('john@')))).toBe(false);
+        expect(await run(op('isPhone', lit('+1 (555) 123-4567')))).toBe(true);
+        expect(await run(op('isPhone', lit('123')))).toBe(false);
+    });
+});
+
+// ============================================================================
+// NULL HANDLING
+// ============================================================================
+
+describe('Standard Operators: Null Handling', () => {
+    test('isNull / isNotNull', async () => {
+        expect(await run(op('isNull', lit(null)))).toBe(true);
+        expect(await run(op('isNull', lit(undefined)))).toBe(true);
+        expect(await run(op('isNotNull', lit(0)))).toBe(true);
+    });
+
+    test('isEmpty / isNotEmpty', async () => {
+        expect(await run(op('isEmpty', lit('')))).toBe(true);
+        expect(await run(op('isEmpty', lit([])))).toBe(true);
+        expect(await run(op('isEmpty', lit({})))).toBe(true);
+        expect(await run(op('isEmpty', lit(0)))).toBe(false);
+        expect(await run(op('isNotEmpty', lit('x')))).toBe(true);
+    });
+
+    test('coalesce returns the first non-null value lazily', async () => {
+        const tail = spy('unused');
+        expect(await run(op('coalesce', lit(null), lit(undefined), lit(0), tail.expr))).toBe(0);
+        expect(tail.wasEvaluated()).toBe(false);
+        expect(await run(op('coalesce', lit(null)))).toBe(null);
+    });
+});
+
+// ============================================================================
+// TYPE COERCION
+// ============================================================================
+
+describe('Standard Operators: Type Coercion', () => {
+    test('toNumber', async () => {
+        expect(await run(op('toNumber', lit('42')))).toBe(42);
+        expect(await run(op('toNumber', lit('abc')))).toBe(null);
+        expect(await run(op('toNumber', lit('')))).toBe(null);
+    });
+
+    test('toString', async () => {
+        expect(await run(op('toString', lit(42)))).toBe('42');
+        expect(await run(op('toString', lit(null)))).toBe('');
+    });
+
+    test('toBoolean', async () => {
+        expect(await run(op('toBoolean', lit('yes')))).toBe(true);
+        expect(await run(op('toBoolean', lit('false')))).toBe(false);
+        expect(await run(op('toBoolean', lit(0)))).toBe(false);
+    });
+
+    test('typeOf', async () => {
+        expect(await run(op('typeOf', lit(1)))).toBe('number');
+        expect(await run(op('typeOf', lit(null)))).toBe('null');
+        expect(await run(op('typeOf', lit([])))).toBe('array');
+        expect(await run(op('typeOf', lit({})))).toBe('object');
+    });
+});
+
+// ============================================================================
+// COLLECTION
+// ============================================================================
+
+describe('Standard Operators: Collection', () => {
+    test('list builds an array from evaluated args', async () => {
+        expect(await run(op('list', lit(1), op('add', lit(1), lit(1))))).toEqual([1, 2]);
+    });
+
+    test('length of arrays and strings', async () => {
+        expect(await run(op('length', lit([1, 2, 3])))).toBe(3);
+        expect(await run(op('length', lit('abcd')))).toBe(4);
+        expect(await run(op('length', lit(null)))).toBe(0);
+    });
+
+    test('at, first, last', async () => {
+        expect(await run(op('at', lit(['a', 'b', 'c']), lit(1)))).toBe('b');
+        expect(await run(op('at', lit(['a', 'b', 'c']), lit(-1)))).toBe('c');
+        expect(await run(op('first', lit([1, 2])))).toBe(1);
+        expect(await run(op('last', lit([1, 2])))).toBe(2);
+        expect(await run(op('first', lit([])))).toBe(null);
+    });
+
+    test('includes works on arrays and strings', async () => {
+        expect(await run(op('includes', lit([1, 2]), lit(2)))).toBe(true);
+        expect(await run(op('includes', lit('hello'), lit('ell')))).toBe(true);
+        expect(await run(op('includes', lit('hello'), lit(1)))).toBe(false);
+    });
+
+    test('sum and avg', async () => {
+        expect(await run(op('sum', lit([1, 2, 3])))).toBe(6);
+        expect(await run(op('avg', lit([2, 4])))).toBe(3);
+        expect(await run(op('avg', lit([])))).toBe(null);
+    });
+
+    test('join, slice, reverse, unique, flatten, indexOf', async () => {
+        expect(await run(op('join', lit(['a', 'b']), lit(' / ')))).toBe('a / b');
+        expect(await run(op('slice', lit([1, 2, 3, 4]), lit(1), lit(3)))).toEqual([2, 3]);
+        expect(await run(op('reverse', lit([1, 2, 3])))).toEqual([3, 2, 1]);
+        expect(await run(op('unique', lit([1, 1, 2])))).toEqual([1, 2]);
+        expect(await run(op('flatten', lit([[1], [2, 3]])))).toEqual([1, 2, 3]);
+        expect(await run(op('indexOf', lit(['a', 'b']), lit('b')))).toBe(1);
+    });
+
+    test('get, keys, values', async () => {
+        const obj = { city: 'Paris', zip: '75001' };
+        expect(await run(op('get', lit(obj), lit('city')))).toBe('Paris');
+        expect(await run(op('get', lit(obj), lit('missing')))).toBe(null);
+        expect(await run(op('keys', lit(obj)))).toEqual(['city', 'zip']);
+        expect(await run(op('values', lit(obj)))).toEqual(['Paris', '75001']);
+    });
+});
+
+// ============================================================================
+// WITH REFERENCES
+// ============================================================================
+
+describe('Standard Operators: With References', () => {
+    test('computes values from the property tree', async () => {
+        const root: Property = {
+            id: 'order',
+            type: PROPERTY,
+            children: {
+                quantity: { id: 'quantity', type: PROPERTY, value: 3 },
+                price: { id: 'price', type: PROPERTY, value: 12.5 },
+                email: { id: 'email', type: PROPERTY, value: 'buyer@example.com' },
+            },
+        };
+        const ctx = createContext(root);
+
+        expect(await run(op('mul', ref('self.quantity.value'), ref('self.price.value')), ctx)).toBe(37.5);
+        expect(await run(op('and',
+            op('gt', ref('self.quantity.value'), lit(0)),
+            op('isEmail', ref('self.email.value'))
+        ), ctx)).toBe(true);
+    });
+});
+
+// ============================================================================
+// HIGHER-ORDER
+// ============================================================================
+
+describe('Standard Operators: Higher-Order', () => {
+    const numbers = lit([3, 1, 4, 1, 5]);
+
+    test('map binds item and index', async () => {
+        expect(await run(op('map', numbers, op('mul', ref('item'), lit(2))))).toEqual([6, 2, 8, 2, 10]);
+        expect(await run(op('map', lit(['a', 'b']), ref('index')))).toEqual([0, 1]);
+    });
+
+    test('map over plain objects navigates item fields', async () => {
+        const users = lit([{ name: 'Ada' }, { name: 'Alan' }]);
+        expect(await run(op('map', users, ref('item.name')))).toEqual(['Ada', 'Alan']);
+    });
+
+    test('filter, find, count', async () => {
+        expect(await run(op('filter', numbers, op('gt', ref('item'), lit(2))))).toEqual([3, 4, 5]);
+        expect(await run(op('find', numbers, op('gt', ref('item'), lit(3))))).toBe(4);
+        expect(await run(op('find', numbers, op('gt', ref('item'), lit(10))))).toBe(null);
+        expect(await run(op('count', numbers, op('eq', ref('item'), lit(1))))).toBe(2);
+    });
+
+    test('some and every short-circuit', async () => {
+        const evaluated: unknown[] = [];
+        registry.register('record', async (args, ctx) => {
+            const value = await evaluate(args[0]!, ctx);
+            evaluated.push(value);
+            return value;
+        });
+
+        expect(await run(op('some', lit([false, true, false]), op('record', ref('item'))))).toBe(true);
+        expect(evaluated).toEqual([false, true]);
+
+        evaluated.length = 0;
+        expect(await run(op('every', lit([true, false, true]), op('record', ref('item'))))).toBe(false);
+        expect(evaluated).toEqual([true, false]);
+    });
+
+    test('every on an empty collection is true', async () => {
+        expect(await run(op('every', lit([]), lit(false)))).toBe(true);
+        expect(await run(op('some', lit(null), lit(true)))).toBe(false);
+    });
+
+    test('reduce binds acc', async () => {
+        expect(await run(op('reduce', numbers, op('add', ref('acc'), ref('item')), lit(0)))).toBe(14);
+        expect(await run(op('reduce', lit(['a', 'b']), op('concat', ref('acc'), ref('item')), lit('>')))).toBe('>ab');
+    });
+
+    test('sort by item or by key, ascending or descending', async () => {
+        expect(await run(op('sort', numbers))).toEqual([1, 1, 3, 4, 5]);
+        expect(await run(op('sort', numbers, ref('item'), lit(true)))).toEqual([5, 4, 3, 1, 1]);
+
+        const people = lit([{ name: 'b', age: 30 }, { name: 'a', age: 20 }]);
+        const sorted = await run(op('map', op('sort', people, ref('item.age')), ref('item.name')));
+        expect(sorted).toEqual(['a', 'b']);
+    });
+
+    test('nested loops see outer bindings', async () => {
+        const expr = op('map', lit([1, 2]),
+            op('map', lit([10, 20]), op('add', ref('item'), ref('index')))
+        );
+        expect(await run(expr)).toEqual([[10, 21], [10, 21]]);
+    });
+
+    test('does not leak bindings into the caller context', async () => {
+        const ctx = createContext();
+        await run(op('map', numbers, ref('item')), ctx);
+        expect(ctx.bindings).toBeUndefined();
+    });
+});
+
+describe('Standard Operators: Iterating Children', () => {
+    const line = (id: string, quantity: number, price: number): Property => ({
+        id,
+        type: PROPERTY,
+        children: {
+            quantity: { id: 'quantity', type: PROPERTY, value: quantity },
+            price: { id: 'price', type: PROPERTY, value: price },
+        },
+        metadata: {
+            subtotal: op('mul', ref('self.quantity.value'), ref('self.price.value')),
+        },
+    });
+
+    const createInvoice = (): Property => ({
+        id: 'invoice',
+        type: PROPERTY,
+        children: {
+            lines: {
+                id: 'lines',
+                type: PROPERTY,
+                children: {
+                    l1: line('l1', 2, 10),
+                    l2: line('l2', 1, 5),
+                    l3: line('l3', 4, 2.5),
+                },
+            },
+        },
+    });
+
+    test('a trailing children segment yields the child Properties', async () => {
+        const invoice = createInvoice();
+        const children = await run(ref('self.lines.children'), createContext(invoice));
+        expect(children).toEqual(Object.values(invoice.children!.lines!.children!));
+        expect(await run(ref('self.lines.l1.children'), createContext(invoice)))
+            .toEqual(Object.values(invoice.children!.lines!.children!.l1!.children!));
+        expect(await run(ref('self.lines.l1.quantity.children'), createContext(invoice))).toEqual([]);
+    });
+
+    test('sums line items of a repeating group', async () => {
+        const invoice = createInvoice();
+        const total = op('reduce',
+            ref('self.lines.children'),
+            op('add', ref('acc'), op('mul', ref('item.quantity.value'), ref('item.price.value'))),
+            lit(0)
+        );
+        expect(await run(total, createContext(invoice))).toBe(35);
+    });
+
+    test('item metadata is evaluated with the item as self', async () => {
+        const invoice = createInvoice();
+        const subtotals = op('map', ref('self.lines.children'), ref('item.subtotal'));
+        expect(await run(subtotals, createContext(invoice))).toEqual([20, 5, 10]);
+    });
+
+    test('filters and maps children by id', async () => {
+        const invoice = createInvoice();
+        const expensive = op('map',
+            op('filter', ref('self.lines.children'), op('gt', ref('item.price.value'), lit(4))),
+            ref('item.id')
+        );
+        expect(await run(expensive, createContext(invoice))).toEqual(['l1', 'l2']);
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Parent Index Tests
+ * ==================
+ * Tests for O(1) parent lookup and its maintenance.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    ParentIndex,
+    parentIndexFor,
+    PropertyNode,
+    PROPERTY,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    evaluate,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const createTree = (): Property => ({
+    id: 'root',
+    type: PROPERTY,
+    metadata: {
+        label: { id: 'label', type: PROPERTY, value: 'Root' },
+    },
+    children: {
+        a: {
+            id: 'a',
+            type: PROPERTY,
+            value: 1,
+            constraints: {
+                positive: { id: 'positive', type: CONSTRAINT, value: op('gt', ref('self.value'), lit(0)) },
+            },
+            children: {
+                b: { id: 'b', type: PROPERTY, value: 2 },
+            },
+        },
+    },
+});
+
+// ============================================================================
+// PARENT INDEX CLASS
+// ============================================================================
+
+describe('ParentIndex', () => {
+    test('finds parents through children, metadata and constraints', () => {
+        const root = createTree();
+        const index = new ParentIndex(root);
+        const a = root.children!.a!;
+
+        expect(index.get(root)).toBeUndefined();
+        expect(index.get(a)).toBe(root);
+        expect(index.get(a.children!.b!)).toBe(a);
+        expect(index.get(root.metadata!.label!)).toBe(root);
+        expect(index.get(a.constraints!.positive!)).toBe(a);
+    });
+
+    test('returns undefined for Properties outside the tree', () => {
+        const index = new ParentIndex(createTree());
+        expect(index.get({ id: 'other', type: PROPERTY })).toBeUndefined();
+    });
+
+    test('attach() and detach() maintain the index', () => {
+        const root = createTree();
+        const index = new ParentIndex(root);
+        index.get(root.children!.a!);
+
+        const c: Property = { id: 'c', type: PROPERTY, children: { d: { id: 'd', type: PROPERTY } } };
+        root.children!.c = c;
+        index.attach(root, 'children', 'c', c);
+        expect(index.get(c.children!.d!)).toBe(c);
+
+        delete root.children!.c;
+        index.detach(c);
+        expect(index.get(c)).toBeUndefined();
+    });
+
+    test('recovers from direct mutation', () => {
+        const root = createTree();
+        const index = new ParentIndex(root);
+        const a = root.children!.a!;
+        const b = a.children!.b!;
+        expect(index.get(b)).toBe(a);
+
+        // Move b from a to root without telling the index
+        delete a.children!.b;
+        root.children!.b = b;
+        expect(index.get(b)).toBe(root);
+    });
+
+    test('misses do not re-index the tree until invalidate()', () => {
+        const root = createTree();
+        const index = new ParentIndex(root);
+        index.get(root.children!.a!);
+
+        // Add c without telling the index
+        const c: Property = { id: 'c', type: PROPERTY };
+        root.children!.c = c;
+        expect(index.get({ id: 'other', type: PROPERTY })).toBeUndefined();
+        expect(index.get(c)).toBeUndefined();
+
+        index.invalidate();
+        expect(index.get(c)).toBe(root);
+    });
+
+    test('parentIndexFor() shares one index per root', () => {
+        const root = createTree();
+        expect(parentIndexFor(root)).toBe(parentIndexFor(root));
+        expect(parentIndexFor(createTree())).not.toBe(parentIndexFor(root));
+    });
+});
+
+// ============================================================================
+// PARENT REFERENCES
+// ============================================================================
+
+describe('ParentIndex: Parent References', () => {
+    const registry = createStandardRegistry();
+
+    test('plain contexts resolve parent references through the index', async () => {
+        const root = createTree();
+        const b = root.children!.a!.children!.b!;
+
+        const result = await evaluate(ref('parent.value'), { current: b, root, registry });
+        expect(result).toBe(1);
+    });
+
+    test('addChild keeps parent references resolvable', async () => {
+        const node = PropertyNode.create(createTree(), registry);
+        await node.getValue('a.b');
+
+        node.child('a')!.addChild('sum', {
+            id: 'sum',
+            type: PROPERTY,
+            value: op('add', ref('parent.value'), ref('parent.b.value')),
+        });
+        expect(await node.getValue('a.sum')).toBe(3);
+    });
+
+    test('setMetadata and setConstraint keep parent references resolvable', async () => {
+        const node = PropertyNode.create(createTree(), registry);
+        const a = node.child('a')!;
+        expect(await a.getConstraint('positive')).toBe(true);
+
+        a.setMetadata('double', op('mul', ref('self.value'), lit(2)));
+        a.setConstraint('small', { id: 'small', type: CONSTRAINT, value: op('lt', ref('self.value'), lit(10)) });
+        expect(await a.getMetadata('double')).toBe(2);
+        expect(await a.getConstraint('small')).toBe(true);
+    });
+
+    test('removeChild drops the subtree from the index', async () => {
+        const node = PropertyNode.create(createTree(), registry);
+        const b = node.getProperty().children!.a!.children!.b!;
+        const index = parentIndexFor(node.getProperty());
+        expect(index.get(b)).toBe(node.getProperty().children!.a!);
+
+        node.removeChild('a');
+        expect(index.get(b)).toBeUndefined();
+    });
+
+    test('parent references in a wide tree', async () => {
+        const children: Record<string, Property> = {};
+        for (let i = 0; i < 500; i++) {
+            children[`f${i}`] = {
+                id: `f${i}`,
+                type: PROPERTY,
+                value: op('add', ref('parent.f0.value'), lit(i)),
+            };
+        }
+        children.f0 = { id: 'f0', type: PROPERTY, value: 1 };
+        const node = PropertyNode.create({ id: 'form', type: PROPERTY, children }, registry);
+
+        expect(await node.getValue('f499')).toBe(500);
+        expect(await node.getValue('f250')).toBe(251);
+    });
+});
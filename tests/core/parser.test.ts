@@ -0,0 +1,226 @@
+/**
+ * Expression Language Tests
+ * =========================
+ * Tests for parsing formula source into lit/ref/op trees and printing it back.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    parse,
+    print,
+    ExpressionSyntaxError,
+    PropertyNode,
+    PROPERTY,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+
+const registry = createStandardRegistry();
+
+const syntaxError = (source: string): ExpressionSyntaxError => {
+    try {
+        parse(source, { registry });
+    } catch (error) {
+        if (error instanceof ExpressionSyntaxError) return error;
+        throw error;
+    }
+    throw new Error(`Expected a syntax error for: ${source}`);
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+describe('Parser: Parsing', () => {
+    test('the formula from the form authors', () => {
+        expect(parse("self.value > 18 && parent.country.value == 'FR'")).toEqual(
+            op('and',
+                op('gt', ref('self.value'), lit(18)),
+                op('eq', ref('parent.country.value'), lit('FR')))
+        );
+    });
+
+    test('literals', () => {
+        expect(parse('42')).toEqual(lit(42));
+        expect(parse('1.5e3')).toEqual(lit(1500));
+        expect(parse('-3')).toEqual(lit(-3));
+        expect(parse(`'it\\'s'`)).toEqual(lit("it's"));
+        expect(parse('"a\\nb"')).toEqual(lit('a\nb'));
+        expect(parse('true')).toEqual(lit(true));
+        expect(parse('null')).toEqual(lit(null));
+        expect(parse('[1, "a", false]')).toEqual(lit([1, 'a', false]));
+        expect(parse("{ min: 1, 'max-len': 10 }")).toEqual(lit({ min: 1, 'max-len': 10 }));
+    });
+
+    test('paths follow reference segments', () => {
+        expect(parse('self.value')).toEqual(ref('self.value'));
+        expect(parse('root.metadata.config')).toEqual(ref('root.metadata.config'));
+        expect(parse('items.children.0.value')).toEqual(ref(['items', 'children', '0', 'value']));
+        expect(parse('item')).toEqual(ref('item'));
+    });
+
+    test("'?.' marks a path segment as optional", () => {
+        expect(parse('root.discount?.value')).toEqual(ref(['root', 'discount?', 'value']));
+        expect(parse('a?.b ? 1 : 2')).toEqual(op('if', ref('a?.b'), lit(1), lit(2)));
+    });
+
+    test('precedence and associativity', () => {
+        expect(parse('1 + 2 * 3')).toEqual(op('add', lit(1), op('mul', lit(2), lit(3))));
+        expect(parse('(1 + 2) * 3')).toEqual(op('mul', op('add', lit(1), lit(2)), lit(3)));
+        expect(parse('10 - 4 - 3')).toEqual(op('sub', op('sub', lit(10), lit(4)), lit(3)));
+        expect(parse('2 ** 3 ** 2')).toEqual(op('pow', lit(2), op('pow', lit(3), lit(2))));
+        expect(parse('!a || b && c')).toEqual(
+            op('or', op('not', ref('a')), op('and', ref('b'), ref('c')))
+        );
+        expect(parse('-x * 2')).toEqual(op('mul', op('neg', ref('x')), lit(2)));
+    });
+
+    test('chains of variadic operators become one call', () => {
+        expect(parse('a + b + c')).toEqual(op('add', ref('a'), ref('b'), ref('c')));
+        expect(parse('a && b && c')).toEqual(op('and', ref('a'), ref('b'), ref('c')));
+        expect(parse('a + b - c')).toEqual(op('sub', op('add', ref('a'), ref('b')), ref('c')));
+        expect(parse('(a + b) + c')).toEqual(op('add', op('add', ref('a'), ref('b')), ref('c')));
+    });
+
+    test('ternaries become if()', () => {
+        expect(parse("age.value >= 18 ? 'adult' : 'minor'")).toEqual(
+            op('if', op('gte', ref('age.value'), lit(18)), lit('adult'), lit('minor'))
+        );
+        expect(parse('a ? 1 : b ? 2 : 3')).toEqual(
+            op('if', ref('a'), lit(1), op('if', ref('b'), lit(2), lit(3)))
+        );
+    });
+
+    test('function calls for any operator', () => {
+        expect(parse("concat(first.value, ' ', last.value)")).toEqual(
+            op('concat', ref('first.value'), lit(' '), ref('last.value'))
+        );
+        expect(parse('map(items.children, item.value * 2)')).toEqual(
+            op('map', ref('items.children'), op('mul', ref('item.value'), lit(2)))
+        );
+        expect(parse('now()')).toEqual(op('now'));
+        expect(parse('[a, 1]')).toEqual(op('list', ref('a'), lit(1)));
+    });
+
+    test('parsed expressions evaluate', async () => {
+        const node = PropertyNode.create({
+            id: 'form',
+            type: PROPERTY,
+            children: {
+                age: { id: 'age', type: PROPERTY, value: 21 },
+                country: { id: 'country', type: PROPERTY, value: 'FR' },
+                eligible: {
+                    id: 'eligible',
+                    type: PROPERTY,
+                    value: parse("parent.age.value > 18 && parent.country.value == 'FR'"),
+                },
+            },
+        }, registry);
+        expect(await node.getValue('eligible')).toBe(true);
+    });
+});
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+describe('Parser: Errors', () => {
+    test('report line and column', () => {
+        const error = syntaxError('a +\n  * b');
+        expect(error.line).toBe(2);
+        expect(error.column).toBe(3);
+        expect(error.message).toBe("Unexpected '*' at line 2, column 3");
+    });
+
+    test('unexpected end of input and unclosed groups', () => {
+        expect(syntaxError('(1 + 2').message).toBe("Unexpected end of input, expected ')' at line 1, column 7");
+        expect(syntaxError('a ? b').reason).toBe("Unexpected end of input, expected ':'");
+        expect(syntaxError('1 2').reason).toBe("Unexpected '2'");
+    });
+
+    test('bad characters, strings and paths', () => {
+        expect(syntaxError('a # b').reason).toBe("Unexpected character '#'");
+        expect(syntaxError("'open").reason).toBe('Unterminated string');
+        expect(syntaxError('self.').reason).toBe('Unexpected end of input, expected a path segment');
+        expect(syntaxError('{ a: b }').reason).toBe('Object literals may only contain literal values');
+    });
+
+    test('unknown operators with a registry', () => {
+        const error = syntaxError('1 + frobnicate(2)');
+        expect(error.reason).toBe("Unknown operator 'frobnicate'");
+        expect(error.column).toBe(5);
+        expect(parse('frobnicate(2)')).toEqual(op('frobnicate', lit(2)));
+    });
+});
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+describe('Parser: Printing', () => {
+    test('prints infix operators with minimal parentheses', () => {
+        expect(print(op('gt', ref('self.value'), lit(18)))).toBe('self.value > 18');
+        expect(print(op('mul', op('add', lit(1), lit(2)), lit(3)))).toBe('(1 + 2) * 3');
+        expect(print(op('sub', lit(1), op('sub', lit(2), lit(3))))).toBe('1 - (2 - 3)');
+        expect(print(op('pow', lit(-2), lit(2)))).toBe('(-2) ** 2');
+        expect(print(op('not', op('and', ref('a'), ref('b'))))).toBe('!(a && b)');
+    });
+
+    test('prints other operators as calls', () => {
+        expect(print(op('concat', ref('a.value'), lit("it's")))).toBe("concat(a.value, 'it\\'s')");
+        expect(print(op('if', ref('a'), lit(1)))).toBe('if(a, 1)');
+        expect(print(lit({ a: [1, null], 'b-c': true }))).toBe("{ a: [1, null], 'b-c': true }");
+    });
+
+    test('refuses references ending in an optional segment', () => {
+        expect(() => print(ref('root.metadata.locale?'))).toThrow('optional segment');
+    });
+
+    test('refuses reference segments that do not parse back as one', () => {
+        expect(() => print(ref('my-field.value'))).toThrow('segment "my-field"');
+        expect(() => print(ref('true.value'))).toThrow('segment "true"');
+        expect(() => print(ref(['items', '0', '1']))).toThrow('segment "0"');
+        expect(print(ref(['items', '0', 'value']))).toBe('items.0.value');
+    });
+
+    test('round-trips negation of number literals', () => {
+        for (const expr of [
+            op('neg', lit(2)),
+            op('neg', lit(-2)),
+            op('neg', op('neg', ref('x'))),
+            op('not', lit(-2)),
+            op('pow', lit(2), lit(-2)),
+            op('sub', lit(1), lit(-2)),
+        ]) {
+            expect(parse(print(expr))).toEqual(expr);
+        }
+        expect(print(op('neg', lit(2)))).toBe('-(2)');
+        expect(print(op('neg', lit(-2)))).toBe('-(-2)');
+    });
+
+    test('round-trips parsed source', () => {
+        for (const source of [
+            "self.value > 18 && parent.country.value == 'FR'",
+            'a + b + c',
+            '(a + b) + c',
+            'a - b + c',
+            'a + b - c',
+            '(a || b) && !c',
+            '2 ** 3 ** 2',
+            '-x * -2',
+            "a ? 'yes' : b ? 'maybe' : 'no'",
+            '(a ? 1 : 2) + 3',
+            'map(items.children, item.value * 2)',
+            'list(a, 1)',
+            '[1, 2, 3]',
+            "upper(trim(name.value)) != ''",
+            'coalesce(root.discount?.value, 0)',
+        ]) {
+            const expr = parse(source);
+            expect(print(expr)).toBe(source);
+            expect(parse(print(expr))).toEqual(expr);
+        }
+    });
+});
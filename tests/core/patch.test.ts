@@ -0,0 +1,287 @@
+/**
+ * JSON Patch Tests
+ * ================
+ * Tests for diff and applyPatch between PropertyNode trees.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    diff,
+    applyPatch,
+    PatchError,
+    PropertyNode,
+    PROPERTY,
+    STRING,
+    NUMBER,
+    CONSTRAINT,
+    LIT,
+    REF,
+    OP,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, PatchOperation } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createSchema = (): Property => ({
+    id: 'signup',
+    type: PROPERTY,
+    children: {
+        email: {
+            id: 'email',
+            type: STRING,
+            value: '',
+            metadata: { label: lit('Email') },
+            constraints: {
+                required: { id: 'required', type: CONSTRAINT, value: op('isNotBlank', ref('self.value')) },
+            },
+        },
+        age: { id: 'age', type: NUMBER, value: 30, defaultValue: 18 },
+        tags: { id: 'tags', type: PROPERTY, value: ['a', 'b'] },
+    },
+});
+
+/** The schema after an edit in the admin tool */
+const editSchema = (): Property => {
+    const schema = createSchema();
+    const { email, age } = schema.children!;
+    email!.metadata = { label: lit('Work email'), hint: lit('We never share it') };
+    email!.constraints!.format = { id: 'format', type: CONSTRAINT, value: op('isEmail', ref('self.value')) };
+    age!.value = 42;
+    delete age!.defaultValue;
+    delete schema.children!.tags;
+    schema.children!['a/b~c'] = { id: 'a/b~c', type: STRING, value: 'escaped' };
+    return schema;
+};
+
+const patchError = (fn: () => void): PatchError => {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof PatchError) return error;
+        throw error;
+    }
+    throw new Error('Expected a PatchError');
+};
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+describe('Patch: diff', () => {
+    test('equal trees have no operations', () => {
+        const a = PropertyNode.create(createSchema(), registry);
+        expect(diff(a, PropertyNode.create(createSchema(), registry))).toEqual([]);
+    });
+
+    test('lists the operations turning one tree into the other', () => {
+        const a = PropertyNode.create(createSchema(), registry);
+        const b = PropertyNode.create(editSchema(), registry);
+
+        expect(diff(a, b)).toEqual([
+            { op: 'remove', path: '/children/tags' },
+            { op: 'replace', path: '/children/email/metadata/label', value: b.toJSON().children!.email!.metadata!.label },
+            { op: 'add', path: '/children/email/metadata/hint', value: b.toJSON().children!.email!.metadata!.hint },
+            { op: 'add', path: '/children/email/constraints/format', value: b.toJSON().children!.email!.constraints!.format },
+            { op: 'replace', path: '/children/age/value', value: 42 },
+            { op: 'remove', path: '/children/age/defaultValue' },
+            { op: 'add', path: '/children/a~1b~0c', value: { id: 'a/b~c', type: { id: 'String' }, value: 'escaped' } },
+        ]);
+    });
+
+    test('a missing record is added whole', () => {
+        const a = PropertyNode.create({ id: 'age', type: NUMBER, value: 1 });
+        const b = PropertyNode.create({ id: 'age', type: NUMBER, value: 1, metadata: { label: lit('Age') } });
+
+        expect(diff(a, b)).toEqual([{ op: 'add', path: '/metadata', value: b.toJSON().metadata }]);
+    });
+
+    test('nodes whose type changed are replaced whole', () => {
+        const a = PropertyNode.create(createSchema());
+        const schema = createSchema();
+        schema.children!.age = { id: 'age', type: STRING, value: '30' };
+
+        expect(diff(a, PropertyNode.create(schema))).toEqual([
+            { op: 'replace', path: '/children/age', value: { id: 'age', type: { id: 'String' }, value: '30' } },
+        ]);
+    });
+});
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+describe('Patch: applyPatch', () => {
+    test('applying a diff makes the trees equal', async () => {
+        const a = PropertyNode.create(createSchema(), registry);
+        const b = PropertyNode.create(editSchema(), registry);
+
+        applyPatch(a, diff(a, b));
+
+        expect(a.equals(b)).toBe(true);
+        expect(diff(a, b)).toEqual([]);
+        expect(await a.child('email')!.getMetadata('hint')).toBe('We never share it');
+        expect(await a.child('email')!.getConstraint('format')).toBe(false);
+        expect(a.child('tags')).toBeNull();
+    });
+
+    test('subscribers are notified once with every changed path', () => {
+        const a = PropertyNode.create(createSchema(), registry);
+        const calls: string[][] = [];
+        a.subscribe(paths => calls.push(paths));
+
+        applyPatch(a, diff(a, PropertyNode.create(editSchema(), registry)));
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0]!.sort()).toEqual([
+            'a/b~c',
+            'age',
+            'children',
+            'email.constraints.format',
+            'email.metadata.hint',
+            'email.metadata.label',
+            'tags',
+        ]);
+    });
+
+    test('caches see the new schema', async () => {
+        const node = PropertyNode.create(createSchema(), registry).enableCache();
+        expect(await node.child('email')!.getConstraint('required')).toBe(false);
+
+        applyPatch(node, [{
+            op: 'replace',
+            path: '/children/email/constraints/required',
+            value: { id: 'required', type: { id: 'Constraint' }, value: { id: 'lit', type: { id: 'Lit' }, value: true } },
+        }]);
+
+        expect(await node.child('email')!.getConstraint('required')).toBe(true);
+    });
+
+    test('paths below a member edit its serialized form', async () => {
+        const node = PropertyNode.create(createSchema(), registry);
+
+        applyPatch(node, [
+            { op: 'add', path: '/children/tags/value/-', value: 'c' },
+            { op: 'remove', path: '/children/tags/value/0' },
+            { op: 'replace', path: '/children/email/metadata/label/value', value: 'E-mail' },
+        ]);
+
+        expect(node.child('tags')!.getRawValue()).toEqual(['b', 'c']);
+        expect(await node.child('email')!.getMetadata('label')).toBe('E-mail');
+    });
+
+    test('typeResolver gives added Properties their real types', async () => {
+        const types: Record<string, Property> = { Number: NUMBER, Constraint: CONSTRAINT, Lit: LIT, Ref: REF, Op: OP };
+        const typeResolver = (id: string): Property => types[id] ?? { id, type: PROPERTY };
+        const a = PropertyNode.create(createSchema(), registry);
+        const schema = createSchema();
+        schema.children!.quantity = {
+            id: 'quantity',
+            type: NUMBER,
+            value: 'two',
+            constraints: {
+                positive: { id: 'positive', type: CONSTRAINT, value: op('gt', ref('self.value'), lit(0)) },
+            },
+        };
+
+        applyPatch(a, diff(a, PropertyNode.create(schema, registry)), { typeResolver });
+
+        const quantity = a.child('quantity')!;
+        expect(quantity.getProperty().type).toBe(NUMBER);
+        expect(quantity.getRawConstraint('positive')!.type).toBe(CONSTRAINT);
+        expect((await quantity.validate()).errors.type).toBe('Expected a value of type Number');
+    });
+
+    test('move, copy and test', () => {
+        const node = PropertyNode.create(createSchema(), registry);
+
+        applyPatch(node, [
+            { op: 'test', path: '/children/age/value', value: 30 },
+            { op: 'copy', from: '/children/age/defaultValue', path: '/children/age/value' },
+            { op: 'move', from: '/children/email/metadata/label', path: '/children/age/metadata/label' },
+        ]);
+
+        expect(node.child('age')!.getRawValue()).toBe(18);
+        expect(node.child('age')!.metadataKeys()).toEqual(['label']);
+        expect(node.child('email')!.metadataKeys()).toEqual([]);
+    });
+
+    test('operations serialize only the member they read', () => {
+        const node = PropertyNode.create(createSchema(), registry);
+        const toJSON = PropertyNode.prototype.toJSON;
+        let calls = 0;
+        PropertyNode.prototype.toJSON = function (this: PropertyNode, ...args) {
+            calls++;
+            return toJSON.apply(this, args);
+        };
+        try {
+            applyPatch(node, [
+                { op: 'test', path: '/children/email/constraints/required/value/id', value: 'isNotBlank' },
+                { op: 'test', path: '/children/age', value: node.child('age')!.toJSON() },
+                { op: 'replace', path: '/children/tags/value/1', value: 'c' },
+                { op: 'copy', from: '/children/email/metadata/label', path: '/children/age/metadata/label' },
+                { op: 'test', path: '/children/age/id', value: 'age' },
+            ]);
+        } finally {
+            PropertyNode.prototype.toJSON = toJSON;
+        }
+
+        // Only the expected value of the second test
+        expect(calls).toBe(1);
+        expect(node.child('tags')!.getRawValue()).toEqual(['a', 'c']);
+        expect(node.child('age')!.metadataKeys()).toEqual(['label']);
+    });
+});
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+describe('Patch: Errors', () => {
+    test('failed operations throw a PatchError', () => {
+        const node = PropertyNode.create(createSchema(), registry);
+        const operation: PatchOperation = { op: 'replace', path: '/children/missing/value', value: 1 };
+        const error = patchError(() => applyPatch(node, [operation]));
+
+        expect(error).toMatchObject({ operation, index: 0 });
+        expect(error.message).toBe("Patch operation 0 (replace /children/missing/value) failed: no child 'missing'");
+    });
+
+    test('a failed test rolls back earlier operations', () => {
+        const node = PropertyNode.create(createSchema(), registry);
+        const error = patchError(() => applyPatch(node, [
+            { op: 'replace', path: '/children/age/value', value: 99 },
+            { op: 'test', path: '/children/age/value', value: 30 },
+        ]));
+
+        expect(error.index).toBe(1);
+        expect(error.message).toContain('test failed');
+        expect(node.child('age')!.getRawValue()).toBe(30);
+    });
+
+    test('the root, ids and types cannot be patched', () => {
+        const node = PropertyNode.create(createSchema(), registry);
+
+        expect(patchError(() => applyPatch(node, [{ op: 'remove', path: '' }])).message)
+            .toContain('the root of the tree cannot be replaced or removed');
+        expect(patchError(() => applyPatch(node, [{ op: 'replace', path: '/children/age/id', value: 'x' }])).message)
+            .toContain("'id' cannot be patched");
+        expect(patchError(() => applyPatch(node, [{ op: 'add', path: '/children/x', value: 42 }])).message)
+            .toContain('expected a serialized Property');
+    });
+
+    test('replace and remove need an existing target', () => {
+        const node = PropertyNode.create(createSchema(), registry);
+
+        expect(() => applyPatch(node, [{ op: 'remove', path: '/children/age/metadata/label' }])).toThrow(PatchError);
+        expect(() => applyPatch(node, [{ op: 'replace', path: '/children/tags/value/5', value: 'x' }])).toThrow(PatchError);
+        expect(() => applyPatch(node, [{ op: 'remove', path: 'children' }])).toThrow('invalid JSON Pointer');
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Profiler Tests
+ * ==============
+ * Tests for evaluation hooks and the built-in profiler.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    Profiler,
+    evaluate,
+    PropertyNode,
+    PROPERTY,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, EvaluationContext } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createTree = (): Property => ({
+    id: 'root',
+    type: PROPERTY,
+    children: {
+        a: { id: 'a', type: PROPERTY, value: op('mul', lit(2), lit(3)) },
+        b: {
+            id: 'b',
+            type: PROPERTY,
+            value: op('add', ref('root.a.value'), ref('root.a.value')),
+        },
+    },
+});
+
+const contextFor = (root: Property): EvaluationContext => ({
+    current: root,
+    root,
+    registry,
+});
+
+/**
+ * Clock advancing one millisecond per reading.
+ */
+const ticking = (): (() => number) => {
+    let time = 0;
+    return () => time++;
+};
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+describe('Profiler: Evaluation hooks', () => {
+    test('onEnter and onExit surround every expression', async () => {
+        const events: string[] = [];
+        const root = createTree();
+        const ctx: EvaluationContext = {
+            ...contextFor(root),
+            onEnter: (expr) => events.push(`enter ${expr.id}`),
+            onExit: (expr, _ctx, result) => events.push(`exit ${expr.id} = ${result}`),
+        };
+
+        expect(await evaluate(op('add', lit(1), ref('root.a.value')), ctx)).toBe(7);
+        expect(events).toEqual([
+            'enter add',
+            'enter lit',
+            'exit lit = 1',
+            'enter ref',
+            'enter mul',
+            'enter lit',
+            'exit lit = 2',
+            'enter lit',
+            'exit lit = 3',
+            'exit mul = 6',
+            'exit ref = 6',
+            'exit add = 7',
+        ]);
+    });
+
+    test('onExit receives errors', async () => {
+        const errors: string[] = [];
+        const ctx: EvaluationContext = {
+            ...contextFor(createTree()),
+            onExit: (expr, _ctx, _result, error) => {
+                if (error) errors.push(`${expr.id}: ${(error as Error).message}`);
+            },
+        };
+
+        await expect(evaluate(op('not', op('frobnicate')), ctx)).rejects.toThrow('Unknown operator');
+        expect(errors).toEqual([
+            'frobnicate: Unknown operator: frobnicate',
+            'not: Unknown operator: frobnicate',
+        ]);
+    });
+
+    test('setEvaluationHooks observes every evaluation of the tree', async () => {
+        const entered: string[] = [];
+        const node = PropertyNode.create(createTree(), registry);
+        node.child('b')!.setEvaluationHooks({ onEnter: (expr) => entered.push(expr.id) });
+
+        expect(await node.getValue('a')).toBe(6);
+        expect(entered).toEqual(['mul', 'lit', 'lit']);
+
+        node.setEvaluationHooks(null);
+        await node.getValue('b');
+        expect(entered).toHaveLength(3);
+    });
+});
+
+// ============================================================================
+// PROFILER
+// ============================================================================
+
+describe('Profiler: Aggregation', () => {
+    test('calls, total and self time per operator and reference', async () => {
+        const profiler = new Profiler({ now: ticking() });
+        const root = createTree();
+        const expr = root.children!.b!.value as Property;
+
+        expect(await evaluate(expr, { ...contextFor(root), tracer: profiler.tracer() })).toBe(12);
+        expect(profiler.toJSON()).toEqual({
+            operators: {
+                add: { calls: 1, totalTime: 9, selfTime: 3 },
+                mul: { calls: 2, totalTime: 2, selfTime: 2 },
+            },
+            refs: {
+                'root.a.value': { calls: 2, totalTime: 6, selfTime: 4, reevaluations: 1 },
+            },
+            reevaluations: 1,
+        });
+    });
+
+    test('exports folded stacks in microseconds', async () => {
+        const profiler = new Profiler({ now: ticking() });
+        const root = createTree();
+        await evaluate(root.children!.b!.value as Property, { ...contextFor(root), tracer: profiler.tracer() });
+
+        expect(profiler.toFoldedStacks()).toBe([
+            'op:add;ref:root.a.value;op:mul 2000',
+            'op:add;ref:root.a.value 4000',
+            'op:add 3000',
+        ].join('\n'));
+    });
+
+    test('the evaluation cache prevents re-evaluations', async () => {
+        const profiler = new Profiler();
+        const node = PropertyNode.create(createTree(), registry);
+        node.setEvaluationHooks({ tracer: profiler.tracer() });
+
+        await node.getValue('b');
+        expect(profiler.toJSON().reevaluations).toBe(1);
+
+        profiler.reset();
+        node.enableCache();
+        await node.getValue('b');
+        expect(profiler.toJSON().refs['root.a.value']).toMatchObject({ calls: 2, reevaluations: 0 });
+        expect(profiler.toJSON().operators['mul']!.calls).toBe(1);
+    });
+
+    test('abandoned synchronous attempts are not counted', async () => {
+        const asyncRegistry = createStandardRegistry();
+        asyncRegistry.register('later', async () => 1);
+        const tree = createTree();
+        tree.children!.c = { id: 'c', type: PROPERTY, value: op('later') };
+        tree.children!.b!.value = op('add', ref('root.a.value'), ref('root.c.value'));
+
+        const profiler = new Profiler();
+        const node = PropertyNode.create(tree, asyncRegistry);
+        node.setEvaluationHooks({ tracer: profiler.tracer() });
+
+        expect(await node.getValue('b')).toBe(7);
+        const { operators, reevaluations } = profiler.toJSON();
+        expect(Object.fromEntries(Object.entries(operators).map(([name, e]) => [name, e.calls])))
+            .toEqual({ mul: 1, later: 1, add: 1 });
+        expect(reevaluations).toBe(0);
+    });
+});
@@ -642,6 +642,20 @@ describe('PropertyNode Reactivity', () => {
         expect(changes[0]?.length).toBe(2);
     });
 
+    test('adding and removing a child are one change each', () => {
+        const changes: string[][] = [];
+        node.subscribe((paths) => { changes.push(paths); });
+        const user = node.get('user')!;
+
+        user.addChild('email', { id: 'email', type: PROPERTY, value: '' });
+        user.removeChild('email');
+
+        expect(changes).toEqual([
+            ['user.email', 'user.children'],
+            ['user.email', 'user.children'],
+        ]);
+    });
+
     test('transaction() rolls back on error', () => {
         const nameNode = node.get('user.name')!;
         const originalValue = nameNode.getRawValue();
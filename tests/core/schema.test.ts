@@ -0,0 +1,265 @@
+/**
+ * Schema Type Tests
+ * =================
+ * Tests for built-in value types, type inheritance and runtime value checking.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PropertyNode,
+    PROPERTY,
+    CONSTRAINT,
+    TYPE,
+    STRING,
+    NUMBER,
+    INTEGER,
+    BOOLEAN,
+    DATE,
+    enumOf,
+    listOf,
+    recordOf,
+    unionOf,
+    defineType,
+    typeChain,
+    effectiveEntries,
+    matchesType,
+    lit,
+    ref,
+    op,
+    createRegistry,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const EMAIL = defineType('Email', STRING, {
+    constraints: {
+        email: {
+            id: 'email',
+            type: CONSTRAINT,
+            value: op('isEmail', ref('self.value')),
+            metadata: {
+                message: lit('Invalid email'),
+            },
+        },
+    },
+    metadata: {
+        label: lit('Email address'),
+        placeholder: lit('name@example.com'),
+    },
+});
+
+const WORK_EMAIL = defineType('WorkEmail', EMAIL, {
+    metadata: {
+        label: lit('Work email'),
+    },
+});
+
+const field = (type: Property, value: unknown): PropertyNode =>
+    PropertyNode.create({ id: 'field', type, value }, registry);
+
+// ============================================================================
+// VALUE CHECKING
+// ============================================================================
+
+describe('Schema: Value Checking', () => {
+    test('primitives', () => {
+        expect(matchesType('a', STRING)).toBe(true);
+        expect(matchesType(1, STRING)).toBe(false);
+        expect(matchesType(1.5, NUMBER)).toBe(true);
+        expect(matchesType(NaN, NUMBER)).toBe(false);
+        expect(matchesType('1', NUMBER)).toBe(false);
+        expect(matchesType(2, INTEGER)).toBe(true);
+        expect(matchesType(2.5, INTEGER)).toBe(false);
+        expect(matchesType(false, BOOLEAN)).toBe(true);
+        expect(matchesType(0, BOOLEAN)).toBe(false);
+    });
+
+    test('dates accept Date objects and ISO strings', () => {
+        expect(matchesType(new Date('2024-05-01'), DATE)).toBe(true);
+        expect(matchesType(new Date('nope'), DATE)).toBe(false);
+        expect(matchesType('2024-05-01', DATE)).toBe(true);
+        expect(matchesType('2024-05-01T10:00:00Z', DATE)).toBe(true);
+        expect(matchesType('01/05/2024', DATE)).toBe(false);
+        expect(matchesType('2024-13-45', DATE)).toBe(false);
+    });
+
+    test('null and undefined match every type', () => {
+        expect(matchesType(null, NUMBER)).toBe(true);
+        expect(matchesType(undefined, enumOf(['a']))).toBe(true);
+    });
+
+    test('enums, lists, records and unions', () => {
+        const COLOR = enumOf(['red', 'green']);
+        expect(matchesType('red', COLOR)).toBe(true);
+        expect(matchesType('blue', COLOR)).toBe(false);
+
+        const NUMBERS = listOf(NUMBER);
+        expect(matchesType([1, 2], NUMBERS)).toBe(true);
+        expect(matchesType([1, '2'], NUMBERS)).toBe(false);
+        expect(matchesType(1, NUMBERS)).toBe(false);
+
+        const SCORES = recordOf(INTEGER);
+        expect(matchesType({ a: 1, b: 2 }, SCORES)).toBe(true);
+        expect(matchesType({ a: 1.5 }, SCORES)).toBe(false);
+        expect(matchesType([1], SCORES)).toBe(false);
+
+        const ID = unionOf([STRING, INTEGER]);
+        expect(ID.id).toBe('String|Integer');
+        expect(matchesType('x', ID)).toBe(true);
+        expect(matchesType(3, ID)).toBe(true);
+        expect(matchesType(3.5, ID)).toBe(false);
+    });
+
+    test('nested parameterized types', () => {
+        const MATRIX = listOf(listOf(NUMBER));
+        expect(MATRIX.id).toBe('List<List<Number>>');
+        expect(matchesType([[1, 2], [3]], MATRIX)).toBe(true);
+        expect(matchesType([[1, 'x']], MATRIX)).toBe(false);
+    });
+
+    test('subtypes are checked against their parents', () => {
+        expect(matchesType('a@b.co', WORK_EMAIL)).toBe(true);
+        expect(matchesType(42, WORK_EMAIL)).toBe(false);
+    });
+
+    test('user-defined types accept any value', () => {
+        expect(matchesType({ any: 'thing' }, PROPERTY)).toBe(true);
+        expect(matchesType(1, { id: 'Custom', type: TYPE })).toBe(true);
+    });
+});
+
+// ============================================================================
+// INHERITANCE
+// ============================================================================
+
+describe('Schema: Inheritance', () => {
+    test('typeChain() walks type.type up to TYPE', () => {
+        expect(typeChain({ id: 'x', type: WORK_EMAIL })).toEqual([WORK_EMAIL, EMAIL, STRING, TYPE]);
+        expect(typeChain(TYPE)).toEqual([]);
+    });
+
+    test('effectiveEntries() merges nearest-first, own entries last', () => {
+        const property: Property = {
+            id: 'x',
+            type: WORK_EMAIL,
+            metadata: { placeholder: lit('me@work.com') },
+        };
+        const metadata = effectiveEntries(property, 'metadata');
+        expect(metadata.label).toBe(WORK_EMAIL.metadata!.label!);
+        expect(metadata.placeholder).toBe(property.metadata!.placeholder!);
+
+        const constraints = effectiveEntries(property, 'constraints');
+        expect(Object.keys(constraints).sort()).toEqual(['email', 'type']);
+    });
+
+    test('getMetadata() falls back to the type chain', async () => {
+        const node = field(WORK_EMAIL, 'a@b.co');
+        expect(await node.getMetadata('label')).toBe('Work email');
+        expect(await node.getMetadata('placeholder')).toBe('name@example.com');
+        expect(node.metadataKeys()).toEqual([]);
+    });
+
+    test('inherited metadata is evaluated with the instance as self', async () => {
+        const TAGGED = defineType('Tagged', STRING, {
+            metadata: { shout: op('upper', ref('self.value')) },
+        });
+        expect(await field(TAGGED, 'hi').getMetadata('shout')).toBe('HI');
+        expect(await field(TAGGED, 'yo').getMetadata('shout')).toBe('YO');
+    });
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('Schema: Validation', () => {
+    test('validate() applies the type check', async () => {
+        expect((await field(NUMBER, 5).validate()).valid).toBe(true);
+
+        const result = await field(NUMBER, 'five').validate();
+        expect(result.valid).toBe(false);
+        expect(result.issues[0]).toMatchObject({
+            constraint: 'type',
+            code: 'type',
+            message: 'Expected a value of type Number',
+            params: { expected: 'Number', actual: 'five' },
+        });
+    });
+
+    test('the type check needs no isOfType operator or registry', async () => {
+        const custom = PropertyNode.create({ id: 'field', type: NUMBER, value: 'five' }, createRegistry());
+        expect((await custom.validate()).errors).toEqual({ type: 'Expected a value of type Number' });
+
+        const bare = PropertyNode.create({ id: 'field', type: INTEGER, value: 2.5 });
+        expect(await bare.getConstraint('type')).toBe(false);
+        expect((await bare.validate()).issues[0]).toMatchObject({
+            message: 'Expected a value of type Integer',
+            params: { expected: 'Integer', actual: 2.5 },
+        });
+
+        bare.setValue(2);
+        expect((await bare.validate()).valid).toBe(true);
+    });
+
+    test('subtypes inherit constraints from every level', async () => {
+        expect((await field(WORK_EMAIL, 'a@b.co').validate()).valid).toBe(true);
+
+        const invalid = await field(WORK_EMAIL, 'nope').validate();
+        expect(invalid.errors).toEqual({ email: 'Invalid email' });
+
+        const wrongType = await field(WORK_EMAIL, 42).validate();
+        expect(wrongType.errors.type).toBe('Expected a value of type WorkEmail');
+    });
+
+    test('own constraints override inherited ones with the same key', async () => {
+        const node = PropertyNode.create({
+            id: 'loose',
+            type: NUMBER,
+            value: 'anything',
+            constraints: {
+                type: { id: 'type', type: CONSTRAINT, value: true },
+            },
+        }, registry);
+        expect((await node.validate()).valid).toBe(true);
+    });
+
+    test('getConstraint() and getConstraintMessage() see inherited constraints', async () => {
+        const node = field(enumOf(['S', 'M', 'L'], 'Size'), 'XL');
+        expect(await node.getConstraint('type')).toBe(false);
+        expect(await node.getConstraintMessage('type')).toBe('Expected a value of type Size');
+    });
+
+    test('validateDeep() checks typed children', async () => {
+        const node = PropertyNode.create({
+            id: 'order',
+            type: PROPERTY,
+            children: {
+                quantity: { id: 'quantity', type: INTEGER, value: 2.5 },
+                tags: { id: 'tags', type: listOf(STRING), value: ['a', 'b'] },
+                shipped: { id: 'shipped', type: DATE, value: '2024-05-01' },
+            },
+        }, registry);
+
+        const result = await node.validateDeep();
+        expect(result.valid).toBe(false);
+        expect(Object.keys(result.errors)).toEqual(['quantity']);
+    });
+
+    test('computed values are checked after evaluation', async () => {
+        const node = PropertyNode.create({
+            id: 'total',
+            type: NUMBER,
+            value: op('add', lit(1), lit(2)),
+        }, registry);
+        expect((await node.validate()).valid).toBe(true);
+
+        node.setValue(op('concat', lit('1'), lit('2')));
+        expect((await node.validate()).valid).toBe(false);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * Strict Reference Tests
+ * ======================
+ * Tests for strict reference resolution and optional path segments.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    evaluate,
+    evaluateSync,
+    RefResolutionError,
+    PropertyNode,
+    PROPERTY,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property, EvaluationContext } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const createPricing = (): Property => ({
+    id: 'root',
+    type: PROPERTY,
+    children: {
+        pricing: {
+            id: 'pricing',
+            type: PROPERTY,
+            metadata: { currency: lit('EUR') },
+            children: {
+                total: { id: 'total', type: PROPERTY, value: 100 },
+            },
+        },
+    },
+});
+
+const contextFor = (strict: boolean, overrides: Partial<EvaluationContext> = {}): EvaluationContext => {
+    const root = createPricing();
+    return { current: root, root, registry: createStandardRegistry({ strictRefs: strict }), ...overrides };
+};
+
+const resolutionError = (fn: () => unknown): RefResolutionError => {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof RefResolutionError) return error;
+        throw error;
+    }
+    throw new Error('Expected a RefResolutionError');
+};
+
+// ============================================================================
+// STRICT MODE
+// ============================================================================
+
+describe('Strict refs: Resolution', () => {
+    test('missing segments yield undefined by default', async () => {
+        expect(await evaluate(ref('root.pricing.totl.value'), contextFor(false))).toBeUndefined();
+    });
+
+    test('strict registries throw naming the segment and the resolved prefix', () => {
+        const error = resolutionError(() => evaluateSync(ref('root.pricing.totl.value'), contextFor(true)));
+        expect(error).toMatchObject({
+            ref: ['root', 'pricing', 'totl', 'value'],
+            segment: 'totl',
+            resolved: ['root', 'pricing'],
+            message: "Cannot resolve 'totl' in reference root.pricing.totl.value (resolved: root.pricing)",
+        });
+    });
+
+    test('every kind of segment is checked', () => {
+        const ctx = contextFor(true);
+        const segmentOf = (path: string) => resolutionError(() => evaluateSync(ref(path), ctx)).segment;
+
+        expect(segmentOf('parent.value')).toBe('parent');
+        expect(segmentOf('pricing.metadata.locale')).toBe('locale');
+        expect(segmentOf('pricing.constraints.max')).toBe('max');
+        expect(segmentOf('pricing.children.vat.value')).toBe('vat');
+        expect(segmentOf('pricing.metadata')).toBe('metadata');
+    });
+
+    test('resolvable references are unaffected', async () => {
+        const ctx = contextFor(true);
+        expect(await evaluate(ref('root.pricing.total.value'), ctx)).toBe(100);
+        expect(await evaluate(ref('pricing.currency'), ctx)).toBe('EUR');
+        expect(await evaluate(ref('pricing.total.value'), ctx)).toBe(100);
+    });
+
+    test('bound objects are navigated strictly', () => {
+        const ctx = contextFor(true, { bindings: { item: { name: 'a', tags: null } } });
+        expect(evaluateSync(ref('item.name'), ctx)).toBe('a');
+        expect(evaluateSync(ref('item.tags'), ctx)).toBeNull();
+        expect(resolutionError(() => evaluateSync(ref('item.nmae'), ctx)))
+            .toMatchObject({ segment: 'nmae', resolved: ['item'] });
+    });
+
+    test('the evaluation context overrides the registry', async () => {
+        expect(await evaluate(ref('root.nope'), contextFor(true, { strictRefs: false }))).toBeUndefined();
+        await expect(evaluate(ref('root.nope'), contextFor(false, { strictRefs: true })))
+            .rejects.toThrow(RefResolutionError);
+    });
+
+    test('errors are annotated with the evaluation site', async () => {
+        const node = PropertyNode.create({
+            id: 'form',
+            type: PROPERTY,
+            children: {
+                label: { id: 'label', type: PROPERTY, value: op('upper', ref('parent.titel.value')) },
+            },
+        }, createStandardRegistry({ strictRefs: true }));
+
+        await expect(node.getValue('label')).rejects.toMatchObject({
+            name: 'RefResolutionError',
+            path: ['label'],
+            expressions: ['upper', 'ref:parent.titel.value'],
+        });
+    });
+});
+
+// ============================================================================
+// OPTIONAL SEGMENTS
+// ============================================================================
+
+describe('Strict refs: Optional segments', () => {
+    test('a missing optional segment yields undefined', async () => {
+        const ctx = contextFor(true);
+        expect(await evaluate(ref('root.discount?.value'), ctx)).toBeUndefined();
+        expect(await evaluate(ref('pricing.metadata.locale?'), ctx)).toBeUndefined();
+        expect(await evaluate(op('coalesce', ref('pricing.vat?.value'), lit(0)), ctx)).toBe(0);
+    });
+
+    test('present optional segments resolve as usual', async () => {
+        expect(await evaluate(ref('root.pricing?.total.value'), contextFor(true))).toBe(100);
+        expect(await evaluate(ref('root.pricing?.total.value'), contextFor(false))).toBe(100);
+    });
+
+    test('only the marked segment may be missing', () => {
+        expect(resolutionError(() => evaluateSync(ref('root.pricing?.totl.value'), contextFor(true))))
+            .toMatchObject({ segment: 'totl', resolved: ['root', 'pricing'] });
+    });
+});
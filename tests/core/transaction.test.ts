@@ -0,0 +1,246 @@
+/**
+ * Transaction Tests
+ * =================
+ * Tests for structural rollback, async transactions, savepoints and
+ * deferred notifications.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PropertyNode,
+    PROPERTY,
+    STRING,
+    NUMBER,
+    CONSTRAINT,
+    lit,
+    ref,
+    op,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const createForm = (): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: {
+        name: {
+            id: 'name',
+            type: STRING,
+            value: 'Ada',
+            defaultValue: '',
+            metadata: { label: lit('Name') },
+            constraints: {
+                required: { id: 'required', type: CONSTRAINT, value: op('isNotBlank', ref('self.value')) },
+            },
+        },
+        age: { id: 'age', type: NUMBER, value: 36 },
+    },
+});
+
+const fail = (): never => {
+    throw new Error('abort');
+};
+
+// ============================================================================
+// ROLLBACK
+// ============================================================================
+
+describe('Transaction: Rollback', () => {
+    test('restores metadata, constraints and children', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const before = form.toJSON();
+        const name = form.child('name')!;
+
+        expect(() => form.transaction(() => {
+            name.setMetadata('label', lit('Full name'));
+            name.setMetadata('hint', lit('As on your passport'));
+            name.removeConstraint('required');
+            name.setDefaultValue('Anonymous');
+            form.addChild('email', { id: 'email', type: STRING, value: 'ada@example.com' });
+            form.removeChild('age');
+            fail();
+        })).toThrow('abort');
+
+        expect(form.toJSON()).toEqual(before);
+    });
+
+    test('restores a child removed after being changed', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+
+        expect(() => form.transaction(() => {
+            form.child('age')!.setValue(40);
+            form.removeChild('age');
+            fail();
+        })).toThrow('abort');
+
+        expect(await form.getValue('age')).toBe(36);
+    });
+
+    test('restored constraints evaluate', async () => {
+        const form = PropertyNode.create(createForm(), registry).enableCache();
+        const name = form.child('name')!;
+        expect(await name.getConstraint('required')).toBe(true);
+
+        expect(() => form.transaction(() => {
+            name.setConstraint('required', { id: 'required', type: CONSTRAINT, value: lit(false) });
+            fail();
+        })).toThrow('abort');
+
+        expect(await name.getConstraint('required')).toBe(true);
+    });
+
+    test('reverts changes anywhere in the tree', () => {
+        const form = PropertyNode.create(createForm(), registry);
+
+        expect(() => form.child('name')!.transaction(() => {
+            form.child('age')!.setValue(40);
+            fail();
+        })).toThrow('abort');
+
+        expect(form.child('age')!.getRawValue()).toBe(36);
+    });
+});
+
+// ============================================================================
+// ASYNC
+// ============================================================================
+
+describe('Transaction: Async', () => {
+    test('commits when the body resolves', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const name = form.child('name')!;
+
+        const result = await form.transactionAsync(async () => {
+            name.setValue('Grace');
+            return name.validate();
+        });
+
+        expect(result.valid).toBe(true);
+        expect(name.getRawValue()).toBe('Grace');
+        expect(form.inTransaction).toBe(false);
+    });
+
+    test('rolls back when the body rejects', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const name = form.child('name')!;
+
+        await expect(form.transactionAsync(async () => {
+            name.setValue('');
+            const result = await name.validate();
+            if (!result.valid) throw new Error('invalid');
+        })).rejects.toThrow('invalid');
+
+        expect(name.getRawValue()).toBe('Ada');
+        expect(form.inTransaction).toBe(false);
+    });
+});
+
+// ============================================================================
+// SAVEPOINTS
+// ============================================================================
+
+describe('Transaction: Savepoints', () => {
+    test('a failed nested transaction reverts only its own changes', () => {
+        const form = PropertyNode.create(createForm(), registry);
+
+        form.transaction(() => {
+            form.child('name')!.setValue('Grace');
+            try {
+                form.transaction(() => {
+                    form.child('age')!.setValue(40);
+                    form.addChild('email', { id: 'email', type: STRING, value: '' });
+                    fail();
+                });
+            } catch {
+                // Keep the outer changes
+            }
+            expect(form.inTransaction).toBe(true);
+        });
+
+        expect(form.child('name')!.getRawValue()).toBe('Grace');
+        expect(form.child('age')!.getRawValue()).toBe(36);
+        expect(form.child('email')).toBeNull();
+    });
+
+    test('the outer transaction reverts committed nested ones', () => {
+        const form = PropertyNode.create(createForm(), registry);
+
+        expect(() => form.transaction(() => {
+            form.transaction(() => form.child('age')!.setValue(40));
+            fail();
+        })).toThrow('abort');
+
+        expect(form.child('age')!.getRawValue()).toBe(36);
+    });
+});
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+describe('Transaction: Notifications', () => {
+    test('are sent once the outermost transaction commits', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const name = form.child('name')!;
+        const rootCalls: string[][] = [];
+        const nameCalls: string[][] = [];
+        form.subscribe(paths => rootCalls.push(paths));
+        name.subscribe(paths => nameCalls.push(paths));
+
+        form.transaction(() => {
+            name.setValue('Grace');
+            form.transaction(() => name.setMetadata('label', lit('Full name')));
+            name.setValue('Alan');
+            expect(rootCalls).toEqual([]);
+            expect(nameCalls).toEqual([]);
+        });
+
+        expect(rootCalls).toEqual([['name', 'name.metadata.label']]);
+        expect(nameCalls).toEqual([['', 'metadata.label']]);
+    });
+
+    test('of a rolled back savepoint are dropped when the outer one commits', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const calls: string[][] = [];
+        const ageCalls: string[][] = [];
+        form.subscribe(paths => calls.push(paths));
+        form.child('age')!.subscribe(paths => ageCalls.push(paths));
+
+        form.transaction(() => {
+            form.child('name')!.setValue('Grace');
+            try {
+                form.transaction(() => {
+                    form.child('name')!.setMetadata('label', lit('Full name'));
+                    form.child('age')!.setValue(40);
+                    form.addChild('email', { id: 'email', type: STRING, value: '' });
+                    fail();
+                });
+            } catch {
+                // Keep the outer changes
+            }
+        });
+
+        expect(calls).toEqual([['name']]);
+        expect(ageCalls).toEqual([]);
+    });
+
+    test('are dropped when it rolls back', () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const calls: string[][] = [];
+        form.subscribe(paths => calls.push(paths));
+
+        expect(() => form.transaction(() => {
+            form.child('name')!.setValue('Grace');
+            form.removeChild('age');
+            fail();
+        })).toThrow('abort');
+
+        expect(calls).toEqual([]);
+    });
+});
@@ -0,0 +1,270 @@
+/**
+ * Typecheck Tests
+ * ===============
+ * Tests for static checking of expression trees and operator signatures.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    typecheck,
+    isAssignable,
+    createStandardRegistry,
+    PROPERTY,
+    CONSTRAINT,
+    STRING,
+    NUMBER,
+    INTEGER,
+    BOOLEAN,
+    LIST,
+    ANY,
+    enumOf,
+    listOf,
+    unionOf,
+    defineType,
+    lit,
+    ref,
+    op,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const form = (children: Record<string, Property>): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children,
+});
+
+const field = (id: string, type: Property, value?: unknown): Property => ({ id, type, value });
+
+const codes = (root: Property): string[] =>
+    typecheck(root, registry).issues.map(issue => issue.code);
+
+// ============================================================================
+// ASSIGNABILITY
+// ============================================================================
+
+describe('Typecheck: Assignability', () => {
+    test('subtypes are assignable to their parents', () => {
+        expect(isAssignable(INTEGER, NUMBER)).toBe(true);
+        expect(isAssignable(NUMBER, INTEGER)).toBe(false);
+        expect(isAssignable(defineType('Email', STRING), STRING)).toBe(true);
+        expect(isAssignable(STRING, NUMBER)).toBe(false);
+    });
+
+    test('unknown types are assignable both ways', () => {
+        expect(isAssignable(undefined, NUMBER)).toBe(true);
+        expect(isAssignable(STRING, undefined)).toBe(true);
+        expect(isAssignable(STRING, ANY)).toBe(true);
+        expect(isAssignable(PROPERTY, NUMBER)).toBe(true);
+    });
+
+    test('unions, enums and lists', () => {
+        expect(isAssignable(STRING, unionOf([STRING, NUMBER]))).toBe(true);
+        expect(isAssignable(unionOf([STRING, NUMBER]), STRING)).toBe(false);
+        expect(isAssignable(enumOf(['a', 'b']), STRING)).toBe(true);
+        expect(isAssignable(enumOf(['a', 1]), STRING)).toBe(false);
+        expect(isAssignable(listOf(INTEGER), listOf(NUMBER))).toBe(true);
+        expect(isAssignable(listOf(STRING), listOf(NUMBER))).toBe(false);
+        expect(isAssignable(LIST, listOf(NUMBER))).toBe(true);
+    });
+});
+
+// ============================================================================
+// OPERATORS
+// ============================================================================
+
+describe('Typecheck: Operators', () => {
+    test('a well-typed tree has no issues', () => {
+        const root = form({
+            price: field('price', NUMBER, 10),
+            quantity: field('quantity', INTEGER, 2),
+            total: field('total', NUMBER, op('mul', ref('parent.price.value'), ref('parent.quantity.value'))),
+            label: field('label', STRING, op('concat', lit('Total: '), ref('parent.total.value'))),
+        });
+        expect(typecheck(root, registry)).toEqual({ valid: true, issues: [] });
+    });
+
+    test('reports unknown operators with their location', () => {
+        const root = form({
+            total: field('total', PROPERTY, op('add', lit(1), op('frobnicate', lit(2)))),
+        });
+        const [found] = typecheck(root, registry).issues;
+        expect(found!.code).toBe('unknown-operator');
+        expect(found!.path).toEqual(['total', 'value', 'arg1']);
+        expect(found!.message).toBe('total.value.arg1: Unknown operator: frobnicate');
+    });
+
+    test('reports argument type mismatches', () => {
+        const root = form({
+            name: field('name', STRING, 'Ada'),
+            total: field('total', PROPERTY, op('add', lit(1), ref('parent.name.value'))),
+        });
+        const result = typecheck(root, registry);
+        expect(result.valid).toBe(false);
+        expect(result.issues[0]!.code).toBe('type-mismatch');
+        expect(result.issues[0]!.message).toBe(
+            'total.value.arg1: add argument 2 expects Number, got String'
+        );
+    });
+
+    test('infers return types through nested operators', () => {
+        const root = form({
+            total: field('total', PROPERTY, op('sub', op('upper', lit('x')), lit(1))),
+        });
+        expect(codes(root)).toEqual(['type-mismatch']);
+    });
+
+    test('reports argument counts', () => {
+        const root = form({
+            a: field('a', PROPERTY, op('sub', lit(1))),
+            b: field('b', PROPERTY, op('not', lit(true), lit(false))),
+            c: field('c', PROPERTY, op('round', lit(1.5))),
+        });
+        const result = typecheck(root, registry);
+        expect(result.issues.map(i => i.message)).toEqual([
+            'a.value: sub expects 2 argument(s), got 1',
+            'b.value: not expects 1 argument(s), got 2',
+        ]);
+    });
+
+    test('uses signatures of custom operators', () => {
+        const custom = createStandardRegistry();
+        custom.register('percent', () => 0, {
+            signature: { args: [NUMBER, NUMBER], returns: NUMBER },
+        });
+        const root = form({
+            p: field('p', PROPERTY, op('percent', lit(1), lit('all'))),
+        });
+        expect(typecheck(root, custom).issues.map(i => i.code)).toEqual(['type-mismatch']);
+
+        // Without a signature, only the operator's existence is checked
+        custom.register('percent', () => 0);
+        expect(typecheck(root, custom).valid).toBe(true);
+    });
+
+    test('checks computed values against the declared type', () => {
+        const root = form({
+            count: field('count', NUMBER, op('concat', lit('a'), lit('b'))),
+        });
+        const [found] = typecheck(root, registry).issues;
+        expect(found!.path).toEqual(['count', 'value']);
+        expect(found!.message).toBe('count.value: count is declared Number, but its value is String');
+    });
+});
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+describe('Typecheck: References', () => {
+    test('reports references that do not resolve', () => {
+        const root = form({
+            name: field('name', STRING, 'Ada'),
+            greeting: field('greeting', PROPERTY, op('concat', lit('Hi '), ref('parent.nmae.value'))),
+        });
+        const result = typecheck(root, registry);
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues[0]!.code).toBe('unresolved-ref');
+        expect(result.issues[0]!.message).toBe(
+            'greeting.value.arg1: Reference parent.nmae.value does not resolve'
+        );
+    });
+
+    test('optional segments may be missing', () => {
+        const root = form({
+            name: field('name', STRING, 'Ada'),
+            greeting: field('greeting', PROPERTY, op('concat', ref('parent.title?.value'), ref('parent.name?.vlaue'))),
+        });
+        const result = typecheck(root, registry);
+        expect(result.issues.map(issue => issue.message)).toEqual([
+            'greeting.value.arg1: Reference parent.name?.vlaue does not resolve',
+        ]);
+    });
+
+    test('resolves metadata, constraints and root references', () => {
+        const root: Property = {
+            id: 'form',
+            type: PROPERTY,
+            metadata: { currency: lit('EUR') },
+            children: {
+                price: {
+                    id: 'price',
+                    type: NUMBER,
+                    value: 5,
+                    metadata: { max: lit(100) },
+                    constraints: {
+                        limit: {
+                            id: 'limit',
+                            type: CONSTRAINT,
+                            value: op('lte', ref('self.value'), ref('self.metadata.max')),
+                            metadata: {
+                                message: op('concat', lit('At most '), ref('self.max'), ref('root.currency')),
+                            },
+                        },
+                    },
+                },
+                check: field('check', BOOLEAN, ref('root.price.constraints.limit')),
+                missing: field('missing', PROPERTY, ref('root.metadata.nope')),
+            },
+        };
+        const result = typecheck(root, registry);
+        expect(result.issues.map(i => i.path)).toEqual([['missing', 'value']]);
+    });
+
+    test('checks expressions inside constraints and their messages', () => {
+        const root = form({
+            email: {
+                id: 'email',
+                type: STRING,
+                constraints: {
+                    format: {
+                        id: 'format',
+                        type: CONSTRAINT,
+                        value: op('isEmail', ref('self.valu')),
+                        metadata: {
+                            message: op('translate', lit('errors.email')),
+                        },
+                    },
+                },
+            },
+        });
+        const result = typecheck(root, registry);
+        expect(result.issues.map(i => [i.code, i.path.join('.')])).toEqual([
+            ['unresolved-ref', 'email.constraints.format.value.arg0'],
+            ['unknown-operator', 'email.constraints.format.metadata.message'],
+        ]);
+    });
+
+    test('names bound by higher-order operators are in scope', () => {
+        const root = form({
+            items: field('items', listOf(NUMBER), [1, 2]),
+            doubled: field('doubled', PROPERTY,
+                op('map', ref('parent.items.value'), op('mul', ref('item'), lit(2)))),
+            stray: field('stray', PROPERTY, op('mul', ref('item'), lit(2))),
+        });
+        const result = typecheck(root, registry);
+        expect(result.issues.map(i => i.path.join('.'))).toEqual(['stray.value.arg0']);
+        expect(typecheck(root, registry, { bindings: ['item'] }).valid).toBe(true);
+    });
+
+    test('infers the type of referenced computed values', () => {
+        const root = form({
+            a: field('a', PROPERTY, op('concat', lit('x'))),
+            b: field('b', PROPERTY, op('add', ref('parent.a.value'), lit(1))),
+        });
+        expect(codes(root)).toEqual(['type-mismatch']);
+    });
+
+    test('reference cycles do not loop', () => {
+        const root = form({
+            a: field('a', PROPERTY, op('add', ref('parent.b.value'), lit(1))),
+            b: field('b', PROPERTY, op('add', ref('parent.a.value'), lit(1))),
+        });
+        expect(typecheck(root, registry).valid).toBe(true);
+    });
+});
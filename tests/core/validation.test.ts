@@ -0,0 +1,603 @@
+/**
+ * Validation Tests
+ * ================
+ * Tests for structured validation issues.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PropertyNode,
+    PROPERTY,
+    CONSTRAINT,
+    LIT,
+    lit,
+    ref,
+    op,
+    interpolate,
+    evalArg,
+    createStandardRegistry,
+} from '../../src';
+import type { Property } from '../../src';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const registry = createStandardRegistry();
+
+const text = (id: string, value: string): Property => ({ id, type: LIT, value });
+
+const minLength = (n: number, severity?: string): Property => ({
+    id: 'minLength',
+    type: CONSTRAINT,
+    value: op('gte', op('strlen', ref('self.value')), lit(n)),
+    metadata: {
+        message: text('message', 'At least {min} characters (got "{actual}")'),
+        code: text('code', 'too_short'),
+        params: { id: 'params', type: PROPERTY, children: { min: lit(n) } },
+        ...(severity ? { severity: text('severity', severity) } : {}),
+    },
+});
+
+const createForm = (): Property => ({
+    id: 'form',
+    type: PROPERTY,
+    children: {
+        username: {
+            id: 'username',
+            type: PROPERTY,
+            value: 'ab',
+            constraints: { minLength: minLength(3) },
+        },
+        bio: {
+            id: 'bio',
+            type: PROPERTY,
+            value: 'Hi',
+            constraints: { minLength: minLength(10, 'warning') },
+        },
+        nickname: {
+            id: 'nickname',
+            type: PROPERTY,
+            value: '',
+            constraints: {
+                required: {
+                    id: 'required',
+                    type: CONSTRAINT,
+                    value: op('isNotBlank', ref('self.value')),
+                    metadata: { severity: text('severity', 'info') },
+                },
+            },
+        },
+    },
+});
+
+// ============================================================================
+// ISSUES
+// ============================================================================
+
+describe('Validation: Issues', () => {
+    test('failed constraints produce structured issues', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const result = await form.child('username')!.validate();
+
+        expect(result.valid).toBe(false);
+        expect(result.issues).toEqual([{
+            constraint: 'minLength',
+            code: 'too_short',
+            severity: 'error',
+            path: ['username'],
+            source: ['username'],
+            params: { min: 3, actual: 'ab' },
+            message: 'At least 3 characters (got "ab")',
+        }]);
+        expect(result.errors).toEqual({ minLength: 'At least 3 characters (got "ab")' });
+    });
+
+    test('warnings do not flip valid', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const result = await form.child('bio')!.validate();
+
+        expect(result.valid).toBe(true);
+        expect(result.errors).toEqual({});
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues[0]!.severity).toBe('warning');
+    });
+
+    test('code and message have defaults', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const [issue] = (await form.child('nickname')!.validate()).issues;
+
+        expect(issue!.code).toBe('required');
+        expect(issue!.severity).toBe('info');
+        expect(issue!.message).toBe('Constraint required failed');
+        expect(issue!.params).toEqual({ actual: '' });
+    });
+
+    test('params can be expressions evaluated against the node', async () => {
+        const field = PropertyNode.create({
+            id: 'age',
+            type: PROPERTY,
+            value: 15,
+            metadata: { minimum: lit(18) },
+            constraints: {
+                adult: {
+                    id: 'adult',
+                    type: CONSTRAINT,
+                    value: op('gte', ref('self.value'), ref('self.metadata.minimum')),
+                    metadata: {
+                        message: text('message', 'Must be {min} or older'),
+                        params: {
+                            id: 'params',
+                            type: PROPERTY,
+                            children: { min: ref('self.metadata.minimum') },
+                        },
+                    },
+                },
+            },
+        }, registry);
+
+        const result = await field.validate();
+        expect(result.errors.adult).toBe('Must be 18 or older');
+    });
+
+    test('unknown severities count as errors', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const username = form.child('username')!;
+        username.setConstraint('minLength', minLength(3, 'fatal'));
+
+        const result = await username.validate();
+        expect(result.issues[0]!.severity).toBe('error');
+        expect(result.valid).toBe(false);
+    });
+
+    test('boolean constraints validate without a registry', async () => {
+        const node = PropertyNode.create({
+            id: 'flag',
+            type: PROPERTY,
+            value: 1,
+            constraints: {
+                never: {
+                    id: 'never',
+                    type: CONSTRAINT,
+                    value: false,
+                    metadata: { message: text('message', 'Value {actual} rejected') },
+                },
+            },
+        });
+
+        const result = await node.validate();
+        expect(result.errors.never).toBe('Value 1 rejected');
+    });
+});
+
+// ============================================================================
+// DEEP VALIDATION
+// ============================================================================
+
+describe('Validation: Deep', () => {
+    test('returns a flat list and grouped issues', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        const result = await form.validateDeep();
+
+        expect(result.valid).toBe(false);
+        expect(result.issues.map(i => i.path.join('.'))).toEqual(['username', 'bio', 'nickname']);
+        expect(Object.keys(result.issuesByPath)).toEqual(['username', 'bio', 'nickname']);
+        expect(result.issuesByPath.bio![0]!.severity).toBe('warning');
+        // Only errors are reported in the string map
+        expect(Object.keys(result.errors)).toEqual(['username']);
+    });
+
+    test('only warnings keep the tree valid', async () => {
+        const form = PropertyNode.create(createForm(), registry);
+        form.setValue('alice', { path: 'username' });
+
+        const result = await form.validateDeep();
+        expect(result.valid).toBe(true);
+        expect(result.issues).toHaveLength(2);
+    });
+});
+
+// ============================================================================
+// CROSS-FIELD CONSTRAINTS
+// ============================================================================
+
+describe('Validation: Targets', () => {
+    const createSignup = (): Property => ({
+        id: 'signup',
+        type: PROPERTY,
+        children: {
+            account: {
+                id: 'account',
+                type: PROPERTY,
+                children: {
+                    password: { id: 'password', type: PROPERTY, value: 'secret1' },
+                    confirm: { id: 'confirm', type: PROPERTY, value: 'secret2' },
+                },
+                constraints: {
+                    match: {
+                        id: 'match',
+                        type: CONSTRAINT,
+                        value: op('eq', ref('self.password.value'), ref('self.confirm.value')),
+                        metadata: {
+                            message: text('message', 'Passwords must match'),
+                            targets: lit('confirm'),
+                        },
+                    },
+                },
+            },
+            dates: {
+                id: 'dates',
+                type: PROPERTY,
+                children: {
+                    start: { id: 'start', type: PROPERTY, value: '2024-05-10' },
+                    end: { id: 'end', type: PROPERTY, value: '2024-05-01' },
+                },
+                constraints: {
+                    ordered: {
+                        id: 'ordered',
+                        type: CONSTRAINT,
+                        value: op('lte', ref('self.start.value'), ref('self.end.value')),
+                        metadata: {
+                            message: text('message', 'Start must be before end'),
+                            targets: lit(['start', 'end']),
+                        },
+                    },
+                },
+            },
+        },
+    });
+
+    test('issues are reported against the target field', async () => {
+        const form = PropertyNode.create(createSignup(), registry);
+        const [issue] = (await form.child('account')!.validate()).issues;
+
+        expect(issue!.path).toEqual(['account', 'confirm']);
+        expect(issue!.source).toEqual(['account']);
+    });
+
+    test('validateDeep groups issues by target', async () => {
+        const form = PropertyNode.create(createSignup(), registry);
+        const result = await form.validateDeep();
+
+        expect(result.errors).toEqual({
+            'account.confirm': { match: 'Passwords must match' },
+            'dates.start': { ordered: 'Start must be before end' },
+            'dates.end': { ordered: 'Start must be before end' },
+        });
+        expect(result.errors.account).toBeUndefined();
+        expect(result.issuesByPath['dates.end']![0]!.source).toEqual(['dates']);
+    });
+
+    test('grouping is relative to the validated node', async () => {
+        const form = PropertyNode.create(createSignup(), registry);
+        const result = await form.child('dates')!.validateDeep();
+
+        expect(Object.keys(result.errors)).toEqual(['start', 'end']);
+    });
+
+    test('the owning node still reports the failure', async () => {
+        const form = PropertyNode.create(createSignup(), registry);
+        const account = form.child('account')!;
+
+        const result = await account.validate();
+        expect(result.valid).toBe(false);
+        expect(result.errors.match).toBe('Passwords must match');
+        expect(account.validationState).toBe('invalid');
+    });
+});
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+describe('Validation: Messages', () => {
+    const createLocalizedForm = (): Property => ({
+        id: 'app',
+        type: PROPERTY,
+        children: {
+            i18n: {
+                id: 'i18n',
+                type: PROPERTY,
+                children: {
+                    locale: { id: 'locale', type: PROPERTY, value: 'en' },
+                    en: { id: 'en', type: PROPERTY, value: { required: 'Required', short: 'At least {min} characters' } },
+                    fr: { id: 'fr', type: PROPERTY, value: { required: 'Obligatoire', short: 'Au moins {min} caractères' } },
+                },
+            },
+            name: {
+                id: 'name',
+                type: PROPERTY,
+                value: '',
+                constraints: {
+                    required: {
+                        id: 'required',
+                        type: CONSTRAINT,
+                        value: op('isNotBlank', ref('self.value')),
+                        metadata: { message: op('t', lit('required')) },
+                    },
+                    minLength: {
+                        id: 'minLength',
+                        type: CONSTRAINT,
+                        value: op('gte', op('strlen', ref('self.value')), lit(2)),
+                        metadata: {
+                            message: op('t', lit('short')),
+                            params: { id: 'params', type: PROPERTY, children: { min: lit(2) } },
+                        },
+                    },
+                },
+            },
+        },
+    });
+
+    // Looks a key up in the table of the active locale
+    const createI18nRegistry = () => {
+        const i18nRegistry = createStandardRegistry();
+        i18nRegistry.register('t', async (args, ctx) => {
+            const key = String(await evalArg(args[0]!, ctx));
+            const locale = await evalArg(ref('root.i18n.locale.value'), ctx);
+            const table = await evalArg(ref(['root', 'i18n', String(locale), 'value']), ctx);
+            return (table as Record<string, string>)[key] ?? key;
+        });
+        return i18nRegistry;
+    };
+
+    test('expression messages are evaluated', async () => {
+        const app = PropertyNode.create(createLocalizedForm(), createI18nRegistry());
+        const result = await app.child('name')!.validate();
+
+        expect(result.errors).toEqual({
+            required: 'Required',
+            minLength: 'At least 2 characters',
+        });
+    });
+
+    test('messages follow the active locale', async () => {
+        const app = PropertyNode.create(createLocalizedForm(), createI18nRegistry()).enableCache();
+        expect((await app.child('name')!.validate()).errors.required).toBe('Required');
+
+        app.setValue('fr', { path: 'i18n.locale' });
+        const result = await app.child('name')!.validate();
+        expect(result.errors.required).toBe('Obligatoire');
+        expect(result.errors.minLength).toBe('Au moins 2 caractères');
+    });
+
+    test('messages are evaluated with the constrained node as self', async () => {
+        const field = PropertyNode.create({
+            id: 'quantity',
+            type: PROPERTY,
+            value: 0,
+            metadata: { label: lit('Quantity') },
+            constraints: {
+                positive: {
+                    id: 'positive',
+                    type: CONSTRAINT,
+                    value: op('gt', ref('self.value'), lit(0)),
+                    metadata: {
+                        message: op('concat', ref('self.metadata.label'), lit(' must be positive, got '), ref('self.value')),
+                    },
+                },
+            },
+        }, registry);
+
+        const result = await field.validate();
+        expect(result.errors.positive).toBe('Quantity must be positive, got 0');
+    });
+
+    test('message Properties may hold an expression in their value', async () => {
+        const field = PropertyNode.create({
+            id: 'code',
+            type: PROPERTY,
+            value: 'x',
+            constraints: {
+                upper: {
+                    id: 'upper',
+                    type: CONSTRAINT,
+                    value: op('eq', ref('self.value'), op('upper', ref('self.value'))),
+                    metadata: {
+                        message: { id: 'message', type: PROPERTY, value: op('concat', lit('Use '), op('upper', ref('self.value'))) },
+                    },
+                },
+            },
+        }, registry);
+
+        expect((await field.validate()).errors.upper).toBe('Use X');
+    });
+
+    test('getConstraintMessage() returns the message without validating', async () => {
+        const app = PropertyNode.create(createLocalizedForm(), createI18nRegistry());
+        const name = app.child('name')!;
+
+        expect(await name.getConstraintMessage('minLength')).toBe('At least 2 characters');
+        expect(await name.getConstraintMessage('missing')).toBeUndefined();
+    });
+});
+
+// ============================================================================
+// ASYNC VALIDATION
+// ============================================================================
+
+describe('Validation: Async', () => {
+    const taken = new Set(['admin', 'root']);
+
+    // Stub availability service: resolves after `ms`, or rejects when aborted
+    const createAsyncRegistry = (ms = 20) => {
+        const calls: string[] = [];
+        const asyncRegistry = createStandardRegistry();
+        asyncRegistry.register('isAvailable', async (args, ctx) => {
+            const name = String(await evalArg(args[0]!, ctx));
+            calls.push(name);
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(resolve, ms);
+                ctx.signal?.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    reject(ctx.signal!.reason);
+                });
+            });
+            return !taken.has(name);
+        });
+        return { asyncRegistry, calls };
+    };
+
+    const createUsername = (value: string): Property => ({
+        id: 'username',
+        type: PROPERTY,
+        value,
+        constraints: {
+            available: {
+                id: 'available',
+                type: CONSTRAINT,
+                value: op('isAvailable', ref('self.value')),
+                metadata: { message: text('message', '{actual} is taken') },
+            },
+        },
+    });
+
+    test('async constraints report pending then the outcome', async () => {
+        const { asyncRegistry } = createAsyncRegistry();
+        const node = PropertyNode.create(createUsername('admin'), asyncRegistry);
+        const states: string[] = [];
+        node.subscribeValidation(state => states.push(state));
+
+        expect(node.validationState).toBe('idle');
+        const pending = node.validate();
+        expect(node.validationState).toBe('pending');
+
+        const result = await pending;
+        expect(result.errors.available).toBe('admin is taken');
+        expect(node.validationState).toBe('invalid');
+        expect(states).toEqual(['pending', 'invalid']);
+    });
+
+    test('a newer run aborts the previous one and both resolve to the latest result', async () => {
+        const { asyncRegistry } = createAsyncRegistry();
+        const node = PropertyNode.create(createUsername('admin'), asyncRegistry);
+        const states: string[] = [];
+        node.subscribeValidation(state => states.push(state));
+
+        const first = node.validate();
+        node.setValue('alice', { silent: true });
+        const second = node.validate();
+
+        const [a, b] = await Promise.all([first, second]);
+        expect(a).toBe(b);
+        expect(b.valid).toBe(true);
+        expect(node.validationState).toBe('valid');
+        expect(states.filter(s => s !== 'pending')).toEqual(['valid']);
+    });
+
+    test('setValue restarts a pending run', async () => {
+        const { asyncRegistry, calls } = createAsyncRegistry();
+        const node = PropertyNode.create(createUsername('admin'), asyncRegistry);
+
+        const run = node.validate();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        node.setValue('bob');
+
+        const result = await run;
+        expect(result.valid).toBe(true);
+        expect(calls).toEqual(['admin', 'bob']);
+    });
+
+    test('setValue through a path restarts the target node', async () => {
+        const { asyncRegistry } = createAsyncRegistry();
+        const form = PropertyNode.create({
+            id: 'form',
+            type: PROPERTY,
+            children: { username: createUsername('root') },
+        }, asyncRegistry);
+
+        const run = form.child('username')!.validate();
+        form.setValue('carol', { path: 'username' });
+        expect((await run).valid).toBe(true);
+    });
+
+    test('debounce coalesces rapid runs', async () => {
+        const { asyncRegistry, calls } = createAsyncRegistry(1);
+        const node = PropertyNode.create(createUsername('a'), asyncRegistry);
+
+        const runs = ['ab', 'abc', 'abcd'].map(value => {
+            node.setValue(value, { silent: true });
+            return node.validate({ debounce: 20 });
+        });
+        const results = await Promise.all(runs);
+
+        expect(calls).toEqual(['abcd']);
+        expect(results.every(r => r === results[2])).toBe(true);
+    });
+
+    test('an external signal cancels the run', async () => {
+        const { asyncRegistry } = createAsyncRegistry();
+        const node = PropertyNode.create(createUsername('admin'), asyncRegistry);
+        const controller = new AbortController();
+
+        const run = node.validate({ signal: controller.signal });
+        controller.abort(new Error('cancelled'));
+
+        await expect(run).rejects.toThrow('cancelled');
+        expect(node.validationState).toBe('idle');
+    });
+
+    test('messages and params are evaluated under the run signal', async () => {
+        const { asyncRegistry } = createAsyncRegistry();
+        const signals: (AbortSignal | undefined)[] = [];
+        asyncRegistry.register('slowText', async (args, ctx) => {
+            signals.push(ctx.signal);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            ctx.signal?.throwIfAborted();
+            return String(await evalArg(args[0]!, ctx));
+        });
+        const node = PropertyNode.create({
+            id: 'code',
+            type: PROPERTY,
+            value: 'x',
+            constraints: {
+                long: {
+                    id: 'long',
+                    type: CONSTRAINT,
+                    value: op('gte', op('strlen', ref('self.value')), lit(3)),
+                    metadata: {
+                        message: op('slowText', lit('At least {min}')),
+                        params: {
+                            id: 'params',
+                            type: PROPERTY,
+                            children: { min: op('slowText', lit('3')) },
+                        },
+                    },
+                },
+            },
+        }, asyncRegistry);
+
+        const first = node.validate();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        node.setValue('xy');
+
+        const result = await first;
+        expect(result.errors.long).toBe('At least 3');
+        expect(signals.length).toBeGreaterThanOrEqual(3);
+        expect(signals.every(signal => signal !== undefined)).toBe(true);
+        // The superseded run stopped reading its params
+        expect(signals[0]!.aborted).toBe(true);
+    });
+
+    test('unsubscribed listeners stop receiving states', async () => {
+        const { asyncRegistry } = createAsyncRegistry(1);
+        const node = PropertyNode.create(createUsername('dave'), asyncRegistry);
+        const states: string[] = [];
+        const sub = node.subscribeValidation(state => states.push(state));
+
+        sub.unsubscribe();
+        await node.validate();
+        expect(sub.isActive).toBe(false);
+        expect(states).toEqual([]);
+    });
+});
+
+// ============================================================================
+// INTERPOLATION
+// ============================================================================
+
+describe('Validation: interpolate', () => {
+    test('replaces known placeholders and keeps unknown ones', () => {
+        expect(interpolate('{min}-{max} ({unit})', { min: 1, max: 5 })).toBe('1-5 ({unit})');
+    });
+});